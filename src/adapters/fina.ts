@@ -3,7 +3,17 @@ import { FINA_API_URL, FINA_LOGIN, FINA_PASSWORD } from '../config/stores';
 import { FinaInventoryItem, FinaProductDetail } from '../types';
 import { logger } from '../utils/logger';
 import { withFinaAuthRetry, withRetry } from '../utils/retry';
-import { finaCircuitBreaker } from '../utils/circuitBreaker';
+import { CircuitBreakerError, finaCircuitBreaker } from '../utils/circuitBreaker';
+import { SkuMapper } from '../core/skuMapper';
+import { FinaLoginResult, FinaTokenManager } from './finaToken';
+import {
+  FinaInvalidProductRow,
+  FinaInvalidRow,
+  FinaResponseError,
+  parseAuthResponse,
+  parseInventoryResponse,
+  parseProductsResponse
+} from './finaSchemas';
 
 const tagFinaError = (error: any): void => {
   if (error && typeof error === 'object') {
@@ -11,140 +21,216 @@ const tagFinaError = (error: any): void => {
   }
 };
 
+export interface FinaDetailsResult {
+  products: FinaProductDetail[];
+  durationMs: number;
+  apiCalls: number;
+  missingIds: number[];  // Requested IDs without valid details (failed chunks, invalid rows or unknown to Fina)
+  failedChunks: number;  // Chunks that still failed after the retry passes
+  invalidRows: FinaInvalidProductRow[]; // Rows that failed validation (quarantined)
+}
+
+export interface FinaInventoryResult {
+  items: FinaInventoryItem[];
+  durationMs: number;
+  invalidRows: FinaInvalidRow[]; // Rows that failed validation (quarantined)
+}
+
+const readInt = (key: string, fallback: number, min: number, max: number): number => {
+  const value = parseInt(process.env[key] || '', 10);
+  return Number.isFinite(value) && value >= min ? Math.min(value, max) : fallback;
+};
+
+const MAX_LOGGED_IDS = 100;
+
+export const formatIds = (ids: number[]): string =>
+  ids.length > MAX_LOGGED_IDS
+    ? `${ids.slice(0, MAX_LOGGED_IDS).join(', ')} ... and ${ids.length - MAX_LOGGED_IDS} more`
+    : ids.join(', ');
+
+// Login used by the shared token manager; retried and guarded by the Fina circuit breaker
+async function loginToFina(): Promise<FinaLoginResult> {
+  const client = axios.create({ baseURL: FINA_API_URL, timeout: 30000 });
+  try {
+    const response = await finaCircuitBreaker.execute(async () => {
+      return await withFinaAuthRetry(async () => {
+        return await client.post('/authentication/authenticate', {
+          login: FINA_LOGIN,
+          password: FINA_PASSWORD,
+        });
+      });
+    });
+    return parseAuthResponse(response.data);
+  } catch (error: any) {
+    tagFinaError(error);
+    logger.error(`Fina Auth Failed after retries: ${error.message} (URL: ${FINA_API_URL}/authentication/authenticate)`);
+    throw error;
+  }
+}
+
+// One token for every FinaAdapter in the process
+export const finaTokenManager = FinaTokenManager.fromEnv(loginToFina);
+
+// loginToFina already retried a failed login, and a malformed response comes back the same; don't retry either
+const isNotRetryable = (error: any): boolean => Boolean(error?.isFinaLoginFailure) || error instanceof FinaResponseError;
+
+const formatInvalidRow = (row: FinaInvalidRow): string => `Fina ID ${row.id ?? '?'}: ${row.reasons.join('; ')}`;
+
 export class FinaAdapter {
   private client: AxiosInstance;
-  private token: string | null = null;
+  private readonly detailsConfig: { chunkSize: number; concurrency: number; chunkRetries: number };
 
-  constructor() {
+  constructor(private readonly tokens: FinaTokenManager = finaTokenManager) {
     logger.info(`[FinaAdapter] Initializing with Base URL: '${FINA_API_URL}'`);
     this.client = axios.create({
       baseURL: FINA_API_URL,
       timeout: 30000,
     });
+    this.detailsConfig = {
+      chunkSize: readInt('FINA_DETAILS_CHUNK_SIZE', 1000, 1, 1000),
+      concurrency: readInt('FINA_DETAILS_CONCURRENCY', 3, 1, 10),
+      chunkRetries: readInt('FINA_DETAILS_CHUNK_RETRIES', 1, 0, 5)
+    };
   }
 
+  // Fresh login (credential checks); regular requests get the shared token lazily
   async authenticate(): Promise<{ durationMs: number }> {
     const startTime = Date.now();
+    await this.tokens.refresh();
+    return { durationMs: Date.now() - startTime };
+  }
+
+  /**
+   * Runs an authenticated request. A 401 invalidates the token it used, so the
+   * caller's retry picks up a new one from the token manager.
+   */
+  private async authorized<T>(request: (headers: { Authorization: string }) => Promise<T>): Promise<T> {
+    let token: string;
     try {
-      const response = await finaCircuitBreaker.execute(async () => {
-        return await withFinaAuthRetry(async () => {
-          return await this.client.post('/authentication/authenticate', {
-            login: FINA_LOGIN,
-            password: FINA_PASSWORD,
-          });
-        });
-      });
-      this.token = response.data.token;
-      if (!this.token) {
-        throw new Error('Fina authentication returned no token');
-      }
-      logger.info('Fina authentication successful');
-      return { durationMs: Date.now() - startTime };
+      token = await this.tokens.getToken();
+    } catch (error: any) {
+      tagFinaError(error);
+      error.isFinaLoginFailure = true;
+      throw error;
+    }
+    try {
+      return await request({ Authorization: `Bearer ${token}` });
     } catch (error: any) {
       tagFinaError(error);
-      logger.error(`Fina Auth Failed after retries: ${error.message} (URL: ${FINA_API_URL}/authentication/authenticate)`);
-      this.token = null;
+      // An HTML login page served with 200 means the session is gone just like a 401 does
+      if (error.response?.status === 401 || error instanceof FinaResponseError) {
+        this.tokens.invalidate(token);
+      }
       throw error;
     }
   }
 
-  async getInventory(storeId: number): Promise<{ items: FinaInventoryItem[]; durationMs: number }> {
-    if (!this.token) await this.authenticate();
-
+  async getInventory(storeId: number): Promise<FinaInventoryResult> {
     const startTime = Date.now();
-    const items = await finaCircuitBreaker.execute(async () => {
+    const { items, invalid } = await finaCircuitBreaker.execute(async () => {
       return withRetry(async () => {
         try {
-          const response = await this.client.get(`/operation/getProductsRestByStore/${storeId}`, {
-            headers: { Authorization: `Bearer ${this.token}` },
-          });
-          return response.data.store_rest || [];
+          return await this.authorized(async headers =>
+            parseInventoryResponse((await this.client.get(`/operation/getProductsRestByStore/${storeId}`, { headers })).data));
         } catch (error: any) {
-          tagFinaError(error);
           logger.error(`Fina Inventory Fetch Failed (Store ${storeId}): ${error.message}`);
-          if (error.response?.status === 401) {
-            this.token = null; // Force re-auth next time
-            await this.authenticate(); // Try to re-authenticate
-            if (!this.token) {
-              throw new Error('Fina re-authentication failed');
-            }
-          }
           throw error;
         }
-      }, { maxAttempts: 3, initialDelay: 2000, backoffFactor: 2 });
+      }, { maxAttempts: 3, initialDelay: 2000, backoffFactor: 2, retryIf: (err) => !isNotRetryable(err) });
     });
 
-    return { items, durationMs: Date.now() - startTime };
+    if (invalid.length > 0) {
+      logger.warn(`[FinaAdapter] Store ${storeId}: quarantined ${invalid.length} invalid inventory rows (e.g. ${formatInvalidRow(invalid[0])})`);
+    }
+    return { items, durationMs: Date.now() - startTime, invalidRows: invalid };
   }
 
-  async getProductDetails(ids: number[]): Promise<{ products: FinaProductDetail[]; durationMs: number; apiCalls: number }> {
-    if (!this.token) await this.authenticate();
+  private async fetchDetailsChunk(chunk: number[]): Promise<{ products: FinaProductDetail[]; invalid: FinaInvalidProductRow[] }> {
+    // Retry logic for details fetch with circuit breaker
+    return await finaCircuitBreaker.execute(async () => {
+      return await withRetry(async () => {
+        return await this.authorized(async headers =>
+          parseProductsResponse((await this.client.post('/operation/getProductsArray', chunk, { headers })).data));
+      }, {
+        maxAttempts: 3,
+        initialDelay: 1000,
+        retryIf: (err) =>
+          !isNotRetryable(err) && (
+            !err.response ||
+            err.response.status >= 500 ||
+            err.response.status === 429 ||
+            err.response.status === 401)
+      });
+    });
+  }
 
+  /**
+   * Details for ids, fetched in chunks of FINA_DETAILS_CHUNK_SIZE with up to
+   * FINA_DETAILS_CONCURRENCY chunks in flight. Chunks that still fail after
+   * their retries are fetched again (FINA_DETAILS_CHUNK_RETRIES more passes)
+   * unless the circuit breaker opened; whatever is still missing is returned
+   * in missingIds instead of failing the whole call.
+   */
+  async getProductDetails(ids: number[]): Promise<FinaDetailsResult> {
     const startTime = Date.now();
-    const chunkSize = 1000;
-    const chunks = [];
+    const { chunkSize, concurrency, chunkRetries } = this.detailsConfig;
+    let pending: number[][] = [];
     for (let i = 0; i < ids.length; i += chunkSize) {
-      chunks.push(ids.slice(i, i + chunkSize));
+      pending.push(ids.slice(i, i + chunkSize));
     }
 
-    const allDetails: FinaProductDetail[] = [];
+    const details = new Map<number, FinaProductDetail>();
+    const invalidRows: FinaInvalidProductRow[] = [];
     let apiCalls = 0;
+    let circuitOpen = false;
 
-    for (const chunk of chunks) {
-      try {
-        apiCalls++;
-        // Retry logic for details fetch with circuit breaker
-        const response = await finaCircuitBreaker.execute(async () => {
-          return await withRetry(async () => {
-               try {
-                 return await this.client.post('/operation/getProductsArray', chunk, {
-                   headers: { Authorization: `Bearer ${this.token}` },
-                 });
-               } catch (error: any) {
-                 tagFinaError(error);
-                 if (error.response?.status === 401) {
-                   this.token = null; // Force re-auth next time
-                   await this.authenticate(); // Try to re-authenticate
-                   if (!this.token) {
-                     throw new Error('Fina re-authentication failed');
-                   }
-                 }
-                 throw error;
-               }
-          }, {
-              maxAttempts: 3,
-              initialDelay: 1000,
-              retryIf: (err) =>
-                !err.response ||
-                err.response.status >= 500 ||
-                err.response.status === 429 ||
-                err.response.status === 401
-          });
-        });
-
-        if (response.data.products) {
-          allDetails.push(...response.data.products);
-        }
-      } catch (error: any) {
-        logger.error(`Fina Details Fetch Failed (Chunk): ${error.message}`);
-        // We continue to next chunk to get partial data at least.
+    for (let pass = 0; pass <= chunkRetries && pending.length > 0 && !circuitOpen; pass++) {
+      if (pass > 0) {
+        logger.warn(`[FinaAdapter] Retrying ${pending.length} failed detail chunks (pass ${pass + 1}/${chunkRetries + 1})`);
       }
+      const queue = [...pending];
+      const failed: number[][] = [];
+      const worker = async (): Promise<void> => {
+        for (let chunk = queue.shift(); chunk; chunk = queue.shift()) {
+          if (circuitOpen) {
+            failed.push(chunk); // Don't hammer Fina once the breaker opened
+            continue;
+          }
+          try {
+            apiCalls++;
+            const { products, invalid } = await this.fetchDetailsChunk(chunk);
+            products.forEach(product => details.set(product.id, product));
+            invalidRows.push(...invalid);
+          } catch (error: any) {
+            if (error instanceof FinaResponseError) {
+              // Wrong payload shape: fail the whole call, and stop the other workers from fetching more
+              queue.length = 0;
+              throw error;
+            }
+            failed.push(chunk);
+            circuitOpen = circuitOpen || error instanceof CircuitBreakerError;
+            logger.error(`Fina Details Fetch Failed (Chunk of ${chunk.length}, IDs ${chunk[0]}..${chunk[chunk.length - 1]}): ${error.message}`);
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, worker));
+      pending = failed;
     }
-    return { products: allDetails, durationMs: Date.now() - startTime, apiCalls };
-  }
 
-  // Helper to map Fina ID -> Wolt SKU (using usr_column_514 logic from Glovo project)
-  mapToWoltSku(details: FinaProductDetail[]): Map<number, string> {
-    const map = new Map<number, string>();
-    for (const product of details) {
-      // Safety check: ensure add_fields exists and is an array
-      if (Array.isArray(product.add_fields)) {
-          const woltField = product.add_fields.find(f => f && f.field === 'usr_column_514');
-          if (woltField && woltField.value) {
-            map.set(product.id, woltField.value);
-          }
-      }
+    const invalid = invalidRows.filter(row => row.id === undefined || !details.has(row.id));
+    if (invalid.length > 0) {
+      logger.warn(`[FinaAdapter] Quarantined ${invalid.length} invalid product rows (e.g. ${formatInvalidRow(invalid[0])})`);
     }
-    return map;
+    const missingIds = ids.filter(id => !details.has(id));
+    if (missingIds.length > 0) {
+      logger.warn(`[FinaAdapter] ${missingIds.length}/${ids.length} product details missing (${pending.length} chunks failed, ${invalid.length} invalid rows): ${formatIds(missingIds)}`);
+    }
+    return { products: [...details.values()], durationMs: Date.now() - startTime, apiCalls, missingIds, failedChunks: pending.length, invalidRows: invalid };
+  }
+
+  // Helper to map Fina ID -> Wolt SKU. Defaults to the usr_column_514 add_field
+  // (Glovo project logic); pass a store-specific SkuMapper for other strategies.
+  mapToWoltSku(details: FinaProductDetail[], mapper: SkuMapper = new SkuMapper()): Map<number, string> {
+    return mapper.resolve(details).skus;
   }
 }
@@ -0,0 +1,142 @@
+import { z } from 'zod';
+import { FinaInventoryItem, FinaProductDetail, FinaProductField } from '../types';
+
+/**
+ * Thrown when a Fina response doesn't have the expected shape at all (an HTML
+ * login page served with 200, a missing array). Never retried: the same call
+ * returns the same page, and a sync must not continue on it.
+ */
+export class FinaResponseError extends Error {
+  readonly isFinaError = true;
+
+  constructor(message: string, public readonly endpoint: string) {
+    super(message);
+    this.name = 'FinaResponseError';
+  }
+}
+
+// A row left out of the sync because it failed validation
+export interface FinaInvalidRow {
+  id?: number;       // Fina product ID, when the row has a usable one
+  reasons: string[]; // "<field>: <problem>"
+}
+
+// Rows quarantined by the last full sync of a store (state/reports/fina-invalid-store-<id>.json)
+export interface FinaValidationReport {
+  storeId: number;
+  generatedAt: string;
+  inventory: FinaInvalidRow[];
+  products: FinaInvalidRow[];
+  quarantinedSkus: string[]; // SKUs that kept their last synced values because of these rows
+}
+
+// Invalid product rows keep whatever could be read, so the sync can still tell which SKU they belong to
+export interface FinaInvalidProductRow extends FinaInvalidRow {
+  salvage?: FinaProductDetail;
+}
+
+const idSchema = z.number().int().positive();
+
+const authResponseSchema = z.object({
+  token: z.string().min(1),
+  expires_in: z.coerce.number().positive().optional().catch(undefined),
+  expiresIn: z.coerce.number().positive().optional().catch(undefined)
+});
+
+const inventoryRowSchema = z.object({
+  id: idSchema,
+  rest: z.number().finite(),
+  store_id: z.number().optional()
+}).passthrough();
+
+const fieldSchema = z.object({
+  field: z.string(),
+  value: z.union([z.string(), z.number()]).nullish().transform(value => (value == null ? '' : String(value)))
+});
+
+const productRowSchema = z.object({
+  id: idSchema,
+  title: z.string().nullish().transform(title => title ?? ''),
+  // Kept as received: the sync already makes items with a missing or invalid price unavailable
+  price: z.unknown(),
+  barcode: z.union([z.string(), z.number()]).nullish().transform(barcode => (barcode == null ? undefined : String(barcode))),
+  add_fields: z.array(fieldSchema).nullish().transform(fields => fields ?? [])
+}).passthrough();
+
+const describeIssues = (error: z.ZodError): string[] =>
+  error.issues.map(issue => `${issue.path.join('.') || '(row)'}: ${issue.message}`);
+
+const rowId = (row: unknown): number | undefined => {
+  const id = (row as { id?: unknown } | null)?.id;
+  return idSchema.safeParse(id).success ? (id as number) : undefined;
+};
+
+// What the body is when it isn't the JSON we asked for
+function describeBody(body: unknown): string {
+  if (typeof body === 'string') {
+    return /<(!doctype|html|head|body)\b/i.test(body) ? 'an HTML page (login or error page?)' : `text "${body.slice(0, 80)}"`;
+  }
+  return body === null || body === undefined ? 'an empty body' : Array.isArray(body) ? 'an array' : typeof body;
+}
+
+function expectArray(body: unknown, key: string, endpoint: string): unknown[] {
+  const value = body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>)[key] : undefined;
+  if (!Array.isArray(value)) {
+    const got = body && typeof body === 'object' && !Array.isArray(body) ? `an object without a "${key}" array` : describeBody(body);
+    throw new FinaResponseError(`Unexpected Fina ${endpoint} response: expected { ${key}: [...] }, got ${got}`, endpoint);
+  }
+  return value;
+}
+
+export function parseAuthResponse(body: unknown): { token: string; expiresInSeconds?: number } {
+  const parsed = authResponseSchema.safeParse(body);
+  if (!parsed.success) {
+    const got = body && typeof body === 'object' && !Array.isArray(body) ? 'an object without a token' : describeBody(body);
+    throw new FinaResponseError(`Unexpected Fina authenticate response: expected { token }, got ${got}`, 'authenticate');
+  }
+  return { token: parsed.data.token, expiresInSeconds: parsed.data.expires_in ?? parsed.data.expiresIn };
+}
+
+export function parseInventoryResponse(body: unknown): { items: FinaInventoryItem[]; invalid: FinaInvalidRow[] } {
+  const items: FinaInventoryItem[] = [];
+  const invalid: FinaInvalidRow[] = [];
+  for (const row of expectArray(body, 'store_rest', 'getProductsRestByStore')) {
+    const parsed = inventoryRowSchema.safeParse(row);
+    if (parsed.success) {
+      items.push(parsed.data as FinaInventoryItem);
+    } else {
+      invalid.push({ id: rowId(row), reasons: describeIssues(parsed.error) });
+    }
+  }
+  return { items, invalid };
+}
+
+export function parseProductsResponse(body: unknown): { products: FinaProductDetail[]; invalid: FinaInvalidProductRow[] } {
+  const products: FinaProductDetail[] = [];
+  const invalid: FinaInvalidProductRow[] = [];
+  for (const row of expectArray(body, 'products', 'getProductsArray')) {
+    const parsed = productRowSchema.safeParse(row);
+    if (parsed.success) {
+      products.push(parsed.data as FinaProductDetail);
+      continue;
+    }
+    const id = rowId(row);
+    const entry: FinaInvalidProductRow = { id, reasons: describeIssues(parsed.error) };
+    if (id !== undefined) {
+      const raw = row as Record<string, unknown>;
+      const fields = Array.isArray(raw.add_fields) ? raw.add_fields : [];
+      entry.salvage = {
+        id,
+        title: typeof raw.title === 'string' ? raw.title : '',
+        price: Number.NaN,
+        barcode: typeof raw.barcode === 'string' ? raw.barcode : undefined,
+        add_fields: fields.flatMap((field): FinaProductField[] => {
+          const valid = fieldSchema.safeParse(field);
+          return valid.success ? [valid.data] : [];
+        })
+      };
+    }
+    invalid.push(entry);
+  }
+  return { products, invalid };
+}
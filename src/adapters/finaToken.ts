@@ -0,0 +1,112 @@
+import { logger } from '../utils/logger';
+
+export interface FinaLoginResult {
+  token: string;
+  expiresInSeconds?: number; // When the login response says so
+}
+
+export type FinaLogin = () => Promise<FinaLoginResult>;
+
+export interface FinaTokenManagerConfig {
+  defaultTtlMs: number;     // Assumed lifetime when neither the token nor the response carries an expiry
+  refreshMarginMs: number;  // Refresh this long before the token expires
+}
+
+const DEFAULT_TTL_MINUTES = 30;
+const DEFAULT_REFRESH_MARGIN_SECONDS = 60;
+
+/**
+ * Expiry (ms since epoch) from a JWT "exp" claim, or undefined when the token
+ * isn't a JWT. The signature is not checked; Fina does that.
+ */
+export function decodeJwtExpiry(token: string): number | undefined {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const payload = JSON.parse(Buffer.from(parts[1].replace(/-/g, '+').replace(/_/g, '/'), 'base64').toString('utf8'));
+    return typeof payload?.exp === 'number' && Number.isFinite(payload.exp) ? payload.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * FinaTokenManager - one Fina bearer token for the whole process.
+ *
+ * Every FinaAdapter asks it for the token instead of logging in itself. The
+ * expiry is taken from the JWT, the login response or FINA_TOKEN_TTL_MINUTES,
+ * and the token is renewed FINA_TOKEN_REFRESH_MARGIN_SECONDS before it runs
+ * out. Concurrent callers share a single login (single-flight); a 401 only
+ * invalidates the token the caller used, so parallel requests failing with
+ * the same stale token trigger one login, not one each.
+ */
+export class FinaTokenManager {
+  private token: string | null = null;
+  private expiresAt = 0;
+  private inflight: Promise<string> | null = null;
+
+  constructor(private readonly login: FinaLogin, private readonly config: FinaTokenManagerConfig) {}
+
+  static fromEnv(login: FinaLogin): FinaTokenManager {
+    const read = (key: string, fallback: number) => {
+      const value = parseFloat(process.env[key] || '');
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+    return new FinaTokenManager(login, {
+      defaultTtlMs: read('FINA_TOKEN_TTL_MINUTES', DEFAULT_TTL_MINUTES) * 60 * 1000,
+      refreshMarginMs: read('FINA_TOKEN_REFRESH_MARGIN_SECONDS', DEFAULT_REFRESH_MARGIN_SECONDS) * 1000
+    });
+  }
+
+  // Current token, logging in first when there is none or it is about to expire
+  async getToken(): Promise<string> {
+    if (this.token && Date.now() < this.expiresAt - this.config.refreshMarginMs) {
+      return this.token;
+    }
+    return this.refresh();
+  }
+
+  // Log in now (joins a login already in flight)
+  async refresh(): Promise<string> {
+    if (!this.inflight) {
+      this.inflight = this.performLogin().finally(() => {
+        this.inflight = null;
+      });
+    }
+    return this.inflight;
+  }
+
+  // Called on 401: drop the token the request used, unless it was already replaced
+  invalidate(token: string | null | undefined): void {
+    if (token && token === this.token) {
+      logger.warn('[FinaToken] Token rejected by Fina; logging in again on next request');
+      this.token = null;
+      this.expiresAt = 0;
+    }
+  }
+
+  get tokenExpiresAt(): Date | null {
+    return this.token ? new Date(this.expiresAt) : null;
+  }
+
+  private async performLogin(): Promise<string> {
+    try {
+      const { token, expiresInSeconds } = await this.login();
+      if (!token) {
+        throw new Error('Fina authentication returned no token');
+      }
+      const now = Date.now();
+      this.token = token;
+      this.expiresAt = decodeJwtExpiry(token)
+        ?? (expiresInSeconds && expiresInSeconds > 0 ? now + expiresInSeconds * 1000 : now + this.config.defaultTtlMs);
+      logger.info(`[FinaToken] Fina authentication successful (token valid until ${new Date(this.expiresAt).toISOString()})`);
+      return token;
+    } catch (error) {
+      this.token = null;
+      this.expiresAt = 0;
+      throw error;
+    }
+  }
+}
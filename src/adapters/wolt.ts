@@ -1,10 +1,11 @@
 import axios, { AxiosInstance } from 'axios';
 import { WOLT_API_BASE } from '../config/stores';
-import { WoltInventoryUpdatePayload, WoltItemUpdatePayload } from '../types';
+import { WoltInventoryUpdatePayload, WoltItemUpdatePayload, WoltMenuItemCreatePayload } from '../types';
 import { logger } from '../utils/logger';
 import { withWoltApiRetry } from '../utils/retry';
 import { woltCircuitBreaker } from '../utils/circuitBreaker';
 import { WoltRateLimiter } from '../utils/woltRateLimiter';
+import { WoltBatchRejectedError, isBatchRejectionStatus, isEndpointRejection, parseWoltItemErrors } from './woltErrors';
 
 type PQueueType = import('p-queue').default;
 
@@ -18,13 +19,13 @@ export interface WoltApiResult {
   success: boolean;
   itemCount: number;
   rateLimitHit: boolean;
+  status?: number; // HTTP status of the final attempt
 }
 
-export interface WoltExistingItem {
-  sku: string;
-  enabled: boolean;
-  price?: number;
-  inventory?: number;
+export interface WoltCredentialCheck {
+  ok: boolean | null; // null: could not be determined (no read endpoint, network or server error)
+  status?: number;
+  message: string;
 }
 
 export class WoltAdapter {
@@ -93,10 +94,10 @@ export class WoltAdapter {
           try {
             const client = this.getClient(venueId, username, password, baseUrl);
             await limiter.waitForTurn();
-            await client.patch('/items/inventory', payload);
+            const response = await client.patch('/items/inventory', payload);
             limiter.onSuccess();
             logger.info(`[Wolt] Updated inventory for venue ${venueId} (${payload.data.length} items)`);
-            return { success: true, itemCount: payload.data.length, rateLimitHit };
+            return { success: true, itemCount: payload.data.length, rateLimitHit, status: response.status };
           } catch (error: any) {
             tagWoltError(error);
             const status = error.response?.status;
@@ -108,7 +109,22 @@ export class WoltAdapter {
 
             if (status === 409) {
               logger.warn(`[Wolt] Inventory update ignored (409 Conflict - Duplicate). Treating as success.`);
-              return { success: true, itemCount: payload.data.length, rateLimitHit };
+              return { success: true, itemCount: payload.data.length, rateLimitHit, status };
+            }
+
+            // Content rejected: report which SKUs Wolt complained about so the caller can isolate them.
+            // An endpoint rejection falls through and fails like any other client error
+            if (isBatchRejectionStatus(status)) {
+              const skus = payload.data.map(item => item.sku);
+              const itemErrors = parseWoltItemErrors(error.response?.data, skus, status);
+              if (!isEndpointRejection(status, itemErrors)) {
+                throw new WoltBatchRejectedError(
+                  `Wolt rejected inventory batch of ${skus.length} items (${status}${itemErrors.length ? `, ${itemErrors.length} SKU errors` : ''})`,
+                  status,
+                  itemErrors,
+                  error.response?.data
+                );
+              }
             }
 
             // Avoid noisy error logs for retriable failures - the retry wrapper logs attempts.
@@ -141,10 +157,10 @@ export class WoltAdapter {
           try {
             const client = this.getClient(venueId, username, password, baseUrl);
             await limiter.waitForTurn();
-            await client.patch('/items', payload);
+            const response = await client.patch('/items', payload);
             limiter.onSuccess();
             logger.info(`[Wolt] Updated items for venue ${venueId} (${payload.data.length} items)`);
-            return { success: true, itemCount: payload.data.length, rateLimitHit };
+            return { success: true, itemCount: payload.data.length, rateLimitHit, status: response.status };
           } catch (error: any) {
             tagWoltError(error);
             const status = error.response?.status;
@@ -156,7 +172,22 @@ export class WoltAdapter {
 
             if (status === 409) {
               logger.warn(`[Wolt] Items update ignored (409 Conflict - Duplicate). Treating as success.`);
-              return { success: true, itemCount: payload.data.length, rateLimitHit };
+              return { success: true, itemCount: payload.data.length, rateLimitHit, status };
+            }
+
+            // Content rejected: report which SKUs Wolt complained about so the caller can isolate them.
+            // An endpoint rejection falls through and fails like any other client error
+            if (isBatchRejectionStatus(status)) {
+              const skus = payload.data.map(item => item.sku);
+              const itemErrors = parseWoltItemErrors(error.response?.data, skus, status);
+              if (!isEndpointRejection(status, itemErrors)) {
+                throw new WoltBatchRejectedError(
+                  `Wolt rejected items batch of ${skus.length} items (${status}${itemErrors.length ? `, ${itemErrors.length} SKU errors` : ''})`,
+                  status,
+                  itemErrors,
+                  error.response?.data
+                );
+              }
             }
 
             // Avoid noisy error logs for retriable failures - the retry wrapper logs attempts.
@@ -178,64 +209,144 @@ export class WoltAdapter {
   }
 
   /**
-   * Introspect Wolt to get existing items (Solution 3 - Smart Caching)
-   * This allows us to bootstrap state from Wolt instead of doing full sync
-   *
-   * NOTE: This method attempts to query Wolt for existing items.
-   * If the API doesn't support this endpoint, it will fail gracefully.
+   * Create menu items for SKUs the venue doesn't have yet (POST /items by default;
+   * WOLT_ITEM_CREATE_PATH overrides the path for integrations that use a different
+   * menu endpoint). A 409 means the SKU already exists and is treated as success.
    */
-  async introspectExistingItems(venueId: string, username?: string, password?: string, baseUrl?: string): Promise<WoltExistingItem[]> {
+  async createItems(venueId: string, payload: WoltMenuItemCreatePayload, username?: string, password?: string, baseUrl?: string): Promise<WoltApiResult> {
     const queue = await this.getQueue();
-    const enableIntrospection = (process.env.ENABLE_WOLT_INTROSPECTION || 'true').toLowerCase() !== 'false';
+    let rateLimitHit = false;
+    const limiter = this.getRateLimiter(venueId, username, baseUrl);
+    const createPath = process.env.WOLT_ITEM_CREATE_PATH || '/items';
 
-    if (!enableIntrospection) {
-      logger.info('[Wolt] Introspection disabled via config');
-      return [];
-    }
+    return queue.add(async () => {
+      return woltCircuitBreaker.execute(async () => {
+        return withWoltApiRetry(async () => {
+          try {
+            const client = this.getClient(venueId, username, password, baseUrl);
+            await limiter.waitForTurn();
+            const response = await client.post(createPath, payload);
+            limiter.onSuccess();
+            logger.info(`[Wolt] Created items for venue ${venueId} (${payload.data.length} items)`);
+            return { success: true, itemCount: payload.data.length, rateLimitHit, status: response.status };
+          } catch (error: any) {
+            tagWoltError(error);
+            const status = error.response?.status;
+            if (status === 429) {
+              rateLimitHit = true;
+              limiter.onRateLimited(error.response?.headers?.['retry-after']);
+              throw error;
+            }
+
+            if (status === 409) {
+              logger.warn(`[Wolt] Item creation ignored (409 Conflict - already exists). Treating as success.`);
+              return { success: true, itemCount: payload.data.length, rateLimitHit, status };
+            }
+
+            const isServerError = typeof status === 'number' && status >= 500 && status < 600;
+            const isNetworkError = !error?.response;
+            if (!isServerError && !isNetworkError) {
+              logger.error({
+                message: `[Wolt] Item Creation Failed for ${venueId}`,
+                error: error.message,
+                status,
+                responseData: error.response?.data
+              });
+            }
+            throw error;
+          }
+        });
+      });
+    }) as Promise<WoltApiResult>;
+  }
+
+  /**
+   * One page of the venue's item catalog (GET /items), paced by the same rate
+   * limiter as the write endpoints. Returns null when this Wolt environment
+   * does not expose the endpoint (404/405) or the credentials may not read it (403).
+   * The raw body is parsed by WoltCatalogReader.
+   */
+  async getItemsPage(
+    venueId: string,
+    params: { pageToken?: string; limit: number },
+    username?: string,
+    password?: string,
+    baseUrl?: string
+  ): Promise<unknown | null> {
+    const queue = await this.getQueue();
+    const limiter = this.getRateLimiter(venueId, username, baseUrl);
+    const timeout = parseInt(process.env.WOLT_INTROSPECTION_TIMEOUT_MS || '120000', 10);
 
     return queue.add(async () => {
-      try {
-        const client = this.getClient(venueId, username, password, baseUrl);
-
-        logger.info(`[Wolt] Attempting to introspect existing items for venue ${venueId}...`);
-
-        // Try GET /items endpoint (may not be supported by all Wolt environments)
-        const timeout = parseInt(process.env.WOLT_INTROSPECTION_TIMEOUT_MS || '120000', 10);
-        const response = await client.get('/items', { timeout });
-
-        const items: WoltExistingItem[] = [];
-
-        // Handle different response formats
-        if (Array.isArray(response.data)) {
-          items.push(...response.data);
-        } else if (response.data.items && Array.isArray(response.data.items)) {
-          items.push(...response.data.items);
-        } else if (response.data.data && Array.isArray(response.data.data)) {
-          items.push(...response.data.data);
-        }
-
-        logger.info(`[Wolt] Successfully introspected ${items.length} existing items`);
-        return items;
-
-      } catch (error: any) {
-        const status = error.response?.status;
-
-        // 404 or 405 means endpoint not supported - this is OK
-        if (status === 404 || status === 405) {
-          logger.info('[Wolt] Introspection endpoint not supported by this Wolt environment (404/405)');
-          return [];
-        }
-
-        // 403 might mean insufficient permissions
-        if (status === 403) {
-          logger.warn('[Wolt] Introspection forbidden (403) - may need different permissions');
-          return [];
-        }
-
-        // Other errors - log but don't fail
-        logger.warn(`[Wolt] Introspection failed: ${error.message} (will fall back to normal sync)`);
-        return [];
+      return woltCircuitBreaker.execute(async () => {
+        return withWoltApiRetry(async () => {
+          try {
+            const client = this.getClient(venueId, username, password, baseUrl);
+            await limiter.waitForTurn();
+            const query: Record<string, string | number> = { limit: params.limit };
+            if (params.pageToken) {
+              query.page_token = params.pageToken;
+            }
+            const response = await client.get('/items', { params: query, timeout });
+            limiter.onSuccess();
+            return response.data;
+          } catch (error: any) {
+            tagWoltError(error);
+            const status = error.response?.status;
+            if (status === 429) {
+              limiter.onRateLimited(error.response?.headers?.['retry-after']);
+              throw error;
+            }
+            // Not an outage: don't count it against the circuit breaker
+            if (status === 404 || status === 405) {
+              logger.info('[Wolt] Catalog endpoint not supported by this Wolt environment (404/405)');
+              return null;
+            }
+            if (status === 403) {
+              logger.warn('[Wolt] Catalog read forbidden (403) - may need different permissions');
+              return null;
+            }
+            throw error;
+          }
+        });
+      });
+    }) as Promise<unknown | null>;
+  }
+
+  /**
+   * Check a venue's Basic auth credentials with a read-only request (GET /items?limit=1).
+   * Nothing is changed on Wolt; the request is not retried and does not count
+   * against the circuit breaker.
+   */
+  async probeCredentials(venueId: string, username?: string, password?: string, baseUrl?: string): Promise<WoltCredentialCheck> {
+    let client: AxiosInstance;
+    try {
+      client = this.getClient(venueId, username, password, baseUrl);
+    } catch (error: any) {
+      return { ok: false, message: error.message };
+    }
+
+    const limiter = this.getRateLimiter(venueId, username, baseUrl);
+    try {
+      await limiter.waitForTurn();
+      const response = await client.get('/items', { params: { limit: 1 } });
+      limiter.onSuccess();
+      return { ok: true, status: response.status, message: 'Credentials accepted' };
+    } catch (error: any) {
+      const status = error.response?.status;
+      if (status === 429) {
+        limiter.onRateLimited(error.response?.headers?.['retry-after']);
       }
-    }) as Promise<WoltExistingItem[]>;
+      if (status === 401) {
+        return { ok: false, status, message: 'Credentials rejected (401)' };
+      }
+      if (status === 403) {
+        return { ok: false, status, message: 'Credentials not allowed for this venue (403)' };
+      }
+      if (status === 404 || status === 405) {
+        return { ok: null, status, message: `Venue or read endpoint not found (${status}); credentials not verified` };
+      }
+      return { ok: null, status, message: `Check failed: ${error.message}` };
+    }
   }
 }
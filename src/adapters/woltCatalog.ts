@@ -0,0 +1,247 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { resolveStoreSetting } from '../config/stores';
+import { StoreConfig } from '../types';
+import { createStoreLogger } from '../utils/logger';
+import { WoltAdapter } from './wolt';
+
+export interface WoltCatalogItem {
+  sku: string;
+  name?: string;
+  enabled: boolean;
+  price?: number;
+  discountedPrice?: number;
+  inventory?: number;
+  vatPercentage?: number;
+}
+
+export interface WoltCatalog {
+  storeId: number;
+  venueId: string;
+  fetchedAt: string;
+  pages: number;
+  invalidItems: number; // Rows that did not match the item schema (skipped)
+  items: WoltCatalogItem[];
+}
+
+export class WoltCatalogError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WoltCatalogError';
+  }
+}
+
+const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_PAGE_SIZE = 500;
+const DEFAULT_MAX_PAGES = 1000;
+
+// Names are either plain strings or translations ([{ lang, value }]); the first translation is used.
+const nameSchema = z.union([
+  z.string(),
+  z.array(z.object({ lang: z.string().optional(), value: z.string() })).transform(names => names[0]?.value)
+]);
+
+const catalogItemSchema = z.object({
+  sku: z.string().min(1),
+  name: nameSchema.nullish(),
+  enabled: z.boolean().default(true),
+  price: z.number().finite().nullish(),
+  discounted_price: z.number().finite().nullish(),
+  inventory: z.number().finite().nullish(),
+  vat_percentage: z.number().finite().nullish()
+}).transform((raw): WoltCatalogItem => {
+  const item: WoltCatalogItem = { sku: raw.sku, enabled: raw.enabled };
+  if (raw.name) item.name = raw.name;
+  if (raw.price != null) item.price = raw.price;
+  if (raw.discounted_price != null) item.discountedPrice = raw.discounted_price;
+  if (raw.inventory != null) item.inventory = raw.inventory;
+  if (raw.vat_percentage != null) item.vatPercentage = raw.vat_percentage;
+  return item;
+});
+
+// Environments return either a bare array (unpaginated) or { items | data, next_page_token }.
+const catalogPageSchema = z.union([
+  z.array(z.unknown()).transform(rows => ({ rows, nextPageToken: undefined as string | undefined })),
+  z.object({
+    items: z.array(z.unknown()).optional(),
+    data: z.array(z.unknown()).optional(),
+    next_page_token: z.string().nullish()
+  }).refine(page => page.items !== undefined || page.data !== undefined, 'expected an items or data array')
+    .transform(page => ({ rows: page.items ?? page.data ?? [], nextPageToken: page.next_page_token || undefined }))
+]);
+
+const catalogCacheSchema = z.object({
+  storeId: z.number(),
+  venueId: z.string(),
+  fetchedAt: z.string(),
+  pages: z.number(),
+  invalidItems: z.number(),
+  items: z.array(z.object({ sku: z.string(), enabled: z.boolean() }).passthrough())
+});
+
+export function parseCatalogPage(body: unknown): { items: WoltCatalogItem[]; invalidItems: number; nextPageToken?: string } {
+  const page = catalogPageSchema.safeParse(body);
+  if (!page.success) {
+    throw new WoltCatalogError(`Unexpected Wolt catalog response: ${page.error.issues[0]?.message || 'invalid shape'}`);
+  }
+  const items: WoltCatalogItem[] = [];
+  let invalidItems = 0;
+  for (const row of page.data.rows) {
+    const item = catalogItemSchema.safeParse(row);
+    if (item.success) {
+      items.push(item.data);
+    } else {
+      invalidItems++;
+    }
+  }
+  return { items, invalidItems, nextPageToken: page.data.nextPageToken };
+}
+
+const readNumber = (raw: string | undefined, fallback: number, min: number): number => {
+  const parsed = parseInt(raw || '', 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+};
+
+/**
+ * WoltCatalogReader - what Wolt currently has for a venue.
+ *
+ * Follows next_page_token until the last page, validates every row with zod
+ * (bad rows are counted and skipped), and caches the result on disk under
+ * state/wolt-catalog for WOLT_CATALOG_CACHE_TTL_MS so repeated tooling runs
+ * don't spend the venue's rate budget. Requests go through WoltAdapter and
+ * share its per-venue rate limiter with the write endpoints.
+ */
+export class WoltCatalogReader {
+  private readonly cacheDir: string;
+
+  constructor(
+    private readonly wolt: WoltAdapter,
+    private readonly config: { cacheTtlMs: number; pageSize: number; maxPages: number }
+  ) {
+    this.cacheDir = path.join(process.cwd(), 'state', 'wolt-catalog');
+  }
+
+  static fromEnv(storeId: number, wolt: WoltAdapter = new WoltAdapter()): WoltCatalogReader {
+    return new WoltCatalogReader(wolt, {
+      cacheTtlMs: readNumber(resolveStoreSetting(storeId, 'WOLT_CATALOG_CACHE_TTL_MS'), DEFAULT_CACHE_TTL_MS, 0),
+      pageSize: readNumber(resolveStoreSetting(storeId, 'WOLT_CATALOG_PAGE_SIZE'), DEFAULT_PAGE_SIZE, 1),
+      maxPages: readNumber(resolveStoreSetting(storeId, 'WOLT_CATALOG_MAX_PAGES'), DEFAULT_MAX_PAGES, 1)
+    });
+  }
+
+  private getCachePath(storeId: number): string {
+    return path.join(this.cacheDir, `store-${storeId}.json`);
+  }
+
+  /**
+   * The venue catalog, from cache when fresh. Returns null when introspection
+   * is disabled (ENABLE_WOLT_INTROSPECTION=false) or the endpoint is unavailable.
+   */
+  async read(store: StoreConfig, options: { refresh?: boolean } = {}): Promise<WoltCatalog | null> {
+    const log = createStoreLogger(store.id);
+    if ((process.env.ENABLE_WOLT_INTROSPECTION || 'true').toLowerCase() === 'false') {
+      log.info('[WoltCatalog] Introspection disabled via config');
+      return null;
+    }
+
+    if (!options.refresh) {
+      const cached = await this.readCache(store);
+      if (cached) {
+        log.info(`[WoltCatalog] Using cached catalog from ${cached.fetchedAt} (${cached.items.length} items)`);
+        return cached;
+      }
+    }
+
+    const items = new Map<string, WoltCatalogItem>();
+    const seenTokens = new Set<string>();
+    let invalidItems = 0;
+    let pages = 0;
+    let pageToken: string | undefined;
+
+    do {
+      if (pages >= this.config.maxPages) {
+        throw new WoltCatalogError(`Wolt catalog for venue ${store.woltVenueId} exceeded ${this.config.maxPages} pages`);
+      }
+      const body = await this.wolt.getItemsPage(
+        store.woltVenueId,
+        { pageToken, limit: this.config.pageSize },
+        store.woltUsername,
+        store.woltPassword,
+        store.woltApiUrl
+      );
+      if (body === null) {
+        return null;
+      }
+
+      const page = parseCatalogPage(body);
+      pages++;
+      invalidItems += page.invalidItems;
+      page.items.forEach(item => items.set(item.sku, item));
+
+      if (page.nextPageToken && seenTokens.has(page.nextPageToken)) {
+        throw new WoltCatalogError(`Wolt catalog pagination for venue ${store.woltVenueId} repeated page token ${page.nextPageToken}`);
+      }
+      pageToken = page.nextPageToken;
+      if (pageToken) {
+        seenTokens.add(pageToken);
+      }
+    } while (pageToken);
+
+    if (invalidItems > 0) {
+      log.warn(`[WoltCatalog] Skipped ${invalidItems} catalog rows that did not match the item schema`);
+    }
+
+    const catalog: WoltCatalog = {
+      storeId: store.id,
+      venueId: store.woltVenueId,
+      fetchedAt: new Date().toISOString(),
+      pages,
+      invalidItems,
+      items: [...items.values()]
+    };
+    log.info(`[WoltCatalog] Read ${catalog.items.length} items in ${pages} pages`);
+    await this.writeCache(catalog);
+    return catalog;
+  }
+
+  async invalidate(storeId: number): Promise<void> {
+    await fs.remove(this.getCachePath(storeId));
+  }
+
+  private async readCache(store: StoreConfig): Promise<WoltCatalog | null> {
+    if (this.config.cacheTtlMs <= 0) {
+      return null;
+    }
+    const filePath = this.getCachePath(store.id);
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return null;
+      }
+      const parsed = catalogCacheSchema.safeParse(await fs.readJson(filePath));
+      if (!parsed.success || parsed.data.venueId !== store.woltVenueId) {
+        return null;
+      }
+      if (Date.now() - Date.parse(parsed.data.fetchedAt) > this.config.cacheTtlMs) {
+        return null;
+      }
+      return parsed.data as WoltCatalog;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeCache(catalog: WoltCatalog): Promise<void> {
+    if (this.config.cacheTtlMs <= 0) {
+      return;
+    }
+    const filePath = this.getCachePath(catalog.storeId);
+    try {
+      await fs.ensureDir(this.cacheDir);
+      await fs.writeJson(`${filePath}.tmp`, catalog);
+      await fs.move(`${filePath}.tmp`, filePath, { overwrite: true });
+    } catch (error: any) {
+      createStoreLogger(catalog.storeId).warn(`[WoltCatalog] Failed to cache catalog: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,108 @@
+export type WoltItemErrorKind = 'unknown_sku' | 'validation';
+
+export interface WoltItemError {
+  sku: string;
+  kind: WoltItemErrorKind;
+  reason: string;
+}
+
+// Client errors that reject the payload itself (as opposed to auth, conflicts or rate limits)
+const REJECTION_STATUSES = new Set([400, 404, 422]);
+
+const UNKNOWN_SKU_PATTERN = /not[ _-]?found|unknown|does not exist|no such/i;
+
+/**
+ * Wolt refused a batch because of its content (422, or 400/404 naming SKUs). Not an outage:
+ * it is not retried and does not count against the circuit breaker.
+ */
+export class WoltBatchRejectedError extends Error {
+  readonly isWoltError = true;
+  readonly isBatchRejection = true;
+
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly itemErrors: WoltItemError[],
+    public readonly responseData?: unknown
+  ) {
+    super(message);
+    this.name = 'WoltBatchRejectedError';
+  }
+}
+
+export function isBatchRejectionStatus(status: unknown): status is number {
+  return typeof status === 'number' && REJECTION_STATUSES.has(status);
+}
+
+/**
+ * A 400/404 that names no SKU of the batch is about the request itself (wrong
+ * venue, wrong WOLT_API_URL, broken payload), not its content. It fails every
+ * batch alike, so it must fail the run instead of being bisected into the quarantine.
+ */
+export function isEndpointRejection(status: number, itemErrors: WoltItemError[]): boolean {
+  return itemErrors.length === 0 && status !== 422;
+}
+
+const describe = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of ['message', 'msg', 'detail', 'reason', 'error', 'code']) {
+      if (typeof record[key] === 'string') return record[key] as string;
+    }
+    if (Array.isArray(record.errors)) return record.errors.map(describe).join('; ');
+  }
+  return 'rejected by Wolt';
+};
+
+const classify = (reason: string, status: number): WoltItemErrorKind =>
+  status === 404 || UNKNOWN_SKU_PATTERN.test(reason) ? 'unknown_sku' : 'validation';
+
+/**
+ * Per-SKU errors from a rejected batch response. Understands:
+ * - { errors: [{ sku, message }] }
+ * - { data: [{ sku, error | errors | message }] } (entries without an error are fine)
+ * - { detail: [{ loc: [..., "data", <index>, ...], msg }] } (index into the sent batch)
+ * Errors that can't be tied to a SKU of the batch are ignored; the caller bisects instead.
+ */
+export function parseWoltItemErrors(responseData: unknown, batchSkus: string[], status: number): WoltItemError[] {
+  if (!responseData || typeof responseData !== 'object') {
+    return [];
+  }
+  const body = responseData as Record<string, unknown>;
+  const inBatch = new Set(batchSkus);
+  const found = new Map<string, string>();
+  const add = (sku: unknown, reason: string) => {
+    if (typeof sku === 'string' && inBatch.has(sku) && !found.has(sku)) {
+      found.set(sku, reason);
+    }
+  };
+
+  if (Array.isArray(body.errors)) {
+    for (const entry of body.errors) {
+      add((entry as Record<string, unknown>)?.sku, describe(entry));
+    }
+  }
+  if (Array.isArray(body.data)) {
+    for (const entry of body.data) {
+      const record = (entry || {}) as Record<string, unknown>;
+      const error = record.error ?? record.errors ?? (record.status === 'error' ? record.message : undefined);
+      if (error !== undefined && error !== null) {
+        add(record.sku, describe(error));
+      }
+    }
+  }
+  if (Array.isArray(body.detail)) {
+    for (const entry of body.detail) {
+      const loc = (entry as Record<string, unknown>)?.loc;
+      if (!Array.isArray(loc)) continue;
+      const dataIndex = loc.indexOf('data');
+      const index = dataIndex >= 0 ? loc[dataIndex + 1] : undefined;
+      if (typeof index === 'number') {
+        add(batchSkus[index], describe(entry));
+      }
+    }
+  }
+
+  return [...found.entries()].map(([sku, reason]) => ({ sku, reason, kind: classify(reason, status) }));
+}
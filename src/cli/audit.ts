@@ -0,0 +1,62 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { AuditJournal } from '../core/auditJournal';
+import { parseTimeSpec } from '../utils/timeSpec';
+
+const formatValues = (values?: Record<string, unknown>): string =>
+  values ? Object.entries(values).map(([key, value]) => `${key}=${value}`).join(' ') : '-';
+
+export function registerAuditCommand(program: Command): void {
+  program
+    .command('audit')
+    .description('Query the journal of batches sent to Wolt (e.g. "when did this item get disabled and why")')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--sku <sku>', 'Only show changes for this SKU')
+    .option('--since <time>', 'Start of the window: 30m, 12h, 2d, 1w or an ISO date', '1d')
+    .option('--until <time>', 'End of the window (default: now)')
+    .option('--run <id>', 'Only show entries from this sync run ID')
+    .option('--json', 'Print raw JSON lines', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      let since: number;
+      let until: number | undefined;
+      try {
+        since = parseTimeSpec(options.since);
+        until = options.until ? parseTimeSpec(options.until) : undefined;
+      } catch (error: any) {
+        console.error(chalk.red(error.message));
+        process.exit(1);
+      }
+
+      const entries = (await new AuditJournal().query({ storeId, since, until, sku: options.sku }))
+        .filter(entry => !options.run || entry.runId === options.run);
+
+      if (options.json) {
+        entries.forEach(entry => console.log(JSON.stringify(entry)));
+        return;
+      }
+
+      if (entries.length === 0) {
+        console.log(chalk.yellow(`No journal entries for store ${storeId}${options.sku ? ` and SKU ${options.sku}` : ''} since ${new Date(since).toISOString()}.`));
+        return;
+      }
+
+      console.table(
+        entries.flatMap(entry =>
+          entry.changes.map(change => ({
+            time: entry.ts,
+            run: entry.runId,
+            source: entry.source,
+            endpoint: entry.endpoint,
+            outcome: entry.outcome,
+            http: entry.httpStatus ?? '-',
+            rateLimited: entry.rateLimitHit,
+            sku: change.sku,
+            before: formatValues(change.before),
+            after: formatValues(change.after),
+            reason: change.reason || entry.error || ''
+          }))
+        )
+      );
+    });
+}
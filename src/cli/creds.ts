@@ -0,0 +1,69 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { stores } from '../config/stores';
+import { FinaAdapter } from '../adapters/fina';
+import { WoltAdapter, WoltCredentialCheck } from '../adapters/wolt';
+import { EXIT_FAILED, EXIT_INCONCLUSIVE, EXIT_OK, EXIT_USAGE } from './exitCodes';
+
+interface CredentialReport {
+  storeId: number;
+  venueId: string;
+  fina: WoltCredentialCheck & { durationMs?: number };
+  wolt: WoltCredentialCheck;
+}
+
+const label = (check: WoltCredentialCheck): string =>
+  check.ok === true ? chalk.green('OK') : check.ok === false ? chalk.red('FAILED') : chalk.yellow('UNKNOWN');
+
+export function registerCredsCommands(program: Command): void {
+  const creds = program
+    .command('creds')
+    .description('Credential checks');
+
+  creds
+    .command('verify')
+    .description('Check Fina login and the store\'s Wolt Basic auth without changing anything')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--json', 'Print the result as JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const store = stores.find(s => s.id === storeId);
+      if (!store) {
+        if (options.json) {
+          console.log(JSON.stringify({ storeId, error: 'Store not found in configuration' }, null, 2));
+        } else {
+          console.error(`Store ${storeId} not found in configuration.`);
+        }
+        process.exit(EXIT_USAGE);
+      }
+
+      const report: CredentialReport = {
+        storeId,
+        venueId: store.woltVenueId,
+        fina: { ok: false, message: '' },
+        wolt: { ok: false, message: '' }
+      };
+
+      try {
+        const { durationMs } = await new FinaAdapter().authenticate();
+        report.fina = { ok: true, message: 'Fina login accepted', durationMs };
+      } catch (error: any) {
+        report.fina = { ok: false, status: error?.response?.status, message: `Fina login failed: ${error.message}` };
+      }
+      report.wolt = await new WoltAdapter().probeCredentials(store.woltVenueId, store.woltUsername, store.woltPassword, store.woltApiUrl);
+
+      const checks = [report.fina, report.wolt];
+      const code = checks.some(check => check.ok === false)
+        ? EXIT_FAILED
+        : checks.some(check => check.ok === null) ? EXIT_INCONCLUSIVE : EXIT_OK;
+
+      if (options.json) {
+        console.log(JSON.stringify({ ...report, ok: code === EXIT_OK }, null, 2));
+      } else {
+        console.log(`Store ${storeId} (${store.name}), Wolt venue ${store.woltVenueId || '-'}`);
+        console.log(`  Fina: ${label(report.fina)} - ${report.fina.message}`);
+        console.log(`  Wolt: ${label(report.wolt)} - ${report.wolt.message}`);
+      }
+      process.exit(code);
+    });
+}
@@ -0,0 +1,8 @@
+/**
+ * Exit codes of the operator commands ("item", "creds"), so scripts and cron checks can branch on them.
+ */
+export const EXIT_OK = 0;
+export const EXIT_FAILED = 1;       // Wolt/Fina call failed or was rejected, or a credential check failed
+export const EXIT_USAGE = 2;        // Invalid arguments, unknown store or store without Wolt credentials
+export const EXIT_NOT_FOUND = 3;    // Lookup matched nothing
+export const EXIT_INCONCLUSIVE = 4; // Check could not be completed (endpoint unsupported, network error)
@@ -4,6 +4,16 @@ import { stores } from '../config/stores';
 import { SyncEngine } from '../core/sync';
 import { logger } from '../utils/logger';
 import { registerHybridInitCommand } from './hybridInit';
+import { registerReportCommands } from './reports';
+import { registerPendingCommands } from './pending';
+import { registerPlanCommands } from './plan';
+import { registerAuditCommand } from './audit';
+import { registerStateCommands } from './state';
+import { registerReconcileCommand } from './reconcile';
+import { registerQuarantineCommands } from './quarantine';
+import { registerSkuCommands } from './sku';
+import { registerItemCommands } from './item';
+import { registerCredsCommands } from './creds';
 
 const program = new Command();
 
@@ -19,6 +29,8 @@ program
   .option('-d, --dry-run', 'Run without sending data to Wolt', false)
   .option('-l, --limit <n>', 'Limit number of availability/inventory updates (for testing)', '0')
   .option('--force-full', 'Force full sync (send all items, not just changes)', false)
+  .option('--skip-anomaly-guard', 'Send the delta even if it would mass-disable items or change many prices', false)
+  .option('--create-missing', 'Create Fina SKUs that do not exist on Wolt yet (with -d: only list them)', false)
   .action(async (options) => {
     const storeId = parseInt(options.store, 10);
     const store = stores.find(s => s.id === storeId);
@@ -35,7 +47,9 @@ program
       await engine.runWithOptions(store, {
         dryRun: options.dryRun,
         limit: limit > 0 ? limit : undefined,
-        forceFullSync: options.forceFull
+        forceFullSync: options.forceFull,
+        skipAnomalyGuard: options.skipAnomalyGuard,
+        createMissing: options.createMissing || undefined // Unset: WOLT_CREATE_MISSING_ITEMS decides
       });
       console.log('Sync completed successfully.');
     } catch (error: any) {
@@ -166,4 +180,32 @@ program
 // Register Hybrid Sync command (Solution 5)
 registerHybridInitCommand(program);
 
+// Persisted sync reports
+registerReportCommands(program);
+
+// Deltas held by the anomaly guard
+registerPendingCommands(program);
+
+// Plan then apply (review large deltas before they go live)
+registerPlanCommands(program);
+
+// Journal of everything sent to Wolt
+registerAuditCommand(program);
+
+// State inspection and backend migration
+registerStateCommands(program);
+
+// Drift between the live Wolt catalog and state
+registerReconcileCommand(program);
+
+// SKUs rejected by Wolt
+registerQuarantineCommands(program);
+
+// Operator overrides for single SKUs
+registerSkuCommands(program);
+
+// One-off item changes, SKU lookup and credential checks
+registerItemCommands(program);
+registerCredsCommands(program);
+
 program.parse(process.argv);
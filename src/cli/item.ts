@@ -0,0 +1,336 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { stores } from '../config/stores';
+import { FinaAdapter } from '../adapters/fina';
+import { WoltAdapter } from '../adapters/wolt';
+import { WoltBatchRejectedError, WoltItemError } from '../adapters/woltErrors';
+import { AuditContext, AuditJournal, newRunId } from '../core/auditJournal';
+import { SkuMapper } from '../core/skuMapper';
+import { StateManager } from '../core/state';
+import { markConfirmed } from '../core/stateSchema';
+import { StoreConfig, SyncState, WoltInventoryItem, WoltItemUpdate } from '../types';
+import { EXIT_FAILED, EXIT_NOT_FOUND, EXIT_OK, EXIT_USAGE } from './exitCodes';
+
+type ItemAction = 'disable' | 'enable' | 'set-price' | 'set-stock';
+
+// Commander options of the send commands (values as typed on the command line)
+interface ItemCommandOptions {
+  store: string;
+  sku: string[];
+  dryRun: boolean;
+  json: boolean;
+  keepStock?: boolean;
+  price?: string;
+  discountedPrice?: string;
+  clearDiscount?: boolean;
+  quantity?: string;
+}
+
+interface ItemCommandResult {
+  ok: boolean;
+  action: ItemAction;
+  storeId: number;
+  venueId?: string;
+  dryRun: boolean;
+  itemUpdates: WoltItemUpdate[];
+  inventoryUpdates: WoltInventoryItem[];
+  runId?: string;
+  httpStatus?: number;
+  rejected?: WoltItemError[];
+  stateUpdated?: string[]; // SKUs whose sync state now records the change
+  error?: string;
+}
+
+interface LookupMatch {
+  storeId: number;
+  storeName: string;
+  finaId: number;
+  title: string;
+  stock?: number;
+  strategy?: string;
+}
+
+class UsageError extends Error {}
+
+const printAndExit = (result: object, json: boolean, text: string, code: number): never => {
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else if (code === EXIT_OK) {
+    console.log(chalk.green(text));
+  } else {
+    console.error(chalk.red(text));
+  }
+  process.exit(code);
+};
+
+const resolveStore = (value: string): StoreConfig => {
+  const storeId = parseInt(value, 10);
+  const store = stores.find(s => s.id === storeId);
+  if (!store) {
+    throw new UsageError(`Store ${value} not found in configuration.`);
+  }
+  if (!store.woltVenueId || !store.woltUsername || !store.woltPassword) {
+    throw new UsageError(`Store ${storeId} has no Wolt venue credentials configured.`);
+  }
+  return store;
+};
+
+const parseNonNegative = (value: string | undefined, name: string, integer: boolean = false): number => {
+  const parsed = Number(value);
+  if (value === undefined || value.trim() === '' || !Number.isFinite(parsed) || parsed < 0 || (integer && !Number.isInteger(parsed))) {
+    throw new UsageError(`--${name} must be a non-negative ${integer ? 'integer' : 'number'} (got "${value}").`);
+  }
+  return parsed;
+};
+
+/**
+ * Payloads for a one-off item command, in the same shape the sync sends.
+ */
+function buildItemPayloads(action: ItemAction, skus: string[], options: ItemCommandOptions): { itemUpdates: WoltItemUpdate[]; inventoryUpdates: WoltInventoryItem[] } {
+  switch (action) {
+    case 'disable':
+      return {
+        itemUpdates: skus.map(sku => ({ sku, enabled: false })),
+        inventoryUpdates: options.keepStock ? [] : skus.map(sku => ({ sku, inventory: 0 }))
+      };
+    case 'enable':
+      return { itemUpdates: skus.map(sku => ({ sku, enabled: true })), inventoryUpdates: [] };
+    case 'set-price': {
+      const price = parseNonNegative(options.price, 'price');
+      const discounted = options.discountedPrice !== undefined ? parseNonNegative(options.discountedPrice, 'discounted-price') : undefined;
+      if (discounted !== undefined && options.clearDiscount) {
+        throw new UsageError('Use either --discounted-price or --clear-discount, not both.');
+      }
+      return {
+        itemUpdates: skus.map(sku => {
+          const update: WoltItemUpdate = { sku, price };
+          if (discounted !== undefined) {
+            update.discounted_price = discounted;
+          } else if (options.clearDiscount) {
+            update.discounted_price = null;
+          }
+          return update;
+        }),
+        inventoryUpdates: []
+      };
+    }
+    case 'set-stock': {
+      const quantity = parseNonNegative(options.quantity, 'quantity', true);
+      return { itemUpdates: [], inventoryUpdates: skus.map(sku => ({ sku, inventory: quantity })) };
+    }
+  }
+}
+
+/**
+ * Sync state entries after a change Wolt accepted, so the next delta sync
+ * compares Fina with what Wolt now shows and sends the Fina values again
+ * where they differ. SKUs the sync has not recorded yet are left out.
+ */
+function applyToState(previousState: SyncState, itemUpdates: WoltItemUpdate[], inventoryUpdates: WoltInventoryItem[], sentAt: number): SyncState {
+  const changed: SyncState = {};
+  const entryFor = (sku: string) => {
+    if (!changed[sku] && previousState[sku]) {
+      changed[sku] = { ...previousState[sku] };
+    }
+    return changed[sku];
+  };
+
+  for (const update of itemUpdates) {
+    const entry = entryFor(update.sku);
+    if (!entry) continue;
+    if (update.enabled !== undefined) entry.enabled = update.enabled;
+    if (update.price !== undefined) entry.price = update.price;
+    if (update.discounted_price !== undefined) entry.discountedPrice = update.discounted_price ?? undefined;
+  }
+  for (const update of inventoryUpdates) {
+    const entry = entryFor(update.sku);
+    if (entry) entry.quantity = update.inventory;
+  }
+
+  for (const sku of Object.keys(changed)) {
+    changed[sku] = markConfirmed(changed[sku], sentAt);
+  }
+  return changed;
+}
+
+async function runItemAction(action: ItemAction, options: ItemCommandOptions): Promise<void> {
+  const json = Boolean(options.json);
+  const skus: string[] = [...new Set<string>(options.sku.map(sku => sku.trim()).filter(Boolean))];
+  const result: ItemCommandResult = {
+    ok: false,
+    action,
+    storeId: parseInt(options.store, 10),
+    dryRun: Boolean(options.dryRun),
+    itemUpdates: [],
+    inventoryUpdates: []
+  };
+
+  let store: StoreConfig;
+  try {
+    if (skus.length === 0) {
+      throw new UsageError('At least one --sku is required.');
+    }
+    store = resolveStore(options.store);
+    Object.assign(result, { venueId: store.woltVenueId }, buildItemPayloads(action, skus, options));
+  } catch (error: any) {
+    result.error = error.message;
+    return printAndExit(result, json, error.message, error instanceof UsageError ? EXIT_USAGE : EXIT_FAILED);
+  }
+
+  const summary = `${action} ${skus.join(', ')} on store ${store.id} (${result.itemUpdates.length} item, ${result.inventoryUpdates.length} inventory updates)`;
+  if (result.dryRun) {
+    result.ok = true;
+    if (!json) {
+      console.log(JSON.stringify({ itemUpdates: result.itemUpdates, inventoryUpdates: result.inventoryUpdates }, null, 2));
+    }
+    return printAndExit(result, json, `[DryRun] Would ${summary}.`, EXIT_OK);
+  }
+
+  // Sent like any sync batch: rate limited, retried and recorded in the audit journal
+  const wolt = new WoltAdapter();
+  const stateManager = new StateManager();
+  const previousState = await stateManager.loadState(store.id);
+  const audit: AuditContext = {
+    storeId: store.id,
+    venueId: store.woltVenueId,
+    runId: newRunId(),
+    source: 'manual',
+    previousState,
+    reasons: new Map(skus.map(sku => [sku, `wolt-cli item ${action}`]))
+  };
+  const journal = new AuditJournal();
+  result.runId = audit.runId;
+
+  const sentAt = Date.now();
+  try {
+    if (result.itemUpdates.length > 0) {
+      await journal.track(audit, 'items', result.itemUpdates, () =>
+        wolt.updateItems(store.woltVenueId, { data: result.itemUpdates }, store.woltUsername, store.woltPassword, store.woltApiUrl));
+    }
+    if (result.inventoryUpdates.length > 0) {
+      await journal.track(audit, 'inventory', result.inventoryUpdates, () =>
+        wolt.updateInventory(store.woltVenueId, { data: result.inventoryUpdates }, store.woltUsername, store.woltPassword, store.woltApiUrl));
+    }
+  } catch (error: any) {
+    result.error = error.message;
+    result.httpStatus = error?.response?.status ?? error?.status;
+    if (error instanceof WoltBatchRejectedError) {
+      result.rejected = error.itemErrors;
+    }
+    const details = result.rejected?.length ? ` (${result.rejected.map(e => `${e.sku}: ${e.reason}`).join('; ')})` : '';
+    return printAndExit(result, json, `Failed to ${summary}: ${error.message}${details}`, EXIT_FAILED);
+  }
+
+  result.ok = true;
+  let note = action === 'enable' || action === 'disable'
+    ? ` The next sync changes it back where Fina differs; use "wolt-cli sku force-${action}" to keep it.`
+    : ' The next sync changes it back where Fina differs.';
+  try {
+    const entries = applyToState(previousState, result.itemUpdates, result.inventoryUpdates, sentAt);
+    await stateManager.upsertEntries(store.id, entries);
+    result.stateUpdated = Object.keys(entries);
+    const untracked = skus.filter(sku => !(sku in entries));
+    if (untracked.length > 0) {
+      note += ` Not in sync state yet: ${untracked.join(', ')}.`;
+    }
+  } catch (error: any) {
+    note += ` Sync state NOT updated (${error.message}): the next delta sync will not notice this change.`;
+  }
+  return printAndExit(result, json, `Done: ${summary}.${note}`, EXIT_OK);
+}
+
+async function lookupSku(sku: string, storeIds?: number[]): Promise<{ matches: LookupMatch[]; errors: Array<{ storeId: number; error: string }> }> {
+  const fina = new FinaAdapter();
+  const matches: LookupMatch[] = [];
+  const errors: Array<{ storeId: number; error: string }> = [];
+
+  for (const store of stores.filter(s => !storeIds || storeIds.includes(s.id))) {
+    try {
+      const { items } = await fina.getInventory(store.id);
+      const stockMap = new Map(items.map(item => [item.id, item.rest]));
+      const { products } = await fina.getProductDetails(items.map(item => item.id));
+      const mapping = SkuMapper.fromEnv(store.id).resolve(products);
+
+      for (const product of products) {
+        if (mapping.skus.get(product.id) === sku) {
+          matches.push({
+            storeId: store.id,
+            storeName: store.name,
+            finaId: product.id,
+            title: product.title,
+            stock: stockMap.get(product.id),
+            strategy: mapping.strategies.get(product.id)
+          });
+        }
+      }
+    } catch (error: any) {
+      errors.push({ storeId: store.id, error: error.message });
+    }
+  }
+  return { matches, errors };
+}
+
+export function registerItemCommands(program: Command): void {
+  const item = program
+    .command('item')
+    .description('One-off changes to single Wolt items, and SKU lookup in Fina');
+
+  const addSendOptions = (command: Command): Command => command
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .requiredOption('--sku <skus...>', 'Wolt SKUs')
+    .option('-d, --dry-run', 'Print the payloads without sending them', false)
+    .option('--json', 'Print the result as JSON', false);
+
+  addSendOptions(item.command('disable'))
+    .description('Make items unavailable on Wolt and set their stock to 0')
+    .option('--keep-stock', 'Only disable; leave the Wolt stock as it is', false)
+    .action(options => runItemAction('disable', options));
+
+  addSendOptions(item.command('enable'))
+    .description('Make items available on Wolt')
+    .action(options => runItemAction('enable', options));
+
+  addSendOptions(item.command('set-price'))
+    .description('Set the Wolt price of items (same unit as the sync sends)')
+    .requiredOption('--price <n>', 'New price')
+    .option('--discounted-price <n>', 'Also set a discounted price')
+    .option('--clear-discount', 'Remove the discounted price', false)
+    .action(options => runItemAction('set-price', options));
+
+  addSendOptions(item.command('set-stock'))
+    .description('Set the Wolt stock of items')
+    .requiredOption('--quantity <n>', 'New stock')
+    .action(options => runItemAction('set-stock', options));
+
+  item
+    .command('lookup')
+    .description('Find the Fina products that map to a Wolt SKU (all configured stores by default)')
+    .requiredOption('--sku <sku>', 'Wolt SKU')
+    .option('-s, --store <ids...>', 'Only search these stores')
+    .option('--json', 'Print the result as JSON', false)
+    .action(async (options) => {
+      const json = Boolean(options.json);
+      const storeIds = options.store ? (options.store as string[]).map(id => parseInt(id, 10)) : undefined;
+      const unknown = storeIds?.filter(id => !stores.some(s => s.id === id)) ?? [];
+      if (unknown.length > 0) {
+        return printAndExit({ sku: options.sku, error: `Unknown stores: ${unknown.join(', ')}` }, json, `Stores not found in configuration: ${unknown.join(', ')}`, EXIT_USAGE);
+      }
+
+      const { matches, errors } = await lookupSku(options.sku, storeIds);
+      const result = { sku: options.sku, matches, errors };
+
+      if (!json) {
+        if (matches.length > 0) {
+          console.table(matches);
+        }
+        errors.forEach(({ storeId, error }) => console.error(chalk.yellow(`Store ${storeId}: ${error}`)));
+      }
+      if (matches.length > 0) {
+        return printAndExit(result, json, `${matches.length} Fina products map to ${options.sku}.`, EXIT_OK);
+      }
+      // Without a match, a store that could not be searched makes the answer unreliable
+      return errors.length > 0
+        ? printAndExit(result, json, `SKU ${options.sku} not found, but ${errors.length} stores could not be searched.`, EXIT_FAILED)
+        : printAndExit(result, json, `SKU ${options.sku} not found in any searched store.`, EXIT_NOT_FOUND);
+    });
+}
@@ -0,0 +1,81 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { stores } from '../config/stores';
+import { PendingDeltaStore } from '../core/anomalyGuard';
+import { SyncEngine } from '../core/sync';
+import { PlanStaleError } from '../core/syncPlan';
+
+export function registerPendingCommands(program: Command): void {
+  const pending = program
+    .command('pending')
+    .description('Inspect, approve or discard deltas held by the anomaly guard');
+
+  pending
+    .command('show')
+    .description('Show the delta waiting for approval')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--json', 'Print raw JSON (including all updates)', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const delta = await new PendingDeltaStore().load(storeId);
+
+      if (!delta) {
+        console.log(chalk.green(`No pending delta for store ${storeId}.`));
+        return;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(delta, null, 2));
+        return;
+      }
+
+      console.log(chalk.yellow(`Store ${storeId} - delta held since ${delta.createdAt}`));
+      for (const reason of delta.check.reasons) {
+        console.log(chalk.red(`  - ${reason}`));
+      }
+      console.log(`Availability updates: ${delta.itemUpdates.length}, inventory updates: ${delta.inventoryUpdates.length}`);
+      console.table(
+        delta.itemUpdates.filter(update => update.enabled === false).slice(0, 20).map(update => ({
+          sku: update.sku,
+          enabled: update.enabled,
+          price: update.price
+        }))
+      );
+    });
+
+  pending
+    .command('approve')
+    .description('Send the held delta to Wolt and save its state')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const store = stores.find(s => s.id === storeId);
+
+      if (!store) {
+        console.error(`Store ${storeId} not found in configuration.`);
+        process.exit(1);
+      }
+
+      try {
+        const delta = await new SyncEngine().approvePendingDelta(store);
+        console.log(chalk.green(`Approved delta from ${delta.createdAt} applied (${delta.itemUpdates.length} availability, ${delta.inventoryUpdates.length} inventory updates).`));
+      } catch (error: any) {
+        if (error instanceof PlanStaleError) {
+          console.error(chalk.red(error.message));
+          process.exit(2);
+        }
+        console.error(chalk.red(`Approval failed: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  pending
+    .command('discard')
+    .description('Drop the held delta without sending anything')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const discarded = await new PendingDeltaStore().discard(storeId);
+      console.log(discarded ? chalk.green(`Pending delta for store ${storeId} discarded.`) : `No pending delta for store ${storeId}.`);
+    });
+}
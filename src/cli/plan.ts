@@ -0,0 +1,71 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import path from 'path';
+import { stores } from '../config/stores';
+import { SyncEngine } from '../core/sync';
+import { PlanStaleError, defaultPlanPath, readPlan } from '../core/syncPlan';
+
+export function registerPlanCommands(program: Command): void {
+  program
+    .command('plan')
+    .description('Compute the delta for a store and write it to a plan file for review (nothing is sent)')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('-o, --out <file>', 'Plan file path (default: state/plans/plan-store-<id>-<timestamp>.json)')
+    .option('--force-full', 'Plan a full sync (all items, not just changes)', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const store = stores.find(s => s.id === storeId);
+
+      if (!store) {
+        console.error(`Store ${storeId} not found in configuration.`);
+        process.exit(1);
+      }
+
+      const planFile = options.out ? path.resolve(options.out) : defaultPlanPath(storeId);
+      try {
+        await new SyncEngine().runWithOptions(store, { planFile, forceFullSync: options.forceFull });
+        if (!(await fs.pathExists(planFile))) {
+          console.error(chalk.red('No plan written: the sync was aborted before computing a delta (see logs).'));
+          process.exit(1);
+        }
+        const plan = await readPlan(planFile);
+        console.log(chalk.cyan(`Plan for store ${storeId} written to ${planFile}`));
+        console.log(`Availability updates: ${plan.itemUpdates.length}, inventory updates: ${plan.inventoryUpdates.length}`);
+        if (plan.check) {
+          console.log(`Disabled: ${plan.check.disabledCount} (${plan.check.disabledPercent}%), price changes: ${plan.check.priceChangeCount} (${plan.check.priceChangePercent}%)`);
+          for (const reason of plan.check.reasons) {
+            console.log(chalk.yellow(`  Anomaly guard would refuse this delta: ${reason}`));
+          }
+        }
+        console.log(`Review it, then run: wolt-cli apply ${planFile}`);
+      } catch (error: any) {
+        console.error(chalk.red(`Plan failed: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('apply <planfile>')
+    .description('Push exactly the updates in a plan file (refuses if the state changed since planning)')
+    .action(async (planfile: string) => {
+      try {
+        const plan = await readPlan(path.resolve(planfile));
+        const store = stores.find(s => s.id === plan.storeId);
+        if (!store) {
+          console.error(`Store ${plan.storeId} not found in configuration.`);
+          process.exit(1);
+        }
+
+        await new SyncEngine().applyPlan(store, plan);
+        console.log(chalk.green(`Plan applied (${plan.itemUpdates.length} availability, ${plan.inventoryUpdates.length} inventory updates).`));
+      } catch (error: any) {
+        if (error instanceof PlanStaleError) {
+          console.error(chalk.red(error.message));
+          process.exit(2);
+        }
+        console.error(chalk.red(`Apply failed: ${error.message}`));
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,59 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { QuarantineStore } from '../core/quarantine';
+
+export function registerQuarantineCommands(program: Command): void {
+  const quarantine = program
+    .command('quarantine')
+    .description('Inspect or release SKUs that Wolt rejected (excluded from syncs until released)');
+
+  quarantine
+    .command('list')
+    .description('Show quarantined SKUs and why Wolt rejected them')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const entries = await new QuarantineStore().list(storeId);
+
+      if (options.json) {
+        console.log(JSON.stringify(entries, null, 2));
+        return;
+      }
+      if (entries.length === 0) {
+        console.log(chalk.green(`No quarantined SKUs for store ${storeId}.`));
+        return;
+      }
+
+      console.log(chalk.yellow(`${entries.length} quarantined SKUs for store ${storeId}:`));
+      console.table(entries.map(entry => ({
+        sku: entry.sku,
+        kind: entry.kind,
+        endpoint: entry.endpoint,
+        status: entry.httpStatus,
+        since: entry.quarantinedAt,
+        reason: entry.reason
+      })));
+    });
+
+  quarantine
+    .command('release')
+    .description('Release SKUs so the next sync sends them again')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--sku <skus...>', 'SKUs to release')
+    .option('--all', 'Release every quarantined SKU', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      if (Boolean(options.all) === Boolean(options.sku)) {
+        console.error(chalk.red('Use exactly one of --sku <skus...> or --all.'));
+        process.exit(1);
+      }
+
+      const released = await new QuarantineStore().release(storeId, options.all ? undefined : options.sku);
+      if (released.length === 0) {
+        console.log(chalk.yellow('Nothing released (SKUs not quarantined).'));
+        return;
+      }
+      console.log(chalk.green(`Released ${released.length} SKUs: ${released.join(', ')}. They are sent on the next sync.`));
+    });
+}
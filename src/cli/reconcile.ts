@@ -0,0 +1,41 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { stores } from '../config/stores';
+import { SyncEngine } from '../core/sync';
+import { printDriftReport } from './reports';
+
+export function registerReconcileCommand(program: Command): void {
+  program
+    .command('reconcile')
+    .description('Compare the live Wolt catalog with the state and report (or heal) drift')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--heal', 'Send expected values for drifted SKUs (up to RECONCILE_HEAL_BUDGET)', false)
+    .option('--fina', 'Also fetch live Fina data and heal towards it (full Fina pull)', false)
+    .option('--limit <n>', 'Rows to print', '50')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const store = stores.find(s => s.id === storeId);
+
+      if (!store) {
+        console.error(`Store ${storeId} not found in configuration.`);
+        process.exit(1);
+      }
+
+      try {
+        const report = await new SyncEngine().reconcile(store, { heal: options.heal, compareFina: options.fina });
+        if (!report) {
+          console.error(chalk.red('Wolt catalog is unavailable (introspection disabled or endpoint unsupported - see logs).'));
+          process.exit(1);
+        }
+        if (options.json) {
+          console.log(JSON.stringify(report, null, 2));
+          return;
+        }
+        printDriftReport(report, parseInt(options.limit, 10) || 50);
+      } catch (error: any) {
+        console.error(chalk.red(`Reconciliation failed: ${error.message}`));
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,143 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { MenuPushReport } from '../core/menuBuilder';
+import { DriftReport } from '../core/reconciliation';
+import { ReportStore } from '../core/reportStore';
+import { SkuConflictReport } from '../core/skuConflicts';
+
+export function printDriftReport(report: DriftReport, limit: number): void {
+  console.log(chalk.cyan(`Store ${report.storeId} - reconciled ${report.generatedAt} (${report.mode}, ${report.woltItems} Wolt items, ${report.stateEntries} state entries${report.comparedFina ? ', compared with Fina' : ''})`));
+  if (report.drift.length === 0) {
+    console.log(chalk.green('No drift between Wolt and state.'));
+    return;
+  }
+
+  console.log(chalk.yellow(Object.entries(report.counts).map(([kind, count]) => `${kind}: ${count}`).join(', ')));
+  if (report.mode === 'heal') {
+    console.log(`Healed ${report.healed} SKUs, ${report.deferred} deferred to the next run.`);
+  }
+  console.table(report.drift.slice(0, limit).map(entry => ({
+    sku: entry.sku,
+    kind: entry.kind,
+    field: entry.field ?? '',
+    wolt: entry.wolt,
+    state: entry.state,
+    ...(report.comparedFina ? { fina: entry.fina } : {}),
+    healed: entry.healed === true
+  })));
+  if (report.drift.length > limit) {
+    console.log(`... and ${report.drift.length - limit} more (use --json for everything).`);
+  }
+}
+
+export function registerReportCommands(program: Command): void {
+  const report = program
+    .command('report')
+    .description('Print reports persisted by the last sync run');
+
+  report
+    .command('sku-conflicts')
+    .description('Show Wolt SKUs that are mapped from more than one Fina product')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const reportStore = new ReportStore();
+      const conflictReport = await reportStore.load<SkuConflictReport>(storeId, 'sku-conflicts');
+
+      if (!conflictReport) {
+        console.error(chalk.red(`No SKU conflict report found for store ${storeId}. Run a sync first.`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(conflictReport, null, 2));
+        return;
+      }
+
+      console.log(chalk.cyan(`Store ${storeId} - generated ${conflictReport.generatedAt} (policy: ${conflictReport.policy})`));
+      if (conflictReport.conflictCount === 0) {
+        console.log(chalk.green('No SKU conflicts.'));
+        return;
+      }
+
+      console.log(chalk.yellow(`${conflictReport.conflictCount} conflicting SKUs:`));
+      console.table(
+        conflictReport.conflicts.flatMap(conflict =>
+          conflict.products.map(product => ({
+            sku: conflict.sku,
+            finaId: product.finaId,
+            title: product.title,
+            price: product.price,
+            quantity: product.quantity,
+            resolution: conflict.resolution
+          }))
+        )
+      );
+    });
+
+  report
+    .command('drift')
+    .description('Show drift between Wolt and state found by the last reconciliation')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--limit <n>', 'Rows to print', '50')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const driftReport = await new ReportStore().load<DriftReport>(storeId, 'drift');
+
+      if (!driftReport) {
+        console.error(chalk.red(`No drift report found for store ${storeId}. Run "wolt-cli reconcile -s ${storeId}" first.`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(driftReport, null, 2));
+        return;
+      }
+      printDriftReport(driftReport, parseInt(options.limit, 10) || 50);
+    });
+
+  report
+    .command('menu-push')
+    .description('Show the items created (or, after a dry run, planned) for SKUs missing on Wolt')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--limit <n>', 'Rows to print', '50')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const pushReport = await new ReportStore().load<MenuPushReport>(storeId, 'menu-push');
+
+      if (!pushReport) {
+        console.error(chalk.red(`No menu push report found for store ${storeId}. Run "wolt-cli sync -s ${storeId} --create-missing -d" first.`));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(pushReport, null, 2));
+        return;
+      }
+
+      const limit = parseInt(options.limit, 10) || 50;
+      const verb = pushReport.dryRun ? 'would create' : 'created';
+      console.log(chalk.cyan(`Store ${storeId} - ${pushReport.generatedAt}${pushReport.dryRun ? ' (dry run)' : ''}: ${pushReport.missingOnWolt} SKUs missing on Wolt`));
+      console.log(`${verb} ${pushReport.created.length}, skipped ${pushReport.skipped.length}, deferred ${pushReport.deferred}, failed ${pushReport.failed.length}, released from quarantine ${(pushReport.released ?? []).length}`);
+      if (pushReport.created.length > 0) {
+        console.table(pushReport.created.slice(0, limit).map(item => ({
+          sku: item.sku,
+          name: item.name,
+          price: item.price,
+          enabled: item.enabled,
+          category: item.category ?? '',
+          image: item.image_url ?? ''
+        })));
+      }
+      if (pushReport.skipped.length > 0) {
+        console.log(chalk.yellow('Skipped:'));
+        console.table(pushReport.skipped.slice(0, limit));
+      }
+      if (pushReport.failed.length > 0) {
+        console.log(chalk.red(`Failed: ${pushReport.failed.slice(0, limit).join(', ')}`));
+      }
+    });
+}
@@ -0,0 +1,93 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { SkuControl, SkuControlAction, SkuControlStore, buildSkuControls } from '../core/skuControls';
+import { parseFutureTimeSpec } from '../utils/timeSpec';
+
+const ACTION_DESCRIPTIONS: Record<SkuControlAction, string> = {
+  'ignore': 'Never send these SKUs to Wolt (Wolt keeps its current values)',
+  'force-disable': 'Keep these SKUs unavailable on Wolt (stock 0), whatever Fina says',
+  'force-enable': 'Keep these SKUs available on Wolt even without Fina stock'
+};
+
+export function registerSkuCommands(program: Command): void {
+  const sku = program
+    .command('sku')
+    .description('Operator overrides for single SKUs (ignore, force-disable, force-enable), applied by every sync');
+
+  sku
+    .command('list')
+    .description('Show the SKU controls of a store')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--expired', 'Include expired controls not yet pruned', false)
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      let controls: SkuControl[];
+      try {
+        controls = await new SkuControlStore().list(storeId, { includeExpired: options.expired });
+      } catch (error: any) {
+        console.error(chalk.red(error.message));
+        process.exit(1);
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(controls, null, 2));
+        return;
+      }
+      if (controls.length === 0) {
+        console.log(chalk.green(`No SKU controls for store ${storeId}.`));
+        return;
+      }
+      console.table(controls.map(control => ({
+        sku: control.sku,
+        action: control.action,
+        reason: control.reason,
+        since: control.createdAt,
+        expires: control.expiresAt ?? 'never'
+      })));
+    });
+
+  for (const action of Object.keys(ACTION_DESCRIPTIONS) as SkuControlAction[]) {
+    sku
+      .command(action)
+      .description(ACTION_DESCRIPTIONS[action])
+      .requiredOption('-s, --store <id>', 'Store ID')
+      .requiredOption('--sku <skus...>', 'Wolt SKUs')
+      .requiredOption('-r, --reason <text>', 'Why (shown in "sku list" and the audit journal)')
+      .option('--expires <time>', 'Drop the control after this time: 12h, 7d, 2w or an ISO date')
+      .action(async (options) => {
+        const storeId = parseInt(options.store, 10);
+        try {
+          const expiresAt = options.expires ? parseFutureTimeSpec(options.expires) : undefined;
+          const controls = buildSkuControls(options.sku, action, options.reason, expiresAt);
+          await new SkuControlStore().set(storeId, controls);
+          const until = controls[0].expiresAt ? ` until ${controls[0].expiresAt}` : '';
+          console.log(chalk.green(`${action}: ${controls.map(control => control.sku).join(', ')}${until}. Applied from the next sync.`));
+        } catch (error: any) {
+          console.error(chalk.red(error.message));
+          process.exit(1);
+        }
+      });
+  }
+
+  sku
+    .command('release')
+    .description('Remove SKU controls so the next sync sends Fina values again')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--sku <skus...>', 'SKUs to release')
+    .option('--all', 'Release every SKU control of the store', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      if (Boolean(options.all) === Boolean(options.sku)) {
+        console.error(chalk.red('Use exactly one of --sku <skus...> or --all.'));
+        process.exit(1);
+      }
+
+      const released = await new SkuControlStore().release(storeId, options.all ? undefined : options.sku);
+      if (released.length === 0) {
+        console.log(chalk.yellow('Nothing released (no controls for these SKUs).'));
+        return;
+      }
+      console.log(chalk.green(`Released ${released.length} SKUs: ${released.join(', ')}.`));
+    });
+}
@@ -0,0 +1,329 @@
+import { Command } from 'commander';
+import chalk from 'chalk';
+import { stores } from '../config/stores';
+import { WoltCatalogReader } from '../adapters/woltCatalog';
+import { StateManager, migrateState } from '../core/state';
+import { StateFilter, diffAgainstWolt, filterState, summarizeState } from '../core/stateInspect';
+import { StateBackend } from '../core/stateStore';
+import { StateDiffEntry, StateSnapshotStore, diffStates } from '../core/stateSnapshots';
+import { SyncEngine } from '../core/sync';
+import { parseTimeSpec } from '../utils/timeSpec';
+
+const BACKENDS: StateBackend[] = ['json', 'sqlite'];
+
+const parseTimeOrExit = (spec: string): number => {
+  try {
+    return parseTimeSpec(spec);
+  } catch (error: any) {
+    console.error(chalk.red(error.message));
+    process.exit(1);
+  }
+};
+
+const formatTime = (time?: number): string => (time ? new Date(time).toISOString() : '-');
+
+const parseBoolOption = (flag: string, raw?: string): boolean | undefined => {
+  if (raw === undefined) return undefined;
+  const normalized = String(raw).trim().toLowerCase();
+  if (normalized === 'true' || normalized === 'false') {
+    return normalized === 'true';
+  }
+  console.error(chalk.red(`${flag} must be true or false.`));
+  process.exit(1);
+};
+
+const parseNumberOption = (flag: string, raw?: string): number | undefined => {
+  if (raw === undefined) return undefined;
+  const parsed = parseFloat(raw);
+  if (!Number.isFinite(parsed)) {
+    console.error(chalk.red(`${flag} must be a number.`));
+    process.exit(1);
+  }
+  return parsed;
+};
+
+const printDiff = (diff: StateDiffEntry[], limit: number): void => {
+  console.table(
+    diff.slice(0, limit).map(entry => ({
+      sku: entry.sku,
+      change: entry.change,
+      fields: Object.entries(entry.fields).map(([field, values]) => `${field}: ${values?.from ?? '-'} -> ${values?.to ?? '-'}`).join(', ')
+    }))
+  );
+  if (diff.length > limit) {
+    console.log(`... and ${diff.length - limit} more (use --json for everything)`);
+  }
+};
+
+export function registerStateCommands(program: Command): void {
+  const state = program
+    .command('state')
+    .description('Inspect and manage persisted sync state');
+
+  state
+    .command('migrate')
+    .description('Copy state between backends (e.g. import JSON state files and backups into SQLite)')
+    .requiredOption('--to <backend>', 'Target backend: json | sqlite')
+    .option('--from <backend>', 'Source backend (default: the other one)')
+    .option('-s, --store <id>', 'Only migrate this store (default: every store with state)')
+    .action(async (options) => {
+      const to = String(options.to).toLowerCase() as StateBackend;
+      const from = (options.from ? String(options.from).toLowerCase() : to === 'sqlite' ? 'json' : 'sqlite') as StateBackend;
+      if (!BACKENDS.includes(to) || !BACKENDS.includes(from)) {
+        console.error(chalk.red(`Unknown backend. Use one of: ${BACKENDS.join(', ')}`));
+        process.exit(1);
+      }
+
+      try {
+        const storeIds = options.store ? [parseInt(options.store, 10)] : undefined;
+        const results = await migrateState(from, to, storeIds);
+        if (results.length === 0) {
+          console.log(chalk.yellow(`No ${from} state found to migrate.`));
+          return;
+        }
+        console.table(results);
+        console.log(chalk.green(`Migrated ${results.filter(r => r.source !== 'empty').length} stores from ${from} to ${to}.`));
+        console.log(`Set STATE_BACKEND=${to} to use the migrated state.`);
+      } catch (error: any) {
+        console.error(chalk.red(`Migration failed: ${error.message}`));
+        process.exit(1);
+      }
+    });
+
+  state
+    .command('list')
+    .description('List state snapshots (one per sync run that changed the state)')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const snapshots = await new StateSnapshotStore().list(storeId);
+
+      if (options.json) {
+        console.log(JSON.stringify(snapshots, null, 2));
+        return;
+      }
+      if (snapshots.length === 0) {
+        console.log(chalk.yellow(`No snapshots for store ${storeId}.`));
+        return;
+      }
+      console.table(snapshots.map(snapshot => ({
+        takenAt: snapshot.takenAt,
+        source: snapshot.source,
+        run: snapshot.runId || '-',
+        sizeKb: Math.round(snapshot.sizeBytes / 1024)
+      })));
+    });
+
+  state
+    .command('show')
+    .description('Show what the system thinks a SKU is (or a summary of the whole state)')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--sku <sku>', 'SKU to show')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const stateManager = new StateManager();
+      const envelope = await stateManager.loadEnvelope(storeId);
+      if (!envelope) {
+        console.error(chalk.red(`No state for store ${storeId}.`));
+        process.exit(1);
+      }
+
+      if (options.sku) {
+        const entry = envelope.entries[options.sku];
+        if (!entry) {
+          console.error(chalk.red(`SKU ${options.sku} is not in the state of store ${storeId}.`));
+          process.exit(1);
+        }
+        if (options.json) {
+          console.log(JSON.stringify({ sku: options.sku, ...entry }, null, 2));
+          return;
+        }
+        console.table([{
+          sku: options.sku,
+          ...entry,
+          lastSeen: formatTime(entry.lastSeen),
+          lastSentAt: formatTime(entry.lastSentAt),
+          lastConfirmedAt: formatTime(entry.lastConfirmedAt)
+        }]);
+        return;
+      }
+
+      const { entries, ...meta } = envelope;
+      const summary = summarizeState(entries);
+      if (options.json) {
+        console.log(JSON.stringify({ ...meta, summary }, null, 2));
+        return;
+      }
+      console.log(chalk.cyan(`Store ${storeId} (${stateManager.backend} backend, schema v${meta.schemaVersion}, venue ${meta.venueId || '-'})`));
+      console.log(`Created ${meta.createdAt}, updated ${meta.updatedAt || '-'}`);
+      console.table([summary]);
+    });
+
+  state
+    .command('grep')
+    .description('List state entries matching filters (e.g. --enabled=false --price-gt 100)')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--sku <glob>', 'SKU glob, e.g. "MILK-*"')
+    .option('--enabled <bool>', 'true | false')
+    .option('--synced <bool>', 'Only entries known (true) or not known (false) to exist on Wolt')
+    .option('--price-gt <n>', 'Price greater than')
+    .option('--price-lt <n>', 'Price less than')
+    .option('--qty-gt <n>', 'Quantity greater than')
+    .option('--qty-lt <n>', 'Quantity less than')
+    .option('--limit <n>', 'Rows to print', '50')
+    .option('--json', 'Print raw JSON (all matches)', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const filter: StateFilter = {
+        sku: options.sku,
+        enabled: parseBoolOption('--enabled', options.enabled),
+        syncedToWolt: parseBoolOption('--synced', options.synced),
+        priceGt: parseNumberOption('--price-gt', options.priceGt),
+        priceLt: parseNumberOption('--price-lt', options.priceLt),
+        quantityGt: parseNumberOption('--qty-gt', options.qtyGt),
+        quantityLt: parseNumberOption('--qty-lt', options.qtyLt)
+      };
+
+      const matches = filterState(await new StateManager().loadState(storeId), filter);
+      if (options.json) {
+        console.log(JSON.stringify(matches.map(([sku, entry]) => ({ sku, ...entry })), null, 2));
+        return;
+      }
+      if (matches.length === 0) {
+        console.log(chalk.yellow(`No entries in store ${storeId} match.`));
+        return;
+      }
+      const limit = parseInt(options.limit, 10) || 50;
+      console.table(matches.slice(0, limit).map(([sku, entry]) => ({
+        sku,
+        quantity: entry.quantity,
+        enabled: entry.enabled,
+        price: entry.price ?? '-',
+        discountedPrice: entry.discountedPrice ?? '-',
+        synced: entry.syncedToWolt === true,
+        lastConfirmedAt: formatTime(entry.lastConfirmedAt)
+      })));
+      console.log(`${matches.length} matching entries${matches.length > limit ? ` (showing ${limit}, use --json for everything)` : ''}.`);
+    });
+
+  state
+    .command('diff')
+    .description('Compare the state with a snapshot, live Fina data or the Wolt catalog')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .option('--at <time>', 'Start from the last snapshot taken at or before this time: 30m, 12h, 2d, 1w or an ISO date')
+    .option('--to <time>', 'With --at: compare against the snapshot at this time instead of the current state')
+    .option('--against <source>', 'Compare the current state against live data: fina | wolt')
+    .option('--refresh', 'With --against wolt: ignore the cached Wolt catalog', false)
+    .option('--limit <n>', 'Rows to print', '50')
+    .option('--json', 'Print raw JSON', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      if (Boolean(options.at) === Boolean(options.against)) {
+        console.error(chalk.red('Use exactly one of --at <time> or --against fina|wolt.'));
+        process.exit(1);
+      }
+
+      let diff: StateDiffEntry[];
+      let label: string;
+      if (options.against) {
+        const against = String(options.against).toLowerCase();
+        const store = stores.find(s => s.id === storeId);
+        if (!store) {
+          console.error(`Store ${storeId} not found in configuration.`);
+          process.exit(1);
+        }
+        const current = await new StateManager().loadState(storeId);
+
+        if (against === 'fina') {
+          const finaState = await new SyncEngine().previewState(store);
+          if (!finaState) {
+            console.error(chalk.red('Could not build a Fina snapshot (see logs).'));
+            process.exit(1);
+          }
+          diff = diffStates(current, finaState);
+          label = 'current state -> live Fina data (after SKU mapping, price rules and inventory policies)';
+        } else if (against === 'wolt') {
+          const catalog = await WoltCatalogReader.fromEnv(storeId).read(store, { refresh: options.refresh });
+          if (!catalog) {
+            console.error(chalk.red('Wolt catalog is unavailable (introspection disabled or endpoint unsupported - see logs).'));
+            process.exit(1);
+          }
+          diff = diffAgainstWolt(current, catalog.items);
+          label = `current state -> Wolt (${catalog.items.length} catalog items fetched ${catalog.fetchedAt})`;
+        } else {
+          console.error(chalk.red(`Unknown --against "${options.against}". Use fina or wolt.`));
+          process.exit(1);
+        }
+      } else {
+        const snapshots = new StateSnapshotStore();
+        const from = await snapshots.findAt(storeId, parseTimeOrExit(options.at));
+        if (!from) {
+          console.error(chalk.red(`No snapshot for store ${storeId} at or before ${options.at}.`));
+          process.exit(1);
+        }
+
+        let to = await new StateManager().loadState(storeId);
+        let toLabel = 'current state';
+        if (options.to) {
+          const target = await snapshots.findAt(storeId, parseTimeOrExit(options.to));
+          if (!target) {
+            console.error(chalk.red(`No snapshot for store ${storeId} at or before ${options.to}.`));
+            process.exit(1);
+          }
+          to = target.state;
+          toLabel = `snapshot ${target.takenAt}`;
+        }
+        diff = diffStates(from.state, to);
+        label = `snapshot ${from.takenAt} -> ${toLabel}`;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify(diff, null, 2));
+        return;
+      }
+      console.log(chalk.cyan(`${label}: ${diff.length} SKUs differ`));
+      if (diff.length > 0) {
+        printDiff(diff, parseInt(options.limit, 10) || 50);
+      }
+    });
+
+  state
+    .command('restore')
+    .description('Roll the state back to a snapshot, optionally re-sending the restored values to Wolt')
+    .requiredOption('-s, --store <id>', 'Store ID')
+    .requiredOption('--at <time>', 'Restore the last snapshot taken at or before this time: 30m, 12h, 2d, 1w or an ISO date')
+    .option('--push', 'Also send SKUs whose restored values differ from the current state to Wolt', false)
+    .option('-d, --dry-run', 'Only show what would be restored', false)
+    .action(async (options) => {
+      const storeId = parseInt(options.store, 10);
+      const store = stores.find(s => s.id === storeId);
+      if (!store) {
+        console.error(`Store ${storeId} not found in configuration.`);
+        process.exit(1);
+      }
+
+      const snapshot = await new StateSnapshotStore().findAt(storeId, parseTimeOrExit(options.at));
+      if (!snapshot) {
+        console.error(chalk.red(`No snapshot for store ${storeId} at or before ${options.at}.`));
+        process.exit(1);
+      }
+
+      try {
+        const delta = await new SyncEngine().restoreSnapshot(store, snapshot, { push: options.push, dryRun: options.dryRun });
+        const summary = `${delta.itemUpdates.length} availability and ${delta.inventoryUpdates.length} inventory updates`;
+        if (options.dryRun) {
+          console.log(chalk.cyan(`Snapshot ${snapshot.takenAt} (${snapshot.source}) differs from the current state by ${summary}.`));
+          console.log(options.push ? 'Run without --dry-run to restore and push.' : 'Run without --dry-run to restore (add --push to also send them to Wolt).');
+          return;
+        }
+        console.log(chalk.green(options.push
+          ? `Restored snapshot ${snapshot.takenAt} and pushed ${summary}.`
+          : `Restored snapshot ${snapshot.takenAt} (local state only).`));
+      } catch (error: any) {
+        console.error(chalk.red(`Restore failed: ${error.message}`));
+        process.exit(1);
+      }
+    });
+}
@@ -0,0 +1,40 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+
+export class ConfigFileError extends Error {
+  constructor(message: string, public readonly filePath: string) {
+    super(message);
+    this.name = 'ConfigFileError';
+  }
+}
+
+export function resolveConfigPath(configured: string): string {
+  return path.isAbsolute(configured) ? configured : path.join(process.cwd(), configured);
+}
+
+/**
+ * Load and validate a JSON config file.
+ * Returns null when the file does not exist (feature not configured) and
+ * throws ConfigFileError when it exists but is invalid, so a broken config
+ * never silently falls back to defaults.
+ */
+export function loadJsonConfig<S extends z.ZodTypeAny>(filePath: string, schema: S, label: string): z.infer<S> | null {
+  if (!fs.existsSync(filePath)) {
+    return null;
+  }
+
+  let raw: unknown;
+  try {
+    raw = fs.readJsonSync(filePath);
+  } catch (error: any) {
+    throw new ConfigFileError(`${label} file ${filePath} is not valid JSON: ${error.message}`, filePath);
+  }
+
+  const parsed = schema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new ConfigFileError(`Invalid ${label} in ${filePath}: ${issues}`, filePath);
+  }
+  return parsed.data;
+}
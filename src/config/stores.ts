@@ -8,7 +8,7 @@ const storeList = (process.env.WOLT_STORES || '')
   .map((value) => value.trim())
   .filter(Boolean);
 
-const parseBoolean = (value: string | undefined, fallback: boolean) => {
+export const parseBoolean = (value: string | undefined, fallback: boolean) => {
   if (typeof value !== 'string') {
     return fallback;
   }
@@ -30,6 +30,19 @@ const resolveStoreApiBase = (id: number) => {
   return process.env[`STORE_${id}_WOLT_API_BASE`] || undefined;
 };
 
+// Per-store settings: STORE_<ID>_<KEY> wins over the global <KEY>
+export const resolveStoreSetting = (id: number, key: string): string | undefined => {
+  const scoped = process.env[`STORE_${id}_${key}`];
+  if (typeof scoped === 'string' && scoped.trim() !== '') {
+    return scoped.trim();
+  }
+  const global = process.env[key];
+  if (typeof global === 'string' && global.trim() !== '') {
+    return global.trim();
+  }
+  return undefined;
+};
+
 const buildStoreConfig = (rawId: string): StoreConfig | null => {
   const id = parseInt(rawId, 10);
   if (!Number.isFinite(id)) {
@@ -0,0 +1,152 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { parseBoolean, resolveStoreSetting } from '../config/stores';
+import { SyncState, WoltInventoryItem, WoltItemUpdate } from '../types';
+import { logger } from '../utils/logger';
+
+export interface AnomalyGuardConfig {
+  enabled: boolean;
+  maxDisablePercent: number;      // Refuse if more than this % of the catalog would be disabled
+  maxPriceChangePercent: number;  // Refuse if more than this % of the catalog would change price
+  minCatalogSize: number;         // Smaller catalogs are not guarded (percentages are too noisy)
+}
+
+export interface AnomalyCheck {
+  catalogSize: number;
+  disabledCount: number;
+  disabledPercent: number;
+  priceChangeCount: number;
+  priceChangePercent: number;
+  tripped: boolean;
+  reasons: string[];
+}
+
+export interface PendingDelta {
+  storeId: number;
+  createdAt: string;
+  baseStateHash: string; // Sync state the delta was computed against; approval refuses if it changed
+  check: AnomalyCheck;
+  itemUpdates: WoltItemUpdate[];
+  inventoryUpdates: WoltInventoryItem[];
+  newState: SyncState;
+}
+
+const DEFAULT_MAX_DISABLE_PERCENT = 20;
+const DEFAULT_MAX_PRICE_CHANGE_PERCENT = 30;
+const DEFAULT_MIN_CATALOG_SIZE = 20;
+
+const readPercent = (raw: string | undefined, fallback: number): number => {
+  const parsed = raw !== undefined ? parseFloat(raw) : NaN;
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const roundPercent = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * AnomalyGuard - refuses deltas that look like a broken Fina feed rather than real changes.
+ *
+ * A truncated-but-non-empty Fina response passes the "zero inventory" and
+ * "partial details" checks, but would disable every SKU it is missing.
+ * Percentages are relative to the previously synced catalog.
+ */
+export class AnomalyGuard {
+  constructor(private readonly config: AnomalyGuardConfig) {}
+
+  static fromEnv(storeId: number): AnomalyGuard {
+    const minCatalogSize = parseInt(resolveStoreSetting(storeId, 'ANOMALY_MIN_CATALOG_SIZE') || '', 10);
+    return new AnomalyGuard({
+      enabled: parseBoolean(resolveStoreSetting(storeId, 'ANOMALY_GUARD_ENABLED'), true),
+      maxDisablePercent: readPercent(resolveStoreSetting(storeId, 'ANOMALY_MAX_DISABLE_PERCENT'), DEFAULT_MAX_DISABLE_PERCENT),
+      maxPriceChangePercent: readPercent(resolveStoreSetting(storeId, 'ANOMALY_MAX_PRICE_CHANGE_PERCENT'), DEFAULT_MAX_PRICE_CHANGE_PERCENT),
+      minCatalogSize: Number.isFinite(minCatalogSize) && minCatalogSize >= 0 ? minCatalogSize : DEFAULT_MIN_CATALOG_SIZE
+    });
+  }
+
+  evaluate(previousState: SyncState, newState: SyncState): AnomalyCheck {
+    const catalogSize = Object.keys(previousState).length;
+    let disabledCount = 0;
+    let priceChangeCount = 0;
+
+    for (const [sku, prev] of Object.entries(previousState)) {
+      const next = newState[sku];
+      if (!next) continue;
+      if (prev.enabled && !next.enabled) {
+        disabledCount++;
+      }
+      if (prev.price !== undefined && next.price !== undefined && prev.price !== next.price) {
+        priceChangeCount++;
+      }
+    }
+
+    const disabledPercent = catalogSize > 0 ? roundPercent((disabledCount / catalogSize) * 100) : 0;
+    const priceChangePercent = catalogSize > 0 ? roundPercent((priceChangeCount / catalogSize) * 100) : 0;
+    const reasons: string[] = [];
+
+    if (this.config.enabled && catalogSize >= this.config.minCatalogSize) {
+      if (disabledPercent > this.config.maxDisablePercent) {
+        reasons.push(`${disabledCount}/${catalogSize} SKUs (${disabledPercent}%) would be disabled (limit ${this.config.maxDisablePercent}%)`);
+      }
+      if (priceChangePercent > this.config.maxPriceChangePercent) {
+        reasons.push(`${priceChangeCount}/${catalogSize} SKUs (${priceChangePercent}%) would change price (limit ${this.config.maxPriceChangePercent}%)`);
+      }
+    }
+
+    return {
+      catalogSize,
+      disabledCount,
+      disabledPercent,
+      priceChangeCount,
+      priceChangePercent,
+      tripped: reasons.length > 0,
+      reasons
+    };
+  }
+}
+
+/**
+ * Holds deltas refused by the AnomalyGuard under state/pending until an
+ * operator approves (sends) or discards them. One pending delta per store;
+ * a newer refused delta replaces the older one.
+ */
+export class PendingDeltaStore {
+  private readonly pendingDir: string;
+
+  constructor() {
+    this.pendingDir = path.join(process.cwd(), 'state', 'pending');
+  }
+
+  private getPendingPath(storeId: number): string {
+    return path.join(this.pendingDir, `delta-store-${storeId}.json`);
+  }
+
+  async save(delta: PendingDelta): Promise<void> {
+    const filePath = this.getPendingPath(delta.storeId);
+    const tempPath = `${filePath}.tmp`;
+    await fs.ensureDir(this.pendingDir);
+    await fs.writeJson(tempPath, delta);
+    await fs.move(tempPath, filePath, { overwrite: true });
+    logger.debug(`Pending delta saved for store ${delta.storeId}`);
+  }
+
+  async load(storeId: number): Promise<PendingDelta | null> {
+    const filePath = this.getPendingPath(storeId);
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return null;
+      }
+      return await fs.readJson(filePath);
+    } catch (error: any) {
+      logger.error(`Failed to load pending delta for store ${storeId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  async discard(storeId: number): Promise<boolean> {
+    const filePath = this.getPendingPath(storeId);
+    if (!(await fs.pathExists(filePath))) {
+      return false;
+    }
+    await fs.remove(filePath);
+    return true;
+  }
+}
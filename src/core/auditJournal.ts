@@ -0,0 +1,227 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { parseBoolean, resolveStoreSetting } from '../config/stores';
+import { WoltApiResult } from '../adapters/wolt';
+import { SyncState, WoltInventoryItem, WoltItemUpdate, WoltMenuItem } from '../types';
+import { logger } from '../utils/logger';
+
+export type AuditEndpoint = 'items' | 'inventory' | 'create';
+export type AuditSource = 'sync' | 'background' | 'priority' | 'plan' | 'approval' | 'restore' | 'reconcile' | 'manual' | 'webhook';
+
+export interface AuditContext {
+  storeId: number;
+  venueId: string;
+  runId: string;
+  source: AuditSource;
+  previousState?: SyncState;        // "before" values, as last confirmed on Wolt
+  reasons?: Map<string, string>;    // Why a SKU is in the delta (e.g. "missing from Fina feed")
+}
+
+export interface AuditChange {
+  sku: string;
+  before?: Record<string, unknown>;
+  after: Record<string, unknown>;
+  reason?: string;
+}
+
+export interface AuditEntry {
+  ts: string;
+  storeId: number;
+  venueId: string;
+  runId: string;
+  source: AuditSource;
+  endpoint: AuditEndpoint;
+  outcome: 'accepted' | 'failed';
+  httpStatus?: number;
+  rateLimitHit: boolean;
+  error?: string;
+  changes: AuditChange[];
+}
+
+export interface AuditQuery {
+  storeId: number;
+  since: number;
+  until?: number;
+  sku?: string;
+}
+
+const DEFAULT_RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function newRunId(): string {
+  return `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`;
+}
+
+const dayKey = (time: number): string => new Date(time).toISOString().slice(0, 10);
+
+const pick = (source: object | undefined, keys: string[]): Record<string, unknown> | undefined => {
+  if (!source) return undefined;
+  const picked: Record<string, unknown> = {};
+  for (const key of keys) {
+    const value = (source as Record<string, unknown>)[key];
+    if (value !== undefined) {
+      picked[key] = value;
+    }
+  }
+  return picked;
+};
+
+/**
+ * AuditJournal - append-only record of every batch sent to Wolt.
+ *
+ * One JSONL file per store per UTC day under state/audit/store-<id>/.
+ * Each line is one updateItems/updateInventory/createItems call with SKU-level before/after
+ * values, HTTP status, rate-limit outcome and the sync run ID.
+ * Journal failures are logged and never fail a sync.
+ */
+export class AuditJournal {
+  private readonly auditDir: string;
+  private readonly prunedDays = new Set<string>();
+
+  constructor() {
+    this.auditDir = path.join(process.cwd(), 'state', 'audit');
+  }
+
+  private getStoreDir(storeId: number): string {
+    return path.join(this.auditDir, `store-${storeId}`);
+  }
+
+  private getJournalPath(storeId: number, day: string): string {
+    return path.join(this.getStoreDir(storeId), `${day}.jsonl`);
+  }
+
+  isEnabled(storeId: number): boolean {
+    return parseBoolean(resolveStoreSetting(storeId, 'AUDIT_JOURNAL_ENABLED'), true);
+  }
+
+  static buildChanges(endpoint: AuditEndpoint, batch: Array<WoltItemUpdate | WoltInventoryItem | WoltMenuItem>, context: AuditContext): AuditChange[] {
+    return batch.map(update => {
+      const prev = context.previousState?.[update.sku];
+      const { sku, ...after } = update as unknown as Record<string, unknown> & { sku: string };
+      let before: Record<string, unknown> | undefined;
+      if (endpoint === 'items') {
+        before = pick(prev, ['enabled', 'price', 'discountedPrice', 'vatPercentage']);
+      } else if (endpoint === 'inventory') {
+        before = prev ? { inventory: prev.quantity } : undefined;
+      }
+      const change: AuditChange = { sku, before, after };
+      const reason = context.reasons?.get(sku);
+      if (reason) {
+        change.reason = reason;
+      }
+      return change;
+    });
+  }
+
+  async append(entry: AuditEntry): Promise<void> {
+    if (!this.isEnabled(entry.storeId)) {
+      return;
+    }
+    const day = entry.ts.slice(0, 10);
+    try {
+      await fs.ensureDir(this.getStoreDir(entry.storeId));
+      await fs.appendFile(this.getJournalPath(entry.storeId, day), `${JSON.stringify(entry)}\n`);
+      if (!this.prunedDays.has(`${entry.storeId}:${day}`)) {
+        this.prunedDays.add(`${entry.storeId}:${day}`);
+        await this.prune(entry.storeId);
+      }
+    } catch (error: any) {
+      logger.warn(`[Audit] Failed to append journal entry for store ${entry.storeId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Send a batch through the given call and journal the outcome (success or failure).
+   */
+  async track(
+    context: AuditContext,
+    endpoint: AuditEndpoint,
+    batch: Array<WoltItemUpdate | WoltInventoryItem | WoltMenuItem>,
+    send: () => Promise<WoltApiResult>
+  ): Promise<WoltApiResult> {
+    const base = {
+      storeId: context.storeId,
+      venueId: context.venueId,
+      runId: context.runId,
+      source: context.source,
+      endpoint,
+      changes: AuditJournal.buildChanges(endpoint, batch, context)
+    };
+
+    try {
+      const result = await send();
+      await this.append({
+        ts: new Date().toISOString(),
+        ...base,
+        outcome: 'accepted',
+        httpStatus: result.status,
+        rateLimitHit: result.rateLimitHit
+      });
+      return result;
+    } catch (error: any) {
+      const status = error?.response?.status ?? error?.status;
+      await this.append({
+        ts: new Date().toISOString(),
+        ...base,
+        outcome: 'failed',
+        httpStatus: typeof status === 'number' ? status : undefined,
+        rateLimitHit: status === 429,
+        error: error?.message || String(error)
+      });
+      throw error;
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const storeDir = this.getStoreDir(query.storeId);
+    if (!(await fs.pathExists(storeDir))) {
+      return [];
+    }
+
+    const until = query.until ?? Date.now();
+    const firstDay = dayKey(query.since);
+    const lastDay = dayKey(until);
+    const files = (await fs.readdir(storeDir))
+      .filter(name => name.endsWith('.jsonl'))
+      .map(name => name.slice(0, -'.jsonl'.length))
+      .filter(day => day >= firstDay && day <= lastDay)
+      .sort();
+
+    const entries: AuditEntry[] = [];
+    for (const day of files) {
+      const content = await fs.readFile(this.getJournalPath(query.storeId, day), 'utf8');
+      for (const line of content.split('\n')) {
+        if (!line.trim()) continue;
+        let entry: AuditEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          continue; // Torn line from a crash mid-append
+        }
+        const time = Date.parse(entry.ts);
+        if (time < query.since || time > until) continue;
+        if (query.sku) {
+          const changes = entry.changes.filter(change => change.sku === query.sku);
+          if (changes.length === 0) continue;
+          entry = { ...entry, changes };
+        }
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  private async prune(storeId: number): Promise<void> {
+    const retentionDays = parseInt(resolveStoreSetting(storeId, 'AUDIT_RETENTION_DAYS') || '', 10);
+    const days = Number.isFinite(retentionDays) && retentionDays > 0 ? retentionDays : DEFAULT_RETENTION_DAYS;
+    const cutoff = dayKey(Date.now() - days * DAY_MS);
+
+    for (const name of await fs.readdir(this.getStoreDir(storeId))) {
+      if (name.endsWith('.jsonl') && name.slice(0, 10) < cutoff) {
+        await fs.remove(path.join(this.getStoreDir(storeId), name));
+        logger.debug(`[Audit] Pruned ${name} for store ${storeId}`);
+      }
+    }
+  }
+}
@@ -1,6 +1,14 @@
 import { FinaAdapter } from '../adapters/fina';
 import { WoltAdapter } from '../adapters/wolt';
 import { StateManager } from './state';
+import { SkuMapper, formatStrategyCounts } from './skuMapper';
+import { PriceRuleEngine } from './priceRules';
+import { VatResolver } from './vatResolver';
+import { InventoryPolicyEngine } from './inventoryPolicy';
+import { AuditContext, AuditJournal, newRunId } from './auditJournal';
+import { markConfirmed } from './stateSchema';
+import { SkuControlStore } from './skuControls';
+import { QuarantineEntry, QuarantineStore, sendIsolatingRejects, toQuarantineEntries } from './quarantine';
 import { StoreConfig, SyncState, WoltInventoryItem, WoltItemUpdate } from '../types';
 import { createStoreLogger } from '../utils/logger';
 import { AdaptiveBatcher } from '../utils/adaptiveBatcher';
@@ -29,6 +37,9 @@ export class BackgroundWorker {
   private wolt: WoltAdapter;
   private stateManager: StateManager;
   private adaptiveBatcher: AdaptiveBatcher;
+  private auditJournal: AuditJournal;
+  private skuControls: SkuControlStore;
+  private quarantine: QuarantineStore;
   private config: BackgroundWorkerConfig;
   private isRunning: boolean = false;
   private shouldStop: boolean = false;
@@ -39,6 +50,9 @@ export class BackgroundWorker {
     this.wolt = new WoltAdapter();
     this.stateManager = new StateManager();
     this.adaptiveBatcher = new AdaptiveBatcher();
+    this.auditJournal = new AuditJournal();
+    this.skuControls = new SkuControlStore();
+    this.quarantine = new QuarantineStore();
     this.progressFile = path.join(process.cwd(), 'state', `.bg-worker-progress-${store.id}.json`);
 
     this.config = {
@@ -197,31 +211,42 @@ export class BackgroundWorker {
     const details = detailsResult.products;
 
     // Build SKU map
-    const finaIdToWoltSku = this.fina.mapToWoltSku(details);
+    const skuMapping = SkuMapper.fromEnv(this.store.id).resolve(details);
+    const finaIdToWoltSku = skuMapping.skus;
 
-    // Find items not yet synced to Wolt
-    const unsyncedItems: Array<{ finaId: number; woltSku: string }> = [];
+    // Find items not yet synced to Wolt (ignored and quarantined SKUs are never sent, so they don't count)
+    const skuControls = await this.skuControls.active(this.store.id);
+    const quarantinedSkus = await this.quarantine.skus(this.store.id);
+    const unsyncedItems: Array<{ finaId: number; woltSku: string; strategy: string }> = [];
+    let ignoredCount = 0;
+    let quarantinedCount = 0;
 
     for (const product of details) {
       const woltSku = finaIdToWoltSku.get(product.id);
       if (!woltSku) continue;
 
+      if (skuControls.isIgnored(woltSku)) {
+        ignoredCount++;
+        continue;
+      }
+      if (quarantinedSkus.has(woltSku)) {
+        quarantinedCount++;
+        continue;
+      }
+
       // Check if already synced
-      if (this.config.skipIfInState && state[woltSku]) {
-        const stateEntry = state[woltSku] as any;
-        if (stateEntry.syncedToWolt) {
-          continue; // Already synced
-        }
+      if (this.config.skipIfInState && state[woltSku]?.syncedToWolt) {
+        continue; // Already synced
       }
 
-      unsyncedItems.push({ finaId: product.id, woltSku });
+      unsyncedItems.push({ finaId: product.id, woltSku, strategy: skuMapping.strategies.get(product.id) || 'unknown' });
     }
 
-    const totalItems = finaIdToWoltSku.size;
+    let totalItems = finaIdToWoltSku.size - ignoredCount - quarantinedCount;
     const remainingItems = unsyncedItems.length;
     const syncedItems = totalItems - remainingItems;
 
-    log.info(`[BackgroundWorker] Found ${remainingItems} unsynced items (${syncedItems}/${totalItems} already synced)`);
+    log.info(`[BackgroundWorker] Found ${remainingItems} unsynced items (${syncedItems}/${totalItems} already synced, ${ignoredCount} ignored, ${quarantinedCount} quarantined)`);
 
     if (remainingItems === 0) {
       return {
@@ -237,20 +262,27 @@ export class BackgroundWorker {
 
     // Take next batch
     const batchToSync = unsyncedItems.slice(0, this.config.dailyLimit);
-    log.info(`[BackgroundWorker] Syncing batch of ${batchToSync.length} items...`);
+    const batchStrategies: Record<string, number> = {};
+    for (const { strategy } of batchToSync) {
+      batchStrategies[strategy] = (batchStrategies[strategy] || 0) + 1;
+    }
+    log.info(`[BackgroundWorker] Syncing batch of ${batchToSync.length} items (SKU strategies: ${formatStrategyCounts(batchStrategies)})...`);
 
     // Build update payloads
     const itemUpdates: WoltItemUpdate[] = [];
-    const inventoryUpdates: WoltInventoryItem[] = [];
+    let inventoryUpdates: WoltInventoryItem[] = [];
 
     const stockMap = new Map(inventory.map(i => [i.id, i.rest]));
     const detailMap = new Map(details.map(d => [d.id, d]));
 
+    const priceRules = PriceRuleEngine.fromEnv(this.store.id);
+    const vatResolver = VatResolver.fromEnv(this.store.id);
+    const inventoryPolicy = InventoryPolicyEngine.fromEnv(this.store.id);
     let invalidPriceCount = 0;
 
     for (const { finaId, woltSku } of batchToSync) {
       const detail = detailMap.get(finaId);
-      let quantity = stockMap.get(finaId) || 0;
+      const quantity = inventoryPolicy.apply(woltSku, stockMap.get(finaId) || 0);
 
       if (!detail) continue;
 
@@ -275,16 +307,26 @@ export class BackgroundWorker {
           inventory: 0  // Set inventory to 0 for invalid prices
         });
       } else {
-        // Valid price - sync normally
-        itemUpdates.push({
+        // Valid price - sync normally (after store price rules and operator SKU controls)
+        const priced = priceRules.apply(detail, woltSku);
+        const controlled = skuControls.apply(woltSku, { quantity, enabled: quantity > 0, price: priced.price });
+        const itemUpdate: WoltItemUpdate = {
           sku: woltSku,
-          enabled: quantity > 0,
-          price: detail.price
-        });
+          enabled: controlled.enabled,
+          price: priced.price
+        };
+        if (priced.discountedPrice !== undefined) {
+          itemUpdate.discounted_price = priced.discountedPrice;
+        }
+        const vat = vatResolver.resolve(detail);
+        if (vat.vatPercentage !== undefined) {
+          itemUpdate.vat_percentage = vat.vatPercentage;
+        }
+        itemUpdates.push(itemUpdate);
 
         inventoryUpdates.push({
           sku: woltSku,
-          inventory: quantity
+          inventory: controlled.quantity
         });
       }
     }
@@ -296,6 +338,15 @@ export class BackgroundWorker {
     // Send to Wolt with adaptive batching
     const batchSize = this.adaptiveBatcher.getCurrentBatchSize(this.store.woltVenueId);
     const batchDelay = this.adaptiveBatcher.getRecommendedDelay(this.store.woltVenueId);
+    const audit: AuditContext = {
+      storeId: this.store.id,
+      venueId: this.store.woltVenueId,
+      runId: newRunId(),
+      source: 'background',
+      previousState: { ...state }
+    };
+    const sentAt = Date.now();
+    const quarantined: QuarantineEntry[] = [];
 
     // Phase 1: Items
     if (itemUpdates.length > 0) {
@@ -306,15 +357,17 @@ export class BackgroundWorker {
 
         const batch = itemUpdates.slice(i, i + batchSize);
         try {
-          const result = await this.wolt.updateItems(
+          // SKUs Wolt rejects are quarantined instead of failing the whole batch
+          const outcome = await sendIsolatingRejects(batch, items => this.auditJournal.track(audit, 'items', items, () => this.wolt.updateItems(
             this.store.woltVenueId,
-            { data: batch },
+            { data: items },
             this.store.woltUsername,
             this.store.woltPassword,
             this.store.woltApiUrl
-          );
+          )));
+          quarantined.push(...toQuarantineEntries(outcome.rejected, 'items', audit.runId));
 
-          if (result.rateLimitHit) {
+          if (outcome.results.some(result => result.rateLimitHit)) {
             this.adaptiveBatcher.onRateLimit(this.store.woltVenueId, 60000);
           } else {
             this.adaptiveBatcher.onSuccess(this.store.woltVenueId);
@@ -330,7 +383,9 @@ export class BackgroundWorker {
       }
     }
 
-    // Phase 2: Inventory
+    // Phase 2: Inventory (not for SKUs the Items API just rejected)
+    const rejectedItems = new Set(quarantined.map(entry => entry.sku));
+    inventoryUpdates = inventoryUpdates.filter(update => !rejectedItems.has(update.sku));
     if (inventoryUpdates.length > 0 && !this.shouldStop) {
       log.info(`[BackgroundWorker] Sending ${inventoryUpdates.length} inventory updates...`);
 
@@ -339,13 +394,14 @@ export class BackgroundWorker {
 
         const batch = inventoryUpdates.slice(i, i + batchSize);
         try {
-          await this.wolt.updateInventory(
+          const outcome = await sendIsolatingRejects(batch, items => this.auditJournal.track(audit, 'inventory', items, () => this.wolt.updateInventory(
             this.store.woltVenueId,
-            { data: batch },
+            { data: items },
             this.store.woltUsername,
             this.store.woltPassword,
             this.store.woltApiUrl
-          );
+          )));
+          quarantined.push(...toQuarantineEntries(outcome.rejected, 'inventory', audit.runId));
         } catch (error) {
           log.error(`[BackgroundWorker] Batch failed: ${(error as Error).message}`);
           throw error;
@@ -357,25 +413,33 @@ export class BackgroundWorker {
       }
     }
 
-    // Mark items as synced in state
+    // Mark items as synced in state (quarantined SKUs are left out and stop counting towards the total)
+    const rejectedSkus = new Set(quarantined.map(entry => entry.sku));
     for (const { woltSku } of batchToSync) {
-      if (!state[woltSku]) {
-        state[woltSku] = {
-          quantity: 0,
-          enabled: false,
-          price: 0,
-          lastSeen: Date.now()
-        };
+      if (rejectedSkus.has(woltSku)) {
+        continue;
       }
-      (state[woltSku] as any).syncedToWolt = true;
+      const entry = state[woltSku] ?? {
+        quantity: 0,
+        enabled: false,
+        price: 0,
+        lastSeen: Date.now()
+      };
+      state[woltSku] = markConfirmed(entry, sentAt);
     }
 
     await this.stateManager.saveState(this.store.id, state);
 
+    if (quarantined.length > 0) {
+      await this.quarantine.add(this.store.id, quarantined);
+      log.warn(`[BackgroundWorker] ${rejectedSkus.size} SKUs quarantined; release with "wolt-cli quarantine release -s ${this.store.id} --sku <sku>".`);
+      totalItems -= rejectedSkus.size;
+    }
+
     // Calculate and save progress
-    const newSyncedItems = syncedItems + batchToSync.length;
+    const newSyncedItems = syncedItems + batchToSync.length - rejectedSkus.size;
     const newRemainingItems = totalItems - newSyncedItems;
-    const percentComplete = (newSyncedItems / totalItems) * 100;
+    const percentComplete = totalItems > 0 ? (newSyncedItems / totalItems) * 100 : 100;
     const estimatedDaysRemaining = newRemainingItems / this.config.dailyLimit;
 
     const progress: BackgroundWorkerProgress = {
@@ -0,0 +1,219 @@
+import crypto from 'crypto';
+import { z } from 'zod';
+import { logger } from '../utils/logger';
+
+const eventSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  productId: z.coerce.number().int().positive(),
+  type: z.string().optional() // "stock" | "price" | ...; informational, every event re-reads the product from Fina
+});
+
+export type FinaChangeEvent = z.infer<typeof eventSchema>;
+
+export interface FinaEventBufferConfig {
+  debounceMs: number;  // Quiet period after the last event before a store is synced
+  maxWaitMs: number;   // Upper bound on the delay while events keep arriving
+  maxBatch: number;    // Sync right away once this many products are pending for a store
+}
+
+export interface FinaEventStats {
+  received: number;
+  invalid: number;
+  flushes: number;
+  failedFlushes: number;
+  lastEventAt?: string;
+  lastFlushAt?: string;
+  pending: Record<number, number>; // Store ID -> products waiting
+}
+
+/**
+ * Returns false while the store can't be synced (another sync holds the lock);
+ * the products are then kept and retried. Throws when the sync failed.
+ */
+export type FinaEventFlush = (storeId: number, productIds: number[]) => Promise<boolean>;
+
+const DEFAULT_DEBOUNCE_MS = 2000;
+const DEFAULT_MAX_WAIT_MS = 10000;
+const DEFAULT_MAX_BATCH = 1000;
+const BUSY_RETRY_MS = 5000;
+const FAILED_RETRY_MS = 30000;  // Times the number of consecutive failures
+const MAX_FLUSH_FAILURES = 3;   // Then the products are left to the full poll
+
+/**
+ * Events from a webhook body. Accepts a single event, an array of events,
+ * { events: [...] } or { storeId, productIds: [...] }. Rows that don't
+ * validate are counted, not fatal.
+ */
+export function parseFinaEvents(body: unknown): { events: FinaChangeEvent[]; invalid: number } {
+  let rows: unknown[];
+  if (Array.isArray(body)) {
+    rows = body;
+  } else if (body && typeof body === 'object') {
+    const record = body as Record<string, unknown>;
+    if (Array.isArray(record.events)) {
+      rows = record.events;
+    } else if (Array.isArray(record.productIds)) {
+      rows = record.productIds.map(productId => ({ storeId: record.storeId, productId, type: record.type }));
+    } else {
+      rows = [record];
+    }
+  } else {
+    return { events: [], invalid: 1 };
+  }
+
+  const events: FinaChangeEvent[] = [];
+  let invalid = 0;
+  for (const row of rows) {
+    const parsed = eventSchema.safeParse(row);
+    if (parsed.success) {
+      events.push(parsed.data);
+    } else {
+      invalid++;
+    }
+  }
+  return { events, invalid };
+}
+
+/**
+ * Constant-time comparison of the token sent by Fina with FINA_WEBHOOK_SECRET.
+ */
+export function isValidWebhookToken(provided: string | undefined, secret: string): boolean {
+  if (!provided || !secret) {
+    return false;
+  }
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(provided), digest(secret));
+}
+
+/**
+ * FinaEventBuffer - coalesces Fina change events per store and hands the
+ * changed product IDs to a targeted sync once the store has been quiet for
+ * debounceMs (at most maxWaitMs after the first event, or right away at
+ * maxBatch products). One flush per store runs at a time; events arriving
+ * meanwhile are kept for the next one. A failed flush is retried with
+ * backoff; after MAX_FLUSH_FAILURES in a row its products are dropped and
+ * left to the full poll.
+ */
+export class FinaEventBuffer {
+  private readonly pending = new Map<number, Set<number>>();
+  private readonly firstEventAt = new Map<number, number>();
+  private readonly timers = new Map<number, NodeJS.Timeout>();
+  private readonly flushing = new Set<number>();
+  private readonly failures = new Map<number, number>();
+  private readonly stats: Omit<FinaEventStats, 'pending'> = { received: 0, invalid: 0, flushes: 0, failedFlushes: 0 };
+
+  constructor(private readonly flush: FinaEventFlush, private readonly config: FinaEventBufferConfig) {}
+
+  static fromEnv(flush: FinaEventFlush): FinaEventBuffer {
+    const read = (key: string, fallback: number) => {
+      const value = parseInt(process.env[key] || '', 10);
+      return Number.isFinite(value) && value >= 0 ? value : fallback;
+    };
+    return new FinaEventBuffer(flush, {
+      debounceMs: read('FINA_WEBHOOK_DEBOUNCE_MS', DEFAULT_DEBOUNCE_MS),
+      maxWaitMs: read('FINA_WEBHOOK_MAX_WAIT_MS', DEFAULT_MAX_WAIT_MS),
+      maxBatch: Math.max(1, read('FINA_WEBHOOK_MAX_BATCH', DEFAULT_MAX_BATCH))
+    });
+  }
+
+  add(events: FinaChangeEvent[]): void {
+    const now = Date.now();
+    const touched = new Set<number>();
+    for (const { storeId, productId } of events) {
+      const ids = this.pending.get(storeId) ?? new Set<number>();
+      ids.add(productId);
+      this.pending.set(storeId, ids);
+      if (!this.firstEventAt.has(storeId)) {
+        this.firstEventAt.set(storeId, now);
+      }
+      touched.add(storeId);
+    }
+    if (events.length > 0) {
+      this.stats.received += events.length;
+      this.stats.lastEventAt = new Date(now).toISOString();
+    }
+    touched.forEach(storeId => this.schedule(storeId));
+  }
+
+  recordInvalid(count: number): void {
+    this.stats.invalid += count;
+  }
+
+  getStats(): FinaEventStats {
+    const pending: Record<number, number> = {};
+    this.pending.forEach((ids, storeId) => { pending[storeId] = ids.size; });
+    return { ...this.stats, pending };
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  private schedule(storeId: number, delayMs?: number): void {
+    const size = this.pending.get(storeId)?.size ?? 0;
+    if (size === 0) {
+      return;
+    }
+    const now = Date.now();
+    const deadline = (this.firstEventAt.get(storeId) ?? now) + this.config.maxWaitMs;
+    const delay = delayMs ?? (size >= this.config.maxBatch ? 0 : Math.max(0, Math.min(this.config.debounceMs, deadline - now)));
+
+    const existing = this.timers.get(storeId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    this.timers.set(storeId, setTimeout(() => { void this.run(storeId); }, delay));
+  }
+
+  private async run(storeId: number): Promise<void> {
+    this.timers.delete(storeId);
+    if (this.flushing.has(storeId)) {
+      return; // Rescheduled when the running flush finishes
+    }
+    const ids = this.pending.get(storeId);
+    if (!ids || ids.size === 0) {
+      return;
+    }
+    this.pending.delete(storeId);
+    this.firstEventAt.delete(storeId);
+    this.flushing.add(storeId);
+
+    let retryDelay: number | undefined;
+    try {
+      const done = await this.flush(storeId, [...ids]);
+      if (done) {
+        this.stats.flushes++;
+        this.stats.lastFlushAt = new Date().toISOString();
+        this.failures.delete(storeId);
+      } else {
+        // Store busy: keep the products (plus anything that arrived meanwhile) and try again
+        this.requeue(storeId, ids);
+        retryDelay = Math.max(this.config.debounceMs, BUSY_RETRY_MS);
+      }
+    } catch (error: any) {
+      this.stats.failedFlushes++;
+      const failures = (this.failures.get(storeId) ?? 0) + 1;
+      if (failures < MAX_FLUSH_FAILURES) {
+        this.failures.set(storeId, failures);
+        this.requeue(storeId, ids);
+        retryDelay = FAILED_RETRY_MS * failures;
+        logger.error(`[FinaWebhook] Store ${storeId}: targeted sync of ${ids.size} products failed: ${error.message} (retrying in ${retryDelay / 1000}s)`);
+      } else {
+        this.failures.delete(storeId);
+        logger.error(`[FinaWebhook] Store ${storeId}: targeted sync of ${ids.size} products failed ${failures} times: ${error.message} (left to the full poll)`);
+      }
+    } finally {
+      this.flushing.delete(storeId);
+    }
+    this.schedule(storeId, retryDelay);
+  }
+
+  // Put flushed products back, together with anything that arrived meanwhile
+  private requeue(storeId: number, ids: Set<number>): void {
+    const merged = this.pending.get(storeId) ?? new Set<number>();
+    ids.forEach(id => merged.add(id));
+    this.pending.set(storeId, merged);
+    this.firstEventAt.set(storeId, Date.now());
+  }
+}
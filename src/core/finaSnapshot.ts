@@ -0,0 +1,129 @@
+import { FinaProductDetail } from '../types';
+import { logger } from '../utils/logger';
+import { ProductDetailsFetch, ProductDetailsResult } from './productDetailCache';
+
+export interface FinaSnapshotStats {
+  active: boolean;
+  takenAt?: string;
+  ageSeconds?: number;
+  products: number;
+  maxProducts: number;
+  hits: number;    // Details served to a store from the snapshot
+  fetched: number; // Details fetched from Fina into the snapshot
+  full: boolean;   // maxProducts reached; further products are passed through
+}
+
+const DEFAULT_MAX_PRODUCTS = 150000;
+const DEFAULT_MAX_AGE_MINUTES = 60;
+
+/**
+ * FinaSnapshot - product details shared by the stores of one scheduler cycle.
+ * Details are the same catalog for every store, so the first store fetches
+ * them and later stores only fetch the products the snapshot doesn't have;
+ * inventory stays per store. Memory is bounded by FINA_SNAPSHOT_MAX_PRODUCTS,
+ * and a snapshot older than FINA_SNAPSHOT_MAX_AGE_MINUTES (a long first sync)
+ * is dropped and rebuilt so prices don't go stale within a cycle.
+ */
+export class FinaSnapshot {
+  private readonly products = new Map<number, FinaProductDetail>();
+  private takenAt: number | null = null;
+  private hits = 0;
+  private fetched = 0;
+  private warnedFull = false;
+
+  constructor(private readonly config: { maxProducts: number; maxAgeMs: number }) {}
+
+  static fromEnv(): FinaSnapshot {
+    const read = (key: string, fallback: number) => {
+      const value = parseInt(process.env[key] || '', 10);
+      return Number.isFinite(value) && value > 0 ? value : fallback;
+    };
+    return new FinaSnapshot({
+      maxProducts: read('FINA_SNAPSHOT_MAX_PRODUCTS', DEFAULT_MAX_PRODUCTS),
+      maxAgeMs: read('FINA_SNAPSHOT_MAX_AGE_MINUTES', DEFAULT_MAX_AGE_MINUTES) * 60 * 1000
+    });
+  }
+
+  // Start of a scheduler cycle
+  begin(): void {
+    this.reset();
+    this.takenAt = Date.now();
+  }
+
+  // End of the cycle: release the details, keep the counters for health output
+  end(): void {
+    if (this.takenAt !== null) {
+      logger.info(`[FinaSnapshot] Cycle done: ${this.fetched} details fetched, ${this.hits} shared between stores`);
+    }
+    this.products.clear();
+    this.takenAt = null;
+  }
+
+  get active(): boolean {
+    return this.takenAt !== null;
+  }
+
+  /**
+   * Details for ids, fetching from Fina only what the snapshot doesn't hold.
+   * Outside a cycle it passes straight through.
+   */
+  async getDetails(ids: number[], fetch: ProductDetailsFetch): Promise<ProductDetailsResult> {
+    if (this.takenAt === null) {
+      return fetch(ids);
+    }
+    if (Date.now() - this.takenAt >= this.config.maxAgeMs) {
+      logger.info(`[FinaSnapshot] Snapshot older than ${Math.round(this.config.maxAgeMs / 60000)} minutes; rebuilding`);
+      this.products.clear();
+      this.takenAt = Date.now();
+    }
+
+    const products: FinaProductDetail[] = [];
+    const missing: number[] = [];
+    for (const id of ids) {
+      const detail = this.products.get(id);
+      if (detail) {
+        products.push(detail);
+      } else {
+        missing.push(id);
+      }
+    }
+    this.hits += products.length;
+
+    if (missing.length === 0) {
+      return { products, durationMs: 0, apiCalls: 0 };
+    }
+    const result = await fetch(missing);
+    this.fetched += result.products.length;
+    for (const detail of result.products) {
+      if (this.products.size >= this.config.maxProducts && !this.products.has(detail.id)) {
+        if (!this.warnedFull) {
+          logger.warn(`[FinaSnapshot] Reached FINA_SNAPSHOT_MAX_PRODUCTS (${this.config.maxProducts}); further details are not shared`);
+          this.warnedFull = true;
+        }
+        break;
+      }
+      this.products.set(detail.id, detail);
+    }
+    return { products: [...products, ...result.products], durationMs: result.durationMs, apiCalls: result.apiCalls, invalidRows: result.invalidRows };
+  }
+
+  getStats(): FinaSnapshotStats {
+    return {
+      active: this.takenAt !== null,
+      takenAt: this.takenAt !== null ? new Date(this.takenAt).toISOString() : undefined,
+      ageSeconds: this.takenAt !== null ? Math.round((Date.now() - this.takenAt) / 1000) : undefined,
+      products: this.products.size,
+      maxProducts: this.config.maxProducts,
+      hits: this.hits,
+      fetched: this.fetched,
+      full: this.products.size >= this.config.maxProducts
+    };
+  }
+
+  private reset(): void {
+    this.products.clear();
+    this.hits = 0;
+    this.fetched = 0;
+    this.warnedFull = false;
+  }
+}
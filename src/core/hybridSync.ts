@@ -1,8 +1,17 @@
 import { FinaAdapter } from '../adapters/fina';
 import { WoltAdapter } from '../adapters/wolt';
+import { WoltCatalogItem, WoltCatalogReader } from '../adapters/woltCatalog';
 import { StateManager } from './state';
 import { PriorityScorer } from './priorityScorer';
+import { SkuMapper, formatStrategyCounts } from './skuMapper';
+import { PriceRuleEngine } from './priceRules';
+import { VatResolver } from './vatResolver';
+import { InventoryPolicyEngine } from './inventoryPolicy';
 import { BackgroundWorker } from './backgroundWorker';
+import { AuditContext, AuditJournal, newRunId } from './auditJournal';
+import { markConfirmed } from './stateSchema';
+import { SkuControlStore } from './skuControls';
+import { QuarantineEntry, QuarantineStore, sendIsolatingRejects, toQuarantineEntries } from './quarantine';
 import { StoreConfig, SyncState, WoltInventoryItem, WoltItemUpdate } from '../types';
 import { createStoreLogger } from '../utils/logger';
 import { AdaptiveBatcher } from '../utils/adaptiveBatcher';
@@ -38,6 +47,9 @@ export class HybridSyncOrchestrator {
   private priorityScorer: PriorityScorer;
   private adaptiveBatcher: AdaptiveBatcher;
   private backgroundWorker: BackgroundWorker | null = null;
+  private auditJournal: AuditJournal;
+  private skuControls: SkuControlStore;
+  private quarantine: QuarantineStore;
 
   constructor() {
     this.fina = new FinaAdapter();
@@ -45,6 +57,9 @@ export class HybridSyncOrchestrator {
     this.stateManager = new StateManager();
     this.priorityScorer = new PriorityScorer();
     this.adaptiveBatcher = new AdaptiveBatcher();
+    this.auditJournal = new AuditJournal();
+    this.skuControls = new SkuControlStore();
+    this.quarantine = new QuarantineStore();
   }
 
   /**
@@ -154,23 +169,32 @@ export class HybridSyncOrchestrator {
     const details = detailsResult.products;
 
     // Build SKU map
-    const finaIdToWoltSku = this.fina.mapToWoltSku(details);
+    const skuMapping = SkuMapper.fromEnv(store.id).resolve(details);
+    const finaIdToWoltSku = skuMapping.skus;
+    log.info(`[Bootstrap] Mapped ${finaIdToWoltSku.size} SKUs (strategies: ${formatStrategyCounts(skuMapping.strategyCounts)})`);
     const stockMap = new Map(inventory.map(i => [i.id, i.rest]));
 
-    // Create state
+    // Create state (prices and stock after store rules/policies, matching what delta sync compares)
     const state: SyncState = {};
     const now = Date.now();
+    const priceRules = PriceRuleEngine.fromEnv(store.id);
+    const vatResolver = VatResolver.fromEnv(store.id);
+    const inventoryPolicy = InventoryPolicyEngine.fromEnv(store.id);
 
     for (const product of details) {
       const woltSku = finaIdToWoltSku.get(product.id);
       if (!woltSku) continue;
 
-      const quantity = stockMap.get(product.id) || 0;
+      const quantity = inventoryPolicy.apply(woltSku, stockMap.get(product.id) || 0);
+      const hasValidPrice = typeof product.price === 'number' && product.price >= 0;
+      const priced = hasValidPrice ? priceRules.apply(product, woltSku, now) : { price: product.price };
 
       state[woltSku] = {
         quantity,
         enabled: quantity > 0,
-        price: product.price,
+        price: priced.price,
+        discountedPrice: priced.discountedPrice,
+        vatPercentage: vatResolver.resolve(product).vatPercentage,
         lastSeen: now
       };
     }
@@ -181,34 +205,25 @@ export class HybridSyncOrchestrator {
   }
 
   /**
-   * Phase 2: Introspect Wolt for existing items
+   * Phase 2: Introspect Wolt for existing items (paginated catalog read, shares the write rate limiter)
    */
-  private async introspectWolt(store: StoreConfig): Promise<any[]> {
-    try {
-      return await this.wolt.introspectExistingItems(
-        store.woltVenueId,
-        store.woltUsername,
-        store.woltPassword,
-        store.woltApiUrl
-      );
-    } catch (error) {
-      // Non-critical error
-      return [];
-    }
+  private async introspectWolt(store: StoreConfig): Promise<WoltCatalogItem[]> {
+    const catalog = await WoltCatalogReader.fromEnv(store.id, this.wolt).read(store, { refresh: true });
+    return catalog?.items ?? [];
   }
 
   /**
    * Merge Wolt items into state
    */
-  private async mergeWoltState(store: StoreConfig, woltItems: any[]): Promise<void> {
+  private async mergeWoltState(store: StoreConfig, woltItems: WoltCatalogItem[]): Promise<void> {
     const log = createStoreLogger(store.id);
     const state = await this.stateManager.loadState(store.id);
     let mergedCount = 0;
 
     for (const item of woltItems) {
-      if (item.sku && state[item.sku]) {
+      if (state[item.sku]) {
         // Mark as already synced to Wolt
-        (state[item.sku] as any).syncedToWolt = true;
+        state[item.sku] = { ...state[item.sku], syncedToWolt: true };
         mergedCount++;
       }
     }
@@ -236,10 +251,11 @@ export class HybridSyncOrchestrator {
     const detailsResult = await this.fina.getProductDetails(productIds);
     const details = detailsResult.products;
 
-    const finaIdToWoltSku = this.fina.mapToWoltSku(details);
+    const skuMapping = SkuMapper.fromEnv(store.id).resolve(details);
+    log.info(`[PrioritySync] Mapped ${skuMapping.skus.size} SKUs (strategies: ${formatStrategyCounts(skuMapping.strategyCounts)})`);
 
     // Score and sort
-    const scoredItems = this.priorityScorer.scoreAndSort(inventory, details, finaIdToWoltSku);
+    const scoredItems = this.priorityScorer.scoreAndSort(inventory, details, skuMapping);
     const topItems = this.priorityScorer.getTopPriority(scoredItems, limit);
 
     if (topItems.length === 0) {
@@ -253,6 +269,12 @@ export class HybridSyncOrchestrator {
     const itemUpdates: WoltItemUpdate[] = [];
     const inventoryUpdates: WoltInventoryItem[] = [];
     const syncedSkus: string[] = [];
+    const priceRules = PriceRuleEngine.fromEnv(store.id);
+    const vatResolver = VatResolver.fromEnv(store.id);
+    const inventoryPolicy = InventoryPolicyEngine.fromEnv(store.id);
+    const detailMap = new Map(details.map(d => [d.id, d]));
+    const skuControls = await this.skuControls.active(store.id);
+    const quarantinedSkus = await this.quarantine.skus(store.id);
     let invalidPriceCount = 0;
 
     for (const item of topItems) {
@@ -261,6 +283,14 @@ export class HybridSyncOrchestrator {
         log.warn(`[PrioritySync] Skipping item without SKU`);
         continue;
       }
+      if (skuControls.isIgnored(item.woltSku)) {
+        log.info(`[PrioritySync] Skipping ignored SKU ${item.woltSku}`);
+        continue;
+      }
+      if (quarantinedSkus.has(item.woltSku)) {
+        log.info(`[PrioritySync] Skipping quarantined SKU ${item.woltSku}`);
+        continue;
+      }
 
       syncedSkus.push(item.woltSku);
 
@@ -283,16 +313,28 @@ export class HybridSyncOrchestrator {
           inventory: 0  // Set inventory to 0 for invalid prices
         });
       } else {
-        // Valid price - sync normally
-        itemUpdates.push({
+        // Valid price - sync normally (after store price rules)
+        const detail = detailMap.get(item.id);
+        const priced = detail ? priceRules.apply(detail, item.woltSku) : { price: item.price };
+        const quantity = inventoryPolicy.apply(item.woltSku, item.rest);
+        const controlled = skuControls.apply(item.woltSku, { quantity, enabled: quantity > 0, price: priced.price });
+        const itemUpdate: WoltItemUpdate = {
           sku: item.woltSku,
-          enabled: item.rest > 0,
-          price: item.price
-        });
+          enabled: controlled.enabled,
+          price: priced.price
+        };
+        if (priced.discountedPrice !== undefined) {
+          itemUpdate.discounted_price = priced.discountedPrice;
+        }
+        const vat = detail ? vatResolver.resolve(detail) : {};
+        if (vat.vatPercentage !== undefined) {
+          itemUpdate.vat_percentage = vat.vatPercentage;
+        }
+        itemUpdates.push(itemUpdate);
 
         inventoryUpdates.push({
           sku: item.woltSku,
-          inventory: item.rest
+          inventory: controlled.quantity
         });
       }
     }
@@ -310,30 +352,41 @@ export class HybridSyncOrchestrator {
     }
 
     // Sync with adaptive batching
-    await this.adaptiveSync(store, itemUpdates, inventoryUpdates);
-
-    // Mark successfully synced items in state
     const state = await this.stateManager.loadState(store.id);
-    for (const sku of syncedSkus) {
+    const sentAt = Date.now();
+    const rejected = await this.adaptiveSync(store, itemUpdates, inventoryUpdates, {
+      storeId: store.id,
+      venueId: store.woltVenueId,
+      runId: newRunId(),
+      source: 'priority',
+      previousState: { ...state }
+    });
+
+    // Mark successfully synced items in state (not the ones Wolt rejected)
+    const confirmedSkus = syncedSkus.filter(sku => !rejected.has(sku));
+    for (const sku of confirmedSkus) {
       if (state[sku]) {
-        (state[sku] as any).syncedToWolt = true;
+        state[sku] = markConfirmed(state[sku], sentAt);
       }
     }
     await this.stateManager.saveState(store.id, state);
 
-    return itemUpdates.length;
+    return confirmedSkus.length;
   }
 
   /**
-   * Adaptive sync with automatic batch size adjustment
+   * Adaptive sync with automatic batch size adjustment.
+   * SKUs Wolt rejects are isolated, quarantined and returned.
    */
   private async adaptiveSync(
     store: StoreConfig,
     itemUpdates: WoltItemUpdate[],
-    inventoryUpdates: WoltInventoryItem[]
-  ): Promise<void> {
+    inventoryUpdates: WoltInventoryItem[],
+    audit: AuditContext
+  ): Promise<Set<string>> {
     const log = createStoreLogger(store.id);
     let currentBatchSize = this.adaptiveBatcher.getCurrentBatchSize(store.woltVenueId);
+    const quarantined: QuarantineEntry[] = [];
 
     // Phase 1: Items
     if (itemUpdates.length > 0) {
@@ -347,15 +400,16 @@ export class HybridSyncOrchestrator {
         log.info(`[AdaptiveSync] Items batch ${batchNum}/${totalBatches} (${batch.length} items, batch size: ${currentBatchSize})...`);
 
         try {
-          const result = await this.wolt.updateItems(
+          const outcome = await sendIsolatingRejects(batch, items => this.auditJournal.track(audit, 'items', items, () => this.wolt.updateItems(
             store.woltVenueId,
-            { data: batch },
+            { data: items },
             store.woltUsername,
             store.woltPassword,
             store.woltApiUrl
-          );
+          )));
+          quarantined.push(...toQuarantineEntries(outcome.rejected, 'items', audit.runId));
 
-          if (result.rateLimitHit) {
+          if (outcome.results.some(result => result.rateLimitHit)) {
             currentBatchSize = this.adaptiveBatcher.onRateLimit(store.woltVenueId, 60000);
           } else {
             currentBatchSize = this.adaptiveBatcher.onSuccess(store.woltVenueId);
@@ -381,7 +435,9 @@ export class HybridSyncOrchestrator {
       }
     }
 
-    // Phase 2: Inventory
+    // Phase 2: Inventory (not for SKUs the Items API just rejected)
+    const rejectedItems = new Set(quarantined.map(entry => entry.sku));
+    inventoryUpdates = inventoryUpdates.filter(update => !rejectedItems.has(update.sku));
     if (inventoryUpdates.length > 0) {
       log.info(`[AdaptiveSync] Sending ${inventoryUpdates.length} inventory updates...`);
       currentBatchSize = this.adaptiveBatcher.getCurrentBatchSize(store.woltVenueId);
@@ -394,13 +450,14 @@ export class HybridSyncOrchestrator {
         log.info(`[AdaptiveSync] Inventory batch ${batchNum}/${totalBatches} (${batch.length} items, batch size: ${currentBatchSize})...`);
 
         try {
-          await this.wolt.updateInventory(
+          const outcome = await sendIsolatingRejects(batch, items => this.auditJournal.track(audit, 'inventory', items, () => this.wolt.updateInventory(
             store.woltVenueId,
-            { data: batch },
+            { data: items },
             store.woltUsername,
             store.woltPassword,
             store.woltApiUrl
-          );
+          )));
+          quarantined.push(...toQuarantineEntries(outcome.rejected, 'inventory', audit.runId));
 
           currentBatchSize = this.adaptiveBatcher.onSuccess(store.woltVenueId);
 
@@ -420,6 +477,12 @@ export class HybridSyncOrchestrator {
         }
       }
     }
+
+    if (quarantined.length > 0) {
+      await this.quarantine.add(store.id, quarantined);
+      log.warn(`[AdaptiveSync] ${quarantined.length} SKUs quarantined; release with "wolt-cli quarantine release -s ${store.id} --sku <sku>".`);
+    }
+    return new Set(quarantined.map(entry => entry.sku));
   }
 
   /**
@@ -0,0 +1,142 @@
+import path from 'path';
+import { z } from 'zod';
+import { resolveStoreSetting } from '../config/stores';
+import { loadJsonConfig, resolveConfigPath } from '../config/configFile';
+import { logger } from '../utils/logger';
+
+export const INVENTORY_POLICY_VERSION = 1;
+const DEFAULT_INVENTORY_POLICY_FILE = path.join('config', 'inventory-policies.json');
+
+const policySchema = z.object({
+  safetyBuffer: z.number().nonnegative().optional(),         // Units held back from Wolt
+  maxQuantity: z.number().int().nonnegative().optional(),    // Never advertise more than this
+  floorFractional: z.boolean().optional(),                   // 2.7 kg -> 2
+  unavailableAtOrBelow: z.number().nonnegative().optional()  // Stock <= threshold is sent as 0
+});
+
+const skuPatternPolicySchema = policySchema.extend({
+  pattern: z.string().min(1)
+});
+
+const storePolicySchema = policySchema.extend({
+  skuPatterns: z.array(skuPatternPolicySchema).optional()
+});
+
+export const inventoryPolicyFileSchema = z.object({
+  version: z.literal(INVENTORY_POLICY_VERSION),
+  defaults: policySchema.optional(),
+  skuPatterns: z.array(skuPatternPolicySchema).optional(),
+  stores: z.record(z.string().regex(/^\d+$/, 'store keys must be Fina store IDs'), storePolicySchema).optional()
+});
+
+export type InventoryPolicyFile = z.infer<typeof inventoryPolicyFileSchema>;
+export type InventoryPolicy = z.infer<typeof policySchema>;
+type SkuPatternPolicy = z.infer<typeof skuPatternPolicySchema>;
+
+export interface StockAdjustment {
+  sku: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Convert a SKU glob ("*" = any run of characters, "?" = one character) into an anchored regex.
+ */
+export function skuPatternToRegex(pattern: string): RegExp {
+  const escaped = pattern
+    .split('')
+    .map(ch => (ch === '*' ? '.*' : ch === '?' ? '.' : ch.replace(/[.+^${}()|[\]\\]/g, '\\$&')))
+    .join('');
+  return new RegExp(`^${escaped}$`);
+}
+
+export function loadInventoryPolicies(filePath: string): InventoryPolicyFile | null {
+  return loadJsonConfig(filePath, inventoryPolicyFileSchema, 'inventory policies');
+}
+
+/**
+ * InventoryPolicyEngine - transforms Fina stock into the quantity sent to Wolt.
+ *
+ * Policy layers (later layers override earlier ones field by field):
+ *   defaults -> skuPatterns[first match] -> stores[id] -> stores[id].skuPatterns[first match]
+ * Steps: floor fractional stock, zero out stock at or below the threshold,
+ * subtract the safety buffer (never below 0), then cap at maxQuantity.
+ */
+export class InventoryPolicyEngine {
+  private readonly globalPatterns: Array<{ regex: RegExp; policy: SkuPatternPolicy }>;
+  private readonly storePatterns: Array<{ regex: RegExp; policy: SkuPatternPolicy }>;
+  private readonly cache = new Map<string, InventoryPolicy>();
+
+  constructor(
+    private readonly storeId: number,
+    private readonly policies: InventoryPolicyFile | null
+  ) {
+    const compile = (patterns?: SkuPatternPolicy[]) =>
+      (patterns || []).map(policy => ({ regex: skuPatternToRegex(policy.pattern), policy }));
+    this.globalPatterns = compile(policies?.skuPatterns);
+    this.storePatterns = compile(policies?.stores?.[String(storeId)]?.skuPatterns);
+  }
+
+  static fromEnv(storeId: number): InventoryPolicyEngine {
+    const configured = resolveStoreSetting(storeId, 'INVENTORY_POLICY_FILE') || DEFAULT_INVENTORY_POLICY_FILE;
+    const filePath = resolveConfigPath(configured);
+    const policies = loadInventoryPolicies(filePath);
+    if (policies) {
+      logger.debug(`[InventoryPolicy] Loaded inventory policies v${policies.version} from ${filePath} for store ${storeId}`);
+    }
+    return new InventoryPolicyEngine(storeId, policies);
+  }
+
+  hasPolicies(): boolean {
+    return this.policies !== null;
+  }
+
+  resolvePolicy(sku: string): InventoryPolicy {
+    const cached = this.cache.get(sku);
+    if (cached) {
+      return cached;
+    }
+    if (!this.policies) {
+      return {};
+    }
+
+    const strip = (match?: { policy: SkuPatternPolicy }): InventoryPolicy => {
+      if (!match) return {};
+      const { pattern: _pattern, ...policy } = match.policy;
+      return policy;
+    };
+    const { skuPatterns: _storePatterns, ...storeLevel } = this.policies.stores?.[String(this.storeId)] || {};
+
+    const policy: InventoryPolicy = {
+      ...(this.policies.defaults || {}),
+      ...strip(this.globalPatterns.find(p => p.regex.test(sku))),
+      ...storeLevel,
+      ...strip(this.storePatterns.find(p => p.regex.test(sku)))
+    };
+    this.cache.set(sku, policy);
+    return policy;
+  }
+
+  apply(sku: string, stock: number): number {
+    if (!this.policies || !Number.isFinite(stock)) {
+      return stock;
+    }
+
+    const policy = this.resolvePolicy(sku);
+    let quantity = stock;
+
+    if (policy.floorFractional) {
+      quantity = Math.floor(quantity);
+    }
+    if (policy.unavailableAtOrBelow !== undefined && quantity <= policy.unavailableAtOrBelow) {
+      quantity = 0;
+    }
+    if (policy.safetyBuffer !== undefined) {
+      quantity = quantity - policy.safetyBuffer;
+    }
+    if (policy.maxQuantity !== undefined) {
+      quantity = Math.min(quantity, policy.maxQuantity);
+    }
+    return Math.max(0, quantity);
+  }
+}
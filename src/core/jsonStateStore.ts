@@ -0,0 +1,314 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { SyncState } from '../types';
+import { logger } from '../utils/logger';
+import { withFileLock } from '../utils/fileLock';
+import { StateStore } from './stateStore';
+import { STATE_SCHEMA_VERSION, StateEnvelope, StateParseResult, UnsupportedStateVersionError, createEnvelope, parseStateDocument } from './stateSchema';
+
+const transientRenameErrors = new Set(['EPERM', 'EBUSY', 'EACCES']);
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+export async function commitTempFile(tempPath: string, filePath: string, label: string): Promise<void> {
+  let lastError: any;
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    try {
+      await fs.move(tempPath, filePath, { overwrite: true });
+      return;
+    } catch (error: any) {
+      lastError = error;
+      if (!transientRenameErrors.has(error?.code)) {
+        throw error;
+      }
+      await sleep(50 * attempt);
+    }
+  }
+
+  try {
+    await fs.copy(tempPath, filePath, { overwrite: true });
+    await fs.remove(tempPath);
+    logger.warn(`${label} saved using copy fallback after rename failure: ${lastError?.code || lastError?.message}`);
+  } catch (error: any) {
+    throw lastError || error;
+  }
+}
+
+/**
+ * JsonStateStore - one `.state-store-<id>.json` file per store plus a `.bak` copy.
+ * Files hold the versioned envelope; legacy bare maps are rewritten on first load.
+ * Writes hold a cross-process lock on the state file (PM2 processes and CLI share state/).
+ * Every save rewrites the whole file (atomic temp-file rename by default,
+ * STATE_WRITE_MODE=direct for filesystems where rename is unreliable).
+ * Confirmed batches are merged under the same lock into the state this process
+ * last loaded or saved; the file is only re-read when another process wrote it since.
+ */
+export class JsonStateStore implements StateStore {
+  readonly backend = 'json' as const;
+  private readonly useDirectWrite: boolean;
+
+  private readonly createdAt = new Map<number, string>();
+  // State as last loaded or written by this process; upsertEntries merges into it
+  private readonly entries = new Map<number, SyncState>();
+  // Stores whose state file and backup both failed to parse
+  private readonly unreadable = new Set<number>();
+  // Identity of the state file behind `entries`; a different one means another process wrote it
+  private readonly fileStamps = new Map<number, string>();
+
+  constructor(private readonly stateDir: string) {
+    this.useDirectWrite = (process.env.STATE_WRITE_MODE || '').trim().toLowerCase() === 'direct';
+  }
+
+  private getStatePath(storeId: number): string {
+    return path.join(this.stateDir, `.state-store-${storeId}.json`);
+  }
+
+  private getBackupPath(storeId: number): string {
+    return path.join(this.stateDir, `.state-store-${storeId}.json.bak`);
+  }
+
+  private async readFileStamp(storeId: number): Promise<string | undefined> {
+    try {
+      const stats = await fs.stat(this.getStatePath(storeId));
+      return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async stampFile(storeId: number): Promise<void> {
+    const stamp = await this.readFileStamp(storeId);
+    if (stamp) {
+      this.fileStamps.set(storeId, stamp);
+    }
+  }
+
+  private async readStateFile(filePath: string, storeId: number, label: string): Promise<StateParseResult | null> {
+    try {
+      return parseStateDocument(await fs.readJson(filePath), storeId);
+    } catch (error: any) {
+      if (error instanceof UnsupportedStateVersionError) {
+        throw error;
+      }
+      logger.error(`Failed to load ${label} for store ${storeId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  // createdAt survives rewrites; read it from the current file if this process hasn't loaded it yet
+  private async resolveCreatedAt(storeId: number): Promise<string | undefined> {
+    const known = this.createdAt.get(storeId);
+    if (known) {
+      return known;
+    }
+    try {
+      const current = await fs.readJson(this.getStatePath(storeId));
+      return typeof current?.createdAt === 'string' ? current.createdAt : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async useParsed(storeId: number, result: StateParseResult, fromBackup: boolean, persistMigration: boolean): Promise<StateEnvelope> {
+    this.createdAt.set(storeId, result.envelope.createdAt);
+    this.entries.set(storeId, { ...result.envelope.entries });
+    this.unreadable.delete(storeId);
+    if (result.migratedFrom !== undefined) {
+      logger.info(`Migrated ${fromBackup ? 'backup state' : 'state'} for store ${storeId} from schema v${result.migratedFrom} to v${STATE_SCHEMA_VERSION}`);
+      // Persist the upgrade right away - but never over a corrupt primary, whose save would clobber the good backup
+      if (!fromBackup && persistMigration) {
+        await this.saveState(storeId, result.envelope.entries);
+      }
+    }
+    return result.envelope;
+  }
+
+  async loadEnvelope(storeId: number): Promise<StateEnvelope | null> {
+    return this.readEnvelope(storeId, true);
+  }
+
+  private async readEnvelope(storeId: number, persistMigration: boolean): Promise<StateEnvelope | null> {
+    const filePath = this.getStatePath(storeId);
+    const primaryExists = await fs.pathExists(filePath);
+
+    this.fileStamps.delete(storeId);
+    if (primaryExists) {
+      // Stamped before reading: if the file changes meanwhile, the next upsert re-reads it
+      const stamp = await this.readFileStamp(storeId);
+      const primary = await this.readStateFile(filePath, storeId, 'state');
+      if (primary) {
+        if (stamp && primary.migratedFrom === undefined) {
+          this.fileStamps.set(storeId, stamp);
+        }
+        return this.useParsed(storeId, primary, false, persistMigration);
+      }
+
+      // Primary file exists but is corrupt - try backup
+      const backupPath = this.getBackupPath(storeId);
+      if (await fs.pathExists(backupPath)) {
+        const backup = await this.readStateFile(backupPath, storeId, 'backup state');
+        if (backup) {
+          logger.warn(`State file corrupt; using backup for store ${storeId}.`);
+          return this.useParsed(storeId, backup, true, persistMigration);
+        }
+      }
+
+      // Both primary and backup are corrupt
+      logger.error(`State file and backup corrupt for store ${storeId}. Starting fresh.`);
+      this.entries.delete(storeId);
+      this.unreadable.add(storeId);
+      return null;
+    }
+
+    // Primary file doesn't exist - return empty state (triggers full sync)
+    logger.info(`No state file found for store ${storeId}. Will run full sync.`);
+    this.entries.set(storeId, {});
+    this.unreadable.delete(storeId);
+    return null;
+  }
+
+  async loadState(storeId: number): Promise<SyncState> {
+    return (await this.loadEnvelope(storeId))?.entries ?? {};
+  }
+
+  /**
+   * Read the `.bak` copy directly (used when migrating a store whose primary file is gone).
+   */
+  async loadBackup(storeId: number): Promise<SyncState | null> {
+    const backupPath = this.getBackupPath(storeId);
+    if (!(await fs.pathExists(backupPath))) {
+      return null;
+    }
+    return (await this.readStateFile(backupPath, storeId, 'backup state'))?.envelope.entries ?? null;
+  }
+
+  async saveState(storeId: number, state: SyncState): Promise<void> {
+    try {
+      await withFileLock(this.getStatePath(storeId), () => this.writeState(storeId, state));
+      this.entries.set(storeId, { ...state });
+      this.unreadable.delete(storeId);
+    } catch (error: any) {
+      logger.error(`Failed to save state for store ${storeId}: ${error.message}`);
+    }
+  }
+
+  // Callers must hold the state file lock; throws when the file could not be written
+  private async writeState(storeId: number, state: SyncState): Promise<void> {
+    const filePath = this.getStatePath(storeId);
+    const tempPath = `${filePath}.tmp`;
+    const backupPath = this.getBackupPath(storeId);
+
+    try {
+      const envelope = createEnvelope(storeId, state, await this.resolveCreatedAt(storeId));
+      this.createdAt.set(storeId, envelope.createdAt);
+
+      if (await fs.pathExists(filePath)) {
+        try {
+          await fs.copy(filePath, backupPath, { overwrite: true });
+        } catch (error: any) {
+          logger.warn(`Failed to write state backup for store ${storeId}: ${error.message}`);
+        }
+      }
+
+      if (this.useDirectWrite) {
+        const payload = JSON.stringify(envelope);
+        try {
+          await fs.writeFile(tempPath, payload);
+          try {
+            await fs.copy(tempPath, filePath, { overwrite: true });
+          } catch (copyError: any) {
+            logger.warn(`State copy fallback failed for store ${storeId}: ${copyError.message}. Writing directly.`);
+            await fs.writeFile(filePath, payload);
+          }
+          await this.stampFile(storeId);
+          logger.debug(`State saved for store ${storeId}`);
+        } finally {
+          try {
+            if (await fs.pathExists(tempPath)) {
+              await fs.remove(tempPath);
+            }
+          } catch {
+            // Ignore cleanup errors (temp files are safe to leave behind).
+          }
+        }
+        return;
+      }
+
+      // Write to temporary file first
+      await fs.writeJson(tempPath, envelope);
+
+      // Atomic rename (replaces existing file)
+      await commitTempFile(tempPath, filePath, `State for store ${storeId}`);
+      await this.stampFile(storeId);
+
+      logger.debug(`State saved for store ${storeId}`);
+    } catch (error: any) {
+      this.fileStamps.delete(storeId);
+      // Clean up temp file if it exists
+      try {
+        if (await fs.pathExists(tempPath)) {
+          await fs.remove(tempPath);
+        }
+      } catch (cleanupError) {
+        // Ignore cleanup errors
+      }
+      throw error;
+    }
+  }
+
+  // A JSON file cannot be updated in place: under the lock, merge into the
+  // current state and rewrite it. Write failures propagate, since Wolt has
+  // already applied the batch and the caller must not carry on as if it was recorded.
+  async upsertEntries(storeId: number, entries: SyncState): Promise<void> {
+    if (Object.keys(entries).length === 0) {
+      return;
+    }
+    await withFileLock(this.getStatePath(storeId), async () => {
+      const stamp = await this.readFileStamp(storeId);
+      const cached = this.entries.has(storeId) && this.fileStamps.get(storeId) === stamp;
+      if (!cached && (stamp !== undefined || !this.entries.has(storeId))) {
+        await this.readEnvelope(storeId, false);
+      }
+      const current = this.entries.get(storeId);
+      if (!current) {
+        // Rewriting an unreadable file with one batch would drop every other SKU
+        throw new Error(`State for store ${storeId} could not be read; refusing to overwrite it with a partial batch`);
+      }
+      Object.assign(current, entries);
+      await this.writeState(storeId, current);
+    });
+  }
+
+  async stateExists(storeId: number): Promise<boolean> {
+    const filePath = this.getStatePath(storeId);
+    return await fs.pathExists(filePath);
+  }
+
+  async deleteState(storeId: number): Promise<void> {
+    const filePath = this.getStatePath(storeId);
+    try {
+      if (await fs.pathExists(filePath)) {
+        await fs.remove(filePath);
+        this.createdAt.delete(storeId);
+        this.entries.delete(storeId);
+        this.unreadable.delete(storeId);
+        this.fileStamps.delete(storeId);
+        logger.info(`State deleted for store ${storeId}`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to delete state for store ${storeId}: ${error.message}`);
+    }
+  }
+
+  async listStoreIds(): Promise<number[]> {
+    if (!(await fs.pathExists(this.stateDir))) {
+      return [];
+    }
+    return (await fs.readdir(this.stateDir))
+      .map(name => /^\.state-store-(\d+)\.json(\.bak)?$/.exec(name))
+      .filter((match): match is RegExpExecArray => match !== null)
+      .map(match => parseInt(match[1], 10))
+      .filter((id, index, ids) => ids.indexOf(id) === index)
+      .sort((a, b) => a - b);
+  }
+}
@@ -0,0 +1,99 @@
+import { resolveStoreSetting } from '../config/stores';
+import { FinaProductDetail, WoltMenuItem } from '../types';
+import { getAddFieldValue, resolveCategory } from './productFields';
+
+export interface MenuBuilderConfig {
+  imageField?: string;    // Fina add_field holding the image reference (URL or file name)
+  imageBaseUrl?: string;  // Prefix for image references that are not absolute URLs
+}
+
+export interface MenuItemSource {
+  sku: string;
+  product: FinaProductDetail;
+  price: number;          // After price rules
+  discountedPrice?: number;
+  vatPercentage?: number;
+  enabled: boolean;
+}
+
+export interface SkippedMenuItem {
+  sku: string;
+  finaId: number;
+  reason: string;
+}
+
+export interface MenuPushReport {
+  storeId: number;
+  venueId: string;
+  generatedAt: string;
+  dryRun: boolean;
+  catalogFetchedAt: string;
+  missingOnWolt: number;     // Fina SKUs not in the Wolt catalog
+  created: WoltMenuItem[];   // Sent (or, in dry-run, would be sent)
+  skipped: SkippedMenuItem[];
+  deferred: number;          // Over WOLT_CREATE_MAX_ITEMS; created on a later run
+  failed: string[];          // SKUs whose create batch was rejected
+  released: string[];        // Created SKUs taken out of the quarantine (it held them as unknown)
+}
+
+const ABSOLUTE_URL = /^https?:\/\//i;
+
+/**
+ * MenuItemBuilder - turns a Fina product into a Wolt menu item for SKUs that
+ * don't exist on Wolt yet: title as name, price after price rules, category
+ * from FINA_CATEGORY_FIELD and an image reference from FINA_IMAGE_FIELD.
+ * Products without a usable title or price are skipped with a reason.
+ */
+export class MenuItemBuilder {
+  constructor(private readonly storeId: number, private readonly config: MenuBuilderConfig) {}
+
+  static fromEnv(storeId: number): MenuItemBuilder {
+    return new MenuItemBuilder(storeId, {
+      imageField: resolveStoreSetting(storeId, 'FINA_IMAGE_FIELD') || undefined,
+      imageBaseUrl: resolveStoreSetting(storeId, 'WOLT_IMAGE_BASE_URL') || undefined
+    });
+  }
+
+  build(source: MenuItemSource): { item: WoltMenuItem } | { skipped: SkippedMenuItem } {
+    const skip = (reason: string) => ({ skipped: { sku: source.sku, finaId: source.product.id, reason } });
+
+    const name = typeof source.product.title === 'string' ? source.product.title.trim() : '';
+    if (!name) {
+      return skip('missing title');
+    }
+    if (!Number.isFinite(source.price) || source.price <= 0) {
+      return skip(`invalid price (${source.price})`);
+    }
+
+    const item: WoltMenuItem = { sku: source.sku, name, price: source.price, enabled: source.enabled };
+    if (source.discountedPrice !== undefined) {
+      item.discounted_price = source.discountedPrice;
+    }
+    if (source.vatPercentage !== undefined) {
+      item.vat_percentage = source.vatPercentage;
+    }
+    const category = resolveCategory(source.product, this.storeId);
+    if (category) {
+      item.category = category;
+    }
+    const imageUrl = this.resolveImageUrl(source.product);
+    if (imageUrl) {
+      item.image_url = imageUrl;
+    }
+    return { item };
+  }
+
+  private resolveImageUrl(product: FinaProductDetail): string | undefined {
+    const reference = this.config.imageField ? getAddFieldValue(product, this.config.imageField) : undefined;
+    if (!reference) {
+      return undefined;
+    }
+    if (ABSOLUTE_URL.test(reference)) {
+      return reference;
+    }
+    // Relative references are only usable with a base URL
+    return this.config.imageBaseUrl
+      ? `${this.config.imageBaseUrl.replace(/\/+$/, '')}/${reference.replace(/^\/+/, '')}`
+      : undefined;
+  }
+}
@@ -0,0 +1,202 @@
+import path from 'path';
+import { z } from 'zod';
+import { resolveStoreSetting } from '../config/stores';
+import { loadJsonConfig, resolveConfigPath } from '../config/configFile';
+import { FinaProductDetail } from '../types';
+import { logger } from '../utils/logger';
+import { resolveCategory } from './productFields';
+
+export const PRICE_RULES_VERSION = 1;
+const DEFAULT_PRICE_RULES_FILE = path.join('config', 'price-rules.json');
+
+const roundingSchema = z.object({
+  ending: z.number().min(0).lt(1).optional(), // psychological ending, e.g. 0.99 -> 12.99
+  step: z.number().positive().optional(),     // round to a multiple, e.g. 0.05
+  direction: z.enum(['up', 'down', 'nearest']).default('nearest')
+}).refine(r => (r.ending === undefined) !== (r.step === undefined), {
+  message: 'rounding needs exactly one of "ending" or "step"'
+});
+
+const ruleSchema = z.object({
+  markupPercent: z.number().gt(-100).optional(),
+  rounding: roundingSchema.optional(),
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().positive().optional()
+}).refine(r => r.minPrice === undefined || r.maxPrice === undefined || r.minPrice <= r.maxPrice, {
+  message: 'minPrice must not exceed maxPrice'
+});
+
+const storeRulesSchema = z.object({
+  markupPercent: z.number().gt(-100).optional(),
+  rounding: roundingSchema.optional(),
+  minPrice: z.number().nonnegative().optional(),
+  maxPrice: z.number().positive().optional(),
+  categories: z.record(ruleSchema).optional()
+});
+
+const promotionSchema = z.object({
+  name: z.string().min(1),
+  startsAt: z.string().datetime({ offset: true }),
+  endsAt: z.string().datetime({ offset: true }),
+  stores: z.array(z.number().int()).optional(),
+  categories: z.array(z.string()).optional(),
+  skus: z.array(z.string()).optional(),
+  discountPercent: z.number().gt(0).lt(100).optional(),
+  discountedPrice: z.number().nonnegative().optional()
+}).refine(p => (p.discountPercent === undefined) !== (p.discountedPrice === undefined), {
+  message: 'promotion needs exactly one of "discountPercent" or "discountedPrice"'
+}).refine(p => Date.parse(p.startsAt) < Date.parse(p.endsAt), {
+  message: 'promotion startsAt must be before endsAt'
+});
+
+export const priceRulesFileSchema = z.object({
+  version: z.literal(PRICE_RULES_VERSION),
+  defaults: ruleSchema.optional(),
+  categories: z.record(ruleSchema).optional(),
+  stores: z.record(z.string().regex(/^\d+$/, 'store keys must be Fina store IDs'), storeRulesSchema).optional(),
+  promotions: z.array(promotionSchema).optional()
+});
+
+export type PriceRulesFile = z.infer<typeof priceRulesFileSchema>;
+export type PriceRule = z.infer<typeof ruleSchema>;
+export type PriceRounding = z.infer<typeof roundingSchema>;
+export type Promotion = z.infer<typeof promotionSchema>;
+
+export interface PricedItem {
+  price: number;
+  discountedPrice?: number;
+  promotion?: string;
+}
+
+const roundCents = (value: number): number => Math.round(value * 100) / 100;
+
+export function applyRounding(value: number, rounding: PriceRounding): number {
+  const direction = rounding.direction || 'nearest';
+
+  if (rounding.step !== undefined) {
+    const units = value / rounding.step;
+    const epsilon = 1e-9;
+    const rounded = direction === 'up'
+      ? Math.ceil(units - epsilon)
+      : direction === 'down'
+        ? Math.floor(units + epsilon)
+        : Math.round(units);
+    return roundCents(rounded * rounding.step);
+  }
+
+  const ending = rounding.ending ?? 0;
+  const base = Math.floor(value);
+  const candidates = [base - 1 + ending, base + ending, base + 1 + ending]
+    .map(roundCents)
+    .filter(c => c >= 0);
+  const target = roundCents(value);
+
+  if (direction === 'up') {
+    return candidates.find(c => c >= target) ?? candidates[candidates.length - 1];
+  }
+  if (direction === 'down') {
+    const below = candidates.filter(c => c <= target);
+    return below.length > 0 ? below[below.length - 1] : candidates[0];
+  }
+  return candidates.reduce((best, c) => (Math.abs(c - target) < Math.abs(best - target) ? c : best));
+}
+
+export function loadPriceRules(filePath: string): PriceRulesFile | null {
+  return loadJsonConfig(filePath, priceRulesFileSchema, 'price rules');
+}
+
+/**
+ * PriceRuleEngine - transforms Fina prices into the prices sent to Wolt.
+ *
+ * Rule layers (later layers override earlier ones field by field):
+ *   defaults -> categories[category] -> stores[id] -> stores[id].categories[category]
+ * Markup is applied first, then rounding, then min/max clamps.
+ * The first active promotion matching store/category/SKU populates discountedPrice.
+ */
+export class PriceRuleEngine {
+  constructor(
+    private readonly storeId: number,
+    private readonly rules: PriceRulesFile | null
+  ) {}
+
+  static fromEnv(storeId: number): PriceRuleEngine {
+    const configured = resolveStoreSetting(storeId, 'PRICE_RULES_FILE') || DEFAULT_PRICE_RULES_FILE;
+    const filePath = resolveConfigPath(configured);
+    const rules = loadPriceRules(filePath);
+    if (rules) {
+      logger.debug(`[PriceRules] Loaded price rules v${rules.version} from ${filePath} for store ${storeId}`);
+    }
+    return new PriceRuleEngine(storeId, rules);
+  }
+
+  hasRules(): boolean {
+    return this.rules !== null;
+  }
+
+  private resolveRule(category?: string): PriceRule {
+    if (!this.rules) {
+      return {};
+    }
+    const storeRules = this.rules.stores?.[String(this.storeId)];
+    const { categories: storeCategories, ...storeLevel } = storeRules || {};
+    return {
+      ...(this.rules.defaults || {}),
+      ...(category ? this.rules.categories?.[category] || {} : {}),
+      ...storeLevel,
+      ...(category ? storeCategories?.[category] || {} : {})
+    };
+  }
+
+  private findPromotion(sku: string, category: string | undefined, now: number): Promotion | undefined {
+    return this.rules?.promotions?.find(promo => {
+      if (now < Date.parse(promo.startsAt) || now >= Date.parse(promo.endsAt)) return false;
+      if (promo.stores && !promo.stores.includes(this.storeId)) return false;
+      if (promo.categories && (!category || !promo.categories.includes(category))) return false;
+      if (promo.skus && !promo.skus.includes(sku)) return false;
+      return true;
+    });
+  }
+
+  apply(product: FinaProductDetail, sku: string, now: number = Date.now()): PricedItem {
+    if (!this.rules) {
+      return { price: product.price };
+    }
+
+    const category = resolveCategory(product, this.storeId);
+    const rule = this.resolveRule(category);
+
+    let price = product.price;
+    if (rule.markupPercent !== undefined) {
+      price = price * (1 + rule.markupPercent / 100);
+    }
+    if (rule.rounding) {
+      price = applyRounding(price, rule.rounding);
+    }
+    if (rule.minPrice !== undefined) {
+      price = Math.max(price, rule.minPrice);
+    }
+    if (rule.maxPrice !== undefined) {
+      price = Math.min(price, rule.maxPrice);
+    }
+    price = roundCents(price);
+
+    const promotion = this.findPromotion(sku, category, now);
+    if (!promotion) {
+      return { price };
+    }
+
+    let discounted = promotion.discountedPrice !== undefined
+      ? promotion.discountedPrice
+      : price * (1 - (promotion.discountPercent || 0) / 100);
+    if (rule.rounding) {
+      discounted = applyRounding(discounted, { ...rule.rounding, direction: 'down' });
+    }
+    discounted = roundCents(discounted);
+
+    // A "discount" that is not cheaper than the regular price is ignored.
+    if (discounted >= price) {
+      return { price };
+    }
+    return { price, discountedPrice: discounted, promotion: promotion.name };
+  }
+}
@@ -1,11 +1,13 @@
 import { FinaInventoryItem, FinaProductDetail } from '../types';
 import { logger } from '../utils/logger';
+import { SkuMappingResult } from './skuMapper';
 
 export interface PriorityScoredItem {
   id: number;
   rest: number;
   price: number;
   woltSku: string;
+  skuStrategy: string;
   priority: number;
   reason: string;
 }
@@ -85,7 +87,7 @@ export class PriorityScorer {
   scoreAndSort(
     inventory: FinaInventoryItem[],
     details: FinaProductDetail[],
-    finaIdToWoltSku: Map<number, string>
+    skuMapping: SkuMappingResult
   ): PriorityScoredItem[] {
     const detailMap = new Map(details.map(d => [d.id, d]));
     const scored: PriorityScoredItem[] = [];
@@ -94,7 +96,7 @@ export class PriorityScorer {
       const detail = detailMap.get(item.id);
       if (!detail) continue;
 
-      const woltSku = finaIdToWoltSku.get(item.id);
+      const woltSku = skuMapping.skus.get(item.id);
       if (!woltSku) continue;
 
       const { score, reason } = this.calculatePriority(item, detail);
@@ -104,6 +106,7 @@ export class PriorityScorer {
         rest: item.rest,
         price: detail.price,
         woltSku,
+        skuStrategy: skuMapping.strategies.get(item.id) || 'unknown',
         priority: score,
         reason
       });
@@ -0,0 +1,186 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { resolveStoreSetting } from '../config/stores';
+import { FinaInvalidProductRow } from '../adapters/finaSchemas';
+import { FinaProductDetail } from '../types';
+import { createStoreLogger } from '../utils/logger';
+
+export interface ProductDetailsResult {
+  products: FinaProductDetail[];
+  durationMs: number;
+  apiCalls: number;
+  invalidRows?: FinaInvalidProductRow[]; // Rows Fina returned that failed validation
+}
+
+export type ProductDetailsFetch = (ids: number[]) => Promise<ProductDetailsResult>;
+
+export interface ProductCacheStats {
+  requested: number;
+  hits: number;
+  misses: number;        // Not cached yet
+  expired: number;       // Cached longer than the TTL
+  stockChanged: number;  // Store stock differs from the stock seen when cached
+  contentChanged: number; // Re-fetched details whose content hash differs from the cached one
+  hitRate: number;       // hits / requested, 0..1
+}
+
+interface CacheEntry {
+  hash: string;
+  rest: number;
+  fetchedAt: number;
+  detail: FinaProductDetail;
+}
+
+const DEFAULT_TTL_MINUTES = 60;
+
+const cacheFileSchema = z.object({
+  storeId: z.number(),
+  entries: z.record(z.object({
+    hash: z.string(),
+    rest: z.number(),
+    fetchedAt: z.number(),
+    // Stored as received from Fina; only the key is checked
+    detail: z.custom<FinaProductDetail>(value => typeof value === 'object' && value !== null && typeof (value as { id?: unknown }).id === 'number')
+  }))
+});
+
+export const hashProductDetail = (detail: FinaProductDetail): string =>
+  crypto.createHash('sha256').update(JSON.stringify(detail)).digest('hex');
+
+/**
+ * ProductDetailCache - Fina product details per store, keyed by Fina ID, under
+ * state/product-cache/store-<id>.json. A cached product is reused while its
+ * store stock is unchanged and it is younger than FINA_DETAILS_CACHE_TTL_MINUTES,
+ * so a delta sync only re-fetches products that moved or expired instead of
+ * the whole catalog. TTL 0 disables the cache.
+ */
+export class ProductDetailCache {
+  private readonly cacheDir: string;
+
+  constructor(private readonly config: { ttlMs: number }) {
+    this.cacheDir = path.join(process.cwd(), 'state', 'product-cache');
+  }
+
+  static fromEnv(storeId: number): ProductDetailCache {
+    const minutes = parseFloat(resolveStoreSetting(storeId, 'FINA_DETAILS_CACHE_TTL_MINUTES') || '');
+    return new ProductDetailCache({
+      ttlMs: (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000
+    });
+  }
+
+  get enabled(): boolean {
+    return this.config.ttlMs > 0;
+  }
+
+  private getCachePath(storeId: number): string {
+    return path.join(this.cacheDir, `store-${storeId}.json`);
+  }
+
+  /**
+   * Details for ids: cached where still valid, fetched otherwise. refresh
+   * re-fetches every id (full sync, webhook events). complete means ids is
+   * the whole store inventory, so cached products outside it are dropped.
+   * readOnly uses the cache without writing fetched details back (previews).
+   */
+  async getDetails(
+    storeId: number,
+    ids: number[],
+    stock: Map<number, number>,
+    fetch: ProductDetailsFetch,
+    options: { refresh?: boolean; complete?: boolean; readOnly?: boolean } = {}
+  ): Promise<ProductDetailsResult & { cache: ProductCacheStats }> {
+    const log = createStoreLogger(storeId);
+    const stats: ProductCacheStats = { requested: ids.length, hits: 0, misses: 0, expired: 0, stockChanged: 0, contentChanged: 0, hitRate: 0 };
+    if (!this.enabled) {
+      const result = await fetch(ids);
+      return { ...result, cache: { ...stats, misses: ids.length } };
+    }
+
+    const now = Date.now();
+    const entries = await this.load(storeId);
+    const products: FinaProductDetail[] = [];
+    const toFetch: number[] = [];
+
+    for (const id of ids) {
+      const entry = entries.get(id);
+      const rest = stock.get(id) ?? 0;
+      if (!entry) {
+        stats.misses++;
+      } else if (now - entry.fetchedAt >= this.config.ttlMs) {
+        stats.expired++;
+      } else if (entry.rest !== rest) {
+        stats.stockChanged++;
+      } else if (!options.refresh) {
+        stats.hits++;
+        products.push(entry.detail);
+        continue;
+      }
+      toFetch.push(id);
+    }
+
+    const fetched: ProductDetailsResult = toFetch.length > 0 ? await fetch(toFetch) : { products: [], durationMs: 0, apiCalls: 0 };
+    for (const detail of fetched.products) {
+      const hash = hashProductDetail(detail);
+      const previous = entries.get(detail.id);
+      if (previous && previous.hash !== hash) {
+        stats.contentChanged++;
+      }
+      entries.set(detail.id, { hash, rest: stock.get(detail.id) ?? 0, fetchedAt: now, detail });
+      products.push(detail);
+    }
+
+    if (options.complete) {
+      const wanted = new Set(ids);
+      for (const id of entries.keys()) {
+        if (!wanted.has(id)) {
+          entries.delete(id);
+        }
+      }
+    }
+    if (!options.readOnly) {
+      await this.save(storeId, entries);
+    }
+
+    stats.hitRate = ids.length > 0 ? stats.hits / ids.length : 0;
+    log.info(`[ProductCache] ${stats.hits}/${ids.length} details from cache (${stats.misses} new, ${stats.expired} expired, ${stats.stockChanged} stock changed); fetched ${fetched.products.length}/${toFetch.length}, ${stats.contentChanged} with changed content`);
+    return { products, durationMs: fetched.durationMs, apiCalls: fetched.apiCalls, invalidRows: fetched.invalidRows, cache: stats };
+  }
+
+  async invalidate(storeId: number): Promise<void> {
+    await fs.remove(this.getCachePath(storeId));
+  }
+
+  private async load(storeId: number): Promise<Map<number, CacheEntry>> {
+    const filePath = this.getCachePath(storeId);
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return new Map();
+      }
+      const parsed = cacheFileSchema.safeParse(await fs.readJson(filePath));
+      if (!parsed.success || parsed.data.storeId !== storeId) {
+        createStoreLogger(storeId).warn('[ProductCache] Ignoring unreadable product cache; fetching all details');
+        return new Map();
+      }
+      return new Map(Object.values(parsed.data.entries).map(entry => [entry.detail.id, entry]));
+    } catch (error: any) {
+      createStoreLogger(storeId).warn(`[ProductCache] Failed to read product cache: ${error.message}`);
+      return new Map();
+    }
+  }
+
+  private async save(storeId: number, entries: Map<number, CacheEntry>): Promise<void> {
+    const filePath = this.getCachePath(storeId);
+    const tempPath = `${filePath}.tmp`;
+    try {
+      await fs.ensureDir(this.cacheDir);
+      await fs.writeJson(tempPath, { storeId, entries: Object.fromEntries(entries) });
+      await fs.move(tempPath, filePath, { overwrite: true });
+    } catch (error: any) {
+      // The cache only saves API calls; a failed write means the next run fetches more
+      createStoreLogger(storeId).warn(`[ProductCache] Failed to save product cache: ${error.message}`);
+      await fs.remove(tempPath).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { resolveStoreSetting } from '../config/stores';
+import { FinaProductDetail } from '../types';
+
+/**
+ * Read a Fina add_field value exactly as Fina sent it. Returns undefined when
+ * the field is missing, empty, or add_fields is not an array. The default SKU
+ * mapping uses this so existing state keys and Wolt SKUs don't change.
+ */
+export function getRawAddFieldValue(product: FinaProductDetail, field: string): string | undefined {
+  // Safety check: ensure add_fields exists and is an array
+  if (!Array.isArray(product.add_fields)) {
+    return undefined;
+  }
+  const entry = product.add_fields.find(f => f && f.field === field);
+  return entry && entry.value ? String(entry.value) : undefined;
+}
+
+/**
+ * Read a Fina add_field value (trimmed). Returns undefined when the field is
+ * missing, empty, or add_fields is not an array.
+ */
+export function getAddFieldValue(product: FinaProductDetail, field: string): string | undefined {
+  return getRawAddFieldValue(product, field)?.trim() || undefined;
+}
+
+/**
+ * Resolve the product category used by per-category rules.
+ * Fina has no dedicated category column, so it is read from the add_field
+ * named by FINA_CATEGORY_FIELD (per-store override: STORE_<ID>_FINA_CATEGORY_FIELD).
+ */
+export function resolveCategory(product: FinaProductDetail, storeId: number): string | undefined {
+  const field = resolveStoreSetting(storeId, 'FINA_CATEGORY_FIELD');
+  return field ? getAddFieldValue(product, field) : undefined;
+}
@@ -0,0 +1,181 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { WoltApiResult } from '../adapters/wolt';
+import { WoltBatchRejectedError, WoltItemErrorKind, isEndpointRejection } from '../adapters/woltErrors';
+import { updateJsonFileSync } from '../utils/fileLock';
+import { logger } from '../utils/logger';
+import { AuditEndpoint } from './auditJournal';
+
+export interface QuarantineEntry {
+  sku: string;
+  kind: WoltItemErrorKind;
+  reason: string;
+  endpoint: AuditEndpoint;
+  httpStatus: number;
+  quarantinedAt: string;
+  runId?: string;
+}
+
+export interface RejectedSku {
+  sku: string;
+  kind: WoltItemErrorKind;
+  reason: string;
+  httpStatus: number;
+}
+
+interface QuarantineFile {
+  storeId: number;
+  entries: Record<string, QuarantineEntry>;
+}
+
+export class RejectionLimitError extends Error {
+  constructor(message: string, public readonly rejected: RejectedSku[]) {
+    super(message);
+    this.name = 'RejectionLimitError';
+  }
+}
+
+// Share of a batch Wolt may reject before the whole batch is treated as an endpoint problem
+const DEFAULT_MAX_REJECTED_SHARE = 0.5;
+
+const resolveMaxRejectedShare = (): number => {
+  const value = parseFloat(process.env.WOLT_MAX_REJECTED_SHARE || '');
+  return Number.isFinite(value) && value > 0 && value <= 1 ? value : DEFAULT_MAX_REJECTED_SHARE;
+};
+
+/**
+ * Send a batch; when Wolt rejects it, drop the SKUs it names and resend the
+ * rest. Rejections that name no SKU are bisected until the offending SKUs
+ * are isolated, so one bad SKU costs about 2*log2(batch) extra calls instead
+ * of the whole batch. Other errors (network, 5xx after retries, auth) and
+ * endpoint rejections (400/404 naming no SKU) propagate. Once more than
+ * maxRejectedShare of the batch is rejected (WOLT_MAX_REJECTED_SHARE, default
+ * 0.5) the isolation stops with a RejectionLimitError rather than quarantining
+ * the catalog.
+ */
+export async function sendIsolatingRejects<T extends { sku: string }>(
+  batch: T[],
+  send: (items: T[]) => Promise<WoltApiResult>,
+  options: { maxRejectedShare?: number } = {}
+): Promise<{ accepted: T[]; rejected: RejectedSku[]; results: WoltApiResult[] }> {
+  const accepted: T[] = [];
+  const rejected: RejectedSku[] = [];
+  const results: WoltApiResult[] = [];
+  const maxRejected = Math.max(1, Math.floor(batch.length * (options.maxRejectedShare ?? resolveMaxRejectedShare())));
+
+  const reject = (...skus: RejectedSku[]) => {
+    rejected.push(...skus);
+    if (rejected.length > maxRejected) {
+      throw new RejectionLimitError(
+        `Wolt rejected ${rejected.length} of ${batch.length} SKUs in one batch (limit ${maxRejected}); not quarantining, check the venue and payload`,
+        rejected
+      );
+    }
+  };
+
+  const attempt = async (items: T[]): Promise<void> => {
+    if (items.length === 0) {
+      return;
+    }
+    try {
+      results.push(await send(items));
+      accepted.push(...items);
+    } catch (error) {
+      if (!(error instanceof WoltBatchRejectedError)) {
+        throw error;
+      }
+      const skus = new Set(items.map(item => item.sku));
+      const named = error.itemErrors.filter(itemError => skus.has(itemError.sku));
+      if (isEndpointRejection(error.status, named)) {
+        throw error;
+      }
+      if (named.length > 0) {
+        reject(...named.map(itemError => ({ ...itemError, httpStatus: error.status })));
+        const namedSkus = new Set(named.map(itemError => itemError.sku));
+        await attempt(items.filter(item => !namedSkus.has(item.sku)));
+      } else if (items.length === 1) {
+        reject({
+          sku: items[0].sku,
+          kind: 'validation',
+          reason: error.message,
+          httpStatus: error.status
+        });
+      } else {
+        const middle = Math.ceil(items.length / 2);
+        await attempt(items.slice(0, middle));
+        await attempt(items.slice(middle));
+      }
+    }
+  };
+
+  await attempt(batch);
+  return { accepted, rejected, results };
+}
+
+// Quarantine entries for the SKUs one endpoint rejected during a run
+export function toQuarantineEntries(rejected: RejectedSku[], endpoint: AuditEndpoint, runId?: string): QuarantineEntry[] {
+  const quarantinedAt = new Date().toISOString();
+  return rejected.map(({ sku, kind, reason, httpStatus }) => ({ sku, kind, reason, endpoint, httpStatus, quarantinedAt, runId }));
+}
+
+/**
+ * QuarantineStore - SKUs Wolt rejected (unknown SKU, validation error), kept
+ * under state/quarantine/store-<id>.json. Quarantined SKUs are left out of
+ * every delta until released with "wolt-cli quarantine release". Writes are
+ * locked, so PM2 store processes and the CLI can share the file.
+ */
+export class QuarantineStore {
+  private readonly quarantineDir: string;
+
+  constructor() {
+    this.quarantineDir = path.join(process.cwd(), 'state', 'quarantine');
+  }
+
+  private getQuarantinePath(storeId: number): string {
+    return path.join(this.quarantineDir, `store-${storeId}.json`);
+  }
+
+  async list(storeId: number): Promise<QuarantineEntry[]> {
+    const filePath = this.getQuarantinePath(storeId);
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return [];
+      }
+      const file: QuarantineFile = await fs.readJson(filePath);
+      return Object.values(file.entries || {}).sort((a, b) => a.sku.localeCompare(b.sku));
+    } catch (error: any) {
+      logger.error(`[Quarantine] Failed to read quarantine for store ${storeId}: ${error.message}`);
+      return [];
+    }
+  }
+
+  async skus(storeId: number): Promise<Set<string>> {
+    return new Set((await this.list(storeId)).map(entry => entry.sku));
+  }
+
+  async add(storeId: number, entries: QuarantineEntry[]): Promise<void> {
+    if (entries.length === 0) {
+      return;
+    }
+    updateJsonFileSync<QuarantineFile>(this.getQuarantinePath(storeId), { storeId, entries: {} }, current => {
+      const next = { storeId, entries: { ...(current.entries || {}) } };
+      entries.forEach(entry => { next.entries[entry.sku] = entry; });
+      return next;
+    });
+    logger.warn(`[Quarantine] Store ${storeId}: quarantined ${entries.map(entry => entry.sku).join(', ')}`);
+  }
+
+  /**
+   * Release the given SKUs (all when omitted). Returns the SKUs actually released.
+   */
+  async release(storeId: number, skus?: string[]): Promise<string[]> {
+    let released: string[] = [];
+    updateJsonFileSync<QuarantineFile>(this.getQuarantinePath(storeId), { storeId, entries: {} }, current => {
+      const entries = { ...(current.entries || {}) };
+      released = (skus ?? Object.keys(entries)).filter(sku => sku in entries);
+      released.forEach(sku => delete entries[sku]);
+      return { storeId, entries };
+    });
+    return released;
+  }
+}
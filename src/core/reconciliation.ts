@@ -0,0 +1,165 @@
+import { WoltCatalogItem } from '../adapters/woltCatalog';
+import { resolveStoreSetting } from '../config/stores';
+import { SyncState, SyncStateEntry, WoltInventoryItem, WoltItemUpdate } from '../types';
+import { SyncDelta } from './syncPlan';
+
+export type ReconcileMode = 'off' | 'report' | 'heal';
+
+export type DriftKind = 'availability' | 'price' | 'inventory' | 'unknown_on_wolt' | 'missing_on_wolt';
+
+export type DriftField = 'enabled' | 'price' | 'discountedPrice' | 'quantity';
+
+export interface ReconcileConfig {
+  mode: ReconcileMode;
+  healBudget: number;     // Max SKUs sent to Wolt per reconciliation run
+  compareFina: boolean;   // Also compute live Fina values (a full Fina pull) and heal towards them
+}
+
+export interface DriftEntry {
+  sku: string;
+  kind: DriftKind;
+  field?: DriftField;
+  wolt?: unknown;   // Live value on Wolt
+  state?: unknown;  // Value we believe Wolt has (SyncState)
+  fina?: unknown;   // Value the current Fina data yields (only with compareFina)
+  healed?: boolean;
+}
+
+export interface DriftReport {
+  storeId: number;
+  venueId: string;
+  generatedAt: string;
+  mode: 'report' | 'heal';
+  comparedFina: boolean;
+  catalogFetchedAt: string;
+  woltItems: number;
+  stateEntries: number;
+  counts: Record<DriftKind, number>;
+  healed: number;    // SKUs sent to Wolt
+  deferred: number;  // Healable SKUs left for the next run (over the heal budget)
+  drift: DriftEntry[];
+}
+
+const DEFAULT_HEAL_BUDGET = 100;
+const HEALABLE: DriftKind[] = ['availability', 'price', 'inventory']; // Heal order: selling unavailable items is worst
+
+export function resolveReconcileConfig(storeId: number): ReconcileConfig {
+  const mode = (resolveStoreSetting(storeId, 'RECONCILE_MODE') || 'off').trim().toLowerCase();
+  const budget = parseInt(resolveStoreSetting(storeId, 'RECONCILE_HEAL_BUDGET') || '', 10);
+  return {
+    mode: mode === 'report' || mode === 'heal' ? mode : 'off',
+    healBudget: Number.isFinite(budget) && budget >= 0 ? budget : DEFAULT_HEAL_BUDGET,
+    compareFina: (resolveStoreSetting(storeId, 'RECONCILE_COMPARE_FINA') || 'false').toLowerCase() === 'true'
+  };
+}
+
+export const emptyDriftCounts = (): Record<DriftKind, number> =>
+  ({ availability: 0, price: 0, inventory: 0, unknown_on_wolt: 0, missing_on_wolt: 0 });
+
+/**
+ * Differences between the live Wolt catalog and what the state says we sent.
+ *
+ * Fina values (when given) are attached for context and decide whether a SKU
+ * on Wolt but not in state is still unknown: SKUs Fina has are simply not
+ * synced yet and are left to the next sync. Fields Wolt omits are not compared.
+ */
+export function detectDrift(state: SyncState, woltItems: WoltCatalogItem[], fina?: SyncState | null): DriftEntry[] {
+  const drift: DriftEntry[] = [];
+  const live = new Map(woltItems.map(item => [item.sku, item]));
+
+  for (const sku of [...new Set([...Object.keys(state), ...live.keys()])].sort()) {
+    const entry = state[sku];
+    const item = live.get(sku);
+    const finaEntry = fina?.[sku];
+
+    if (!entry) {
+      if (!finaEntry) {
+        drift.push({ sku, kind: 'unknown_on_wolt', wolt: item?.enabled });
+      }
+      continue;
+    }
+    if (!item) {
+      drift.push({ sku, kind: 'missing_on_wolt', state: entry.enabled, fina: finaEntry?.enabled });
+      continue;
+    }
+
+    const compare = (kind: DriftKind, field: DriftField, woltValue: unknown, always: boolean = false) => {
+      if ((always || woltValue !== undefined) && woltValue !== entry[field]) {
+        drift.push({ sku, kind, field, wolt: woltValue, state: entry[field], fina: finaEntry?.[field] });
+      }
+    };
+    compare('availability', 'enabled', item.enabled);
+    compare('price', 'price', item.price);
+    // A missing discounted_price on Wolt means "no promotion", so it is compared even when absent
+    compare('price', 'discountedPrice', item.discountedPrice, item.price !== undefined);
+    compare('inventory', 'quantity', item.inventory);
+  }
+  return drift;
+}
+
+export function countDrift(drift: DriftEntry[]): Record<DriftKind, number> {
+  const counts = emptyDriftCounts();
+  drift.forEach(entry => counts[entry.kind]++);
+  return counts;
+}
+
+/**
+ * Delta that puts the drifted fields back to their expected values (Fina when
+ * compared, otherwise the state), for at most `budget` SKUs. Drifted entries
+ * that fit the budget are marked healed. Only the healed fields change in
+ * newState, so values that were not sent are still picked up by the next sync.
+ */
+export function buildHealDelta(
+  state: SyncState,
+  drift: DriftEntry[],
+  budget: number,
+  fina?: SyncState | null
+): { delta: SyncDelta; healedSkus: string[]; deferredSkus: string[] } {
+  const healable = HEALABLE.flatMap(kind => drift.filter(entry => entry.kind === kind));
+  const ordered = [...new Set(healable.map(entry => entry.sku))];
+  const healedSkus = ordered.slice(0, budget);
+  const healSet = new Set(healedSkus);
+
+  const itemUpdates: WoltItemUpdate[] = [];
+  const inventoryUpdates: WoltInventoryItem[] = [];
+  const newState: SyncState = { ...state };
+
+  for (const sku of healedSkus) {
+    const entries = healable.filter(entry => entry.sku === sku);
+    const target: SyncStateEntry = fina?.[sku] ?? state[sku];
+    const healed: SyncStateEntry = { ...state[sku] };
+
+    if (entries.some(entry => entry.kind === 'availability' || entry.kind === 'price')) {
+      const update: WoltItemUpdate = { sku, enabled: target.enabled };
+      if (target.price !== undefined) {
+        update.price = target.price;
+      }
+      if (target.discountedPrice !== undefined) {
+        update.discounted_price = target.discountedPrice;
+      } else if (entries.some(entry => entry.field === 'discountedPrice')) {
+        update.discounted_price = null;
+      }
+      itemUpdates.push(update);
+      healed.enabled = target.enabled;
+      healed.price = target.price;
+      healed.discountedPrice = target.discountedPrice;
+    }
+    if (entries.some(entry => entry.kind === 'inventory')) {
+      inventoryUpdates.push({ sku, inventory: target.quantity });
+      healed.quantity = target.quantity;
+    }
+    newState[sku] = healed;
+  }
+
+  drift.forEach(entry => {
+    if (healSet.has(entry.sku) && HEALABLE.includes(entry.kind)) {
+      entry.healed = true;
+    }
+  });
+
+  return {
+    delta: { itemUpdates, inventoryUpdates, newState },
+    healedSkus,
+    deferredSkus: ordered.slice(budget)
+  };
+}
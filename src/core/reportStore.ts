@@ -0,0 +1,56 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export type ReportKind = 'sku-mapping' | 'sku-conflicts' | 'drift' | 'menu-push' | 'fina-invalid';
+
+/**
+ * Persists per-store sync reports under state/reports so they survive restarts
+ * and can be served by the HTTP API or printed from the CLI.
+ */
+export class ReportStore {
+  private readonly reportDir: string;
+
+  constructor() {
+    this.reportDir = path.join(process.cwd(), 'state', 'reports');
+  }
+
+  private getReportPath(storeId: number, kind: ReportKind): string {
+    return path.join(this.reportDir, `${kind}-store-${storeId}.json`);
+  }
+
+  async save<T>(storeId: number, kind: ReportKind, report: T): Promise<void> {
+    const filePath = this.getReportPath(storeId, kind);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      await fs.ensureDir(this.reportDir);
+      await fs.writeJson(tempPath, report, { spaces: 2 });
+      await fs.move(tempPath, filePath, { overwrite: true });
+      logger.debug(`Report ${kind} saved for store ${storeId}`);
+    } catch (error: any) {
+      // Reports are diagnostics only; never fail a sync because of them.
+      logger.warn(`Failed to save ${kind} report for store ${storeId}: ${error.message}`);
+      try {
+        if (await fs.pathExists(tempPath)) {
+          await fs.remove(tempPath);
+        }
+      } catch {
+        // Ignore cleanup errors
+      }
+    }
+  }
+
+  async load<T>(storeId: number, kind: ReportKind): Promise<T | null> {
+    const filePath = this.getReportPath(storeId, kind);
+    try {
+      if (!(await fs.pathExists(filePath))) {
+        return null;
+      }
+      return await fs.readJson(filePath);
+    } catch (error: any) {
+      logger.error(`Failed to load ${kind} report for store ${storeId}: ${error.message}`);
+      return null;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import { resolveStoreSetting } from '../config/stores';
+import { logger } from '../utils/logger';
+
+export type DuplicateSkuPolicy = 'sum' | 'max' | 'first' | 'reject';
+
+const DUPLICATE_POLICIES: DuplicateSkuPolicy[] = ['sum', 'max', 'first', 'reject'];
+
+export interface SkuCandidate {
+  finaId: number;
+  title: string;
+  price: number;
+  quantity: number;
+  enabled: boolean;
+}
+
+export interface SkuConflict {
+  sku: string;
+  resolution: DuplicateSkuPolicy;
+  products: Array<{ finaId: number; title: string; price: number; quantity: number }>;
+}
+
+export interface SkuConflictReport {
+  storeId: number;
+  generatedAt: string;
+  policy: DuplicateSkuPolicy;
+  conflictCount: number;
+  conflicts: SkuConflict[];
+}
+
+export interface ResolvedSku {
+  finaId: number; // Product whose price (and category) is used for the SKU
+  quantity: number;
+  price: number;
+  enabled: boolean;
+}
+
+export function resolveDuplicatePolicy(storeId: number): DuplicateSkuPolicy {
+  const raw = (resolveStoreSetting(storeId, 'DUPLICATE_SKU_POLICY') || 'sum').toLowerCase();
+  if (DUPLICATE_POLICIES.includes(raw as DuplicateSkuPolicy)) {
+    return raw as DuplicateSkuPolicy;
+  }
+  logger.warn(`[SkuConflicts] Unknown DUPLICATE_SKU_POLICY "${raw}" for store ${storeId}. Falling back to "sum".`);
+  return 'sum';
+}
+
+/**
+ * Collapse all Fina products that map to the same Wolt SKU into one value.
+ * - sum:    quantities are added, the last product's price is used (legacy behaviour)
+ * - max:    the product with the highest stock wins (quantity and price)
+ * - first:  the first product in the Fina feed wins
+ * - reject: the SKU is not synced at all while the conflict exists (returns null)
+ */
+export function resolveSkuCandidates(
+  candidates: SkuCandidate[],
+  policy: DuplicateSkuPolicy
+): ResolvedSku | null {
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  if (candidates.length === 1) {
+    const [only] = candidates;
+    return { finaId: only.finaId, quantity: only.quantity, price: only.price, enabled: only.enabled };
+  }
+
+  switch (policy) {
+    case 'reject':
+      return null;
+    case 'first': {
+      const [first] = candidates;
+      return { finaId: first.finaId, quantity: first.quantity, price: first.price, enabled: first.enabled };
+    }
+    case 'max': {
+      const best = candidates.reduce((a, b) => (b.quantity > a.quantity ? b : a));
+      return { finaId: best.finaId, quantity: best.quantity, price: best.price, enabled: best.enabled };
+    }
+    case 'sum':
+    default: {
+      const quantity = candidates.reduce((sum, c) => sum + c.quantity, 0);
+      const last = candidates[candidates.length - 1];
+      return { finaId: last.finaId, quantity, price: last.price, enabled: quantity > 0 };
+    }
+  }
+}
+
+export function buildConflict(sku: string, candidates: SkuCandidate[], policy: DuplicateSkuPolicy): SkuConflict {
+  return {
+    sku,
+    resolution: policy,
+    products: candidates.map(c => ({ finaId: c.finaId, title: c.title, price: c.price, quantity: c.quantity }))
+  };
+}
@@ -0,0 +1,229 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { SyncState } from '../types';
+import { updateJsonFileSync } from '../utils/fileLock';
+import { logger } from '../utils/logger';
+import { SyncDelta } from './syncPlan';
+
+/**
+ * ignore:        never sent to Wolt (Wolt keeps whatever it has)
+ * force-disable: sent as unavailable with stock 0, whatever Fina says
+ * force-enable:  sent as available even when Fina has no stock (never without a valid price)
+ */
+export type SkuControlAction = 'ignore' | 'force-disable' | 'force-enable';
+
+export const SKU_CONTROL_ACTIONS: SkuControlAction[] = ['ignore', 'force-disable', 'force-enable'];
+
+export interface SkuControl {
+  sku: string;
+  action: SkuControlAction;
+  reason: string;
+  createdAt: string;
+  expiresAt?: string; // Control is dropped after this time; the next sync sends Fina values again
+}
+
+interface SkuControlFile {
+  storeId: number;
+  entries: Record<string, SkuControl>;
+}
+
+const isActive = (control: SkuControl, now: number): boolean =>
+  !control.expiresAt || Date.parse(control.expiresAt) > now;
+
+/**
+ * Validate operator input (CLI or admin HTTP) and build the controls to store.
+ */
+export function buildSkuControls(
+  skus: string[],
+  action: string,
+  reason: string | undefined,
+  expiresAt?: number,
+  now: number = Date.now()
+): SkuControl[] {
+  if (!SKU_CONTROL_ACTIONS.includes(action as SkuControlAction)) {
+    throw new Error(`Unknown SKU control "${action}". Use ${SKU_CONTROL_ACTIONS.join(', ')}.`);
+  }
+  const cleaned = [...new Set(skus.map(sku => String(sku).trim()).filter(Boolean))];
+  if (cleaned.length === 0) {
+    throw new Error('At least one SKU is required.');
+  }
+  if (!reason || !reason.trim()) {
+    throw new Error('A reason is required.');
+  }
+  if (expiresAt !== undefined && !(expiresAt > now)) {
+    throw new Error('Expiry must be in the future.');
+  }
+  return cleaned.map(sku => ({
+    sku,
+    action: action as SkuControlAction,
+    reason: reason.trim(),
+    createdAt: new Date(now).toISOString(),
+    ...(expiresAt !== undefined ? { expiresAt: new Date(expiresAt).toISOString() } : {})
+  }));
+}
+
+/**
+ * The active (non-expired) controls of a store, as applied by the sync pipelines.
+ */
+export class SkuControlSet {
+  readonly ignored: Set<string>;
+  private readonly forced = new Map<string, SkuControl>();
+
+  constructor(controls: SkuControl[] = []) {
+    this.ignored = new Set(controls.filter(control => control.action === 'ignore').map(control => control.sku));
+    controls.filter(control => control.action !== 'ignore').forEach(control => this.forced.set(control.sku, control));
+  }
+
+  get size(): number {
+    return this.ignored.size + this.forced.size;
+  }
+
+  get forcedCount(): number {
+    return this.forced.size;
+  }
+
+  isIgnored(sku: string): boolean {
+    return this.ignored.has(sku);
+  }
+
+  /**
+   * The control forcing this SKU's availability, if any.
+   */
+  forcedControl(sku: string): SkuControl | undefined {
+    return this.forced.get(sku);
+  }
+
+  /**
+   * Values to send for a SKU after its forced availability (unchanged when not forced).
+   */
+  apply<T extends { quantity: number; enabled: boolean; price?: number }>(sku: string, data: T): T {
+    const control = this.forced.get(sku);
+    if (control?.action === 'force-disable') {
+      return { ...data, enabled: false, quantity: 0 };
+    }
+    if (control?.action === 'force-enable' && typeof data.price === 'number' && data.price >= 0) {
+      return { ...data, enabled: true };
+    }
+    return data;
+  }
+
+  /**
+   * Apply the controls to a precomputed delta (plan, approval, restore, heal):
+   * ignored SKUs are dropped and keep their previous state entry, forced SKUs
+   * are sent and stored with their forced availability.
+   */
+  enforce(delta: SyncDelta, previousState: SyncState): SyncDelta {
+    if (this.size === 0) {
+      return delta;
+    }
+    const newState: SyncState = { ...delta.newState };
+    for (const sku of this.ignored) {
+      if (previousState[sku]) {
+        newState[sku] = { ...previousState[sku] };
+      } else {
+        delete newState[sku];
+      }
+    }
+    for (const sku of this.forced.keys()) {
+      if (newState[sku]) {
+        newState[sku] = this.apply(sku, newState[sku]);
+      }
+    }
+
+    const itemUpdates = delta.itemUpdates
+      .filter(update => !this.ignored.has(update.sku))
+      .map(update => {
+        const forced = newState[update.sku] && this.forced.has(update.sku) ? newState[update.sku] : undefined;
+        return forced ? { ...update, enabled: forced.enabled } : update;
+      });
+    const inventoryUpdates = delta.inventoryUpdates
+      .filter(update => !this.ignored.has(update.sku))
+      .map(update => this.forced.get(update.sku)?.action === 'force-disable' ? { ...update, inventory: 0 } : update);
+
+    return { itemUpdates, inventoryUpdates, newState };
+  }
+}
+
+/**
+ * SkuControlStore - per-store operator overrides (ignore, force-disable,
+ * force-enable) with a reason and optional expiry, kept under
+ * state/sku-controls/store-<id>.json. Managed with "wolt-cli sku" or the
+ * admin HTTP routes; writes are locked so store processes and the CLI can
+ * share the file. Expired controls are ignored and pruned on the next write.
+ */
+export class SkuControlStore {
+  private readonly controlsDir: string;
+
+  constructor() {
+    this.controlsDir = path.join(process.cwd(), 'state', 'sku-controls');
+  }
+
+  private getControlsPath(storeId: number): string {
+    return path.join(this.controlsDir, `store-${storeId}.json`);
+  }
+
+  /**
+   * All stored controls, sorted by SKU (expired ones only with includeExpired).
+   * Throws when the file can't be read: syncing without its force-disable
+   * controls would put those SKUs back on sale.
+   */
+  async list(storeId: number, options: { includeExpired?: boolean; now?: number } = {}): Promise<SkuControl[]> {
+    const filePath = this.getControlsPath(storeId);
+    const now = options.now ?? Date.now();
+    if (!(await fs.pathExists(filePath))) {
+      return [];
+    }
+    let file: SkuControlFile;
+    try {
+      file = await fs.readJson(filePath);
+    } catch (error: any) {
+      logger.error(`[SkuControls] Failed to read SKU controls for store ${storeId}: ${error.message}`);
+      throw new Error(`SKU controls for store ${storeId} could not be read (${filePath}): ${error.message}`);
+    }
+    return Object.values(file.entries || {})
+      .filter(control => options.includeExpired || isActive(control, now))
+      .sort((a, b) => a.sku.localeCompare(b.sku));
+  }
+
+  async active(storeId: number, now: number = Date.now()): Promise<SkuControlSet> {
+    return new SkuControlSet(await this.list(storeId, { now }));
+  }
+
+  /**
+   * Store controls, replacing any existing control for the same SKU.
+   */
+  async set(storeId: number, controls: SkuControl[]): Promise<void> {
+    if (controls.length === 0) {
+      return;
+    }
+    const now = Date.now();
+    updateJsonFileSync<SkuControlFile>(this.getControlsPath(storeId), { storeId, entries: {} }, current => {
+      const entries = this.withoutExpired(current.entries, now);
+      controls.forEach(control => { entries[control.sku] = control; });
+      return { storeId, entries };
+    });
+    logger.info(`[SkuControls] Store ${storeId}: ${controls[0].action} ${controls.map(control => control.sku).join(', ')} (${controls[0].reason})`);
+  }
+
+  /**
+   * Remove the controls of the given SKUs (all when omitted). Returns the SKUs released.
+   */
+  async release(storeId: number, skus?: string[]): Promise<string[]> {
+    let released: string[] = [];
+    const now = Date.now();
+    updateJsonFileSync<SkuControlFile>(this.getControlsPath(storeId), { storeId, entries: {} }, current => {
+      const entries = this.withoutExpired(current.entries, now);
+      released = (skus ?? Object.keys(entries)).filter(sku => sku in entries);
+      released.forEach(sku => delete entries[sku]);
+      return { storeId, entries };
+    });
+    if (released.length > 0) {
+      logger.info(`[SkuControls] Store ${storeId}: released ${released.join(', ')}`);
+    }
+    return released;
+  }
+
+  private withoutExpired(entries: Record<string, SkuControl> | undefined, now: number): Record<string, SkuControl> {
+    return Object.fromEntries(Object.entries(entries || {}).filter(([, control]) => isActive(control, now)));
+  }
+}
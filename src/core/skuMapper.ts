@@ -0,0 +1,242 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { parseBoolean, resolveStoreSetting } from '../config/stores';
+import { FinaProductDetail } from '../types';
+import { logger } from '../utils/logger';
+import { getRawAddFieldValue } from './productFields';
+
+export type SkuStrategyType = 'override' | 'add_field' | 'barcode' | 'fina_id';
+
+export interface SkuStrategy {
+  type: SkuStrategyType;
+  field?: string; // add_field name (only for type 'add_field')
+}
+
+export interface SkuMapperConfig {
+  strategies: SkuStrategy[];
+  prefix: string;
+  suffix: string;
+  trim: boolean;  // Trim add_field values; off by default so SKUs stay as Fina stores them
+  overridesFile?: string;
+}
+
+export interface SkuMappingResult {
+  skus: Map<number, string>;         // Fina ID -> Wolt SKU
+  strategies: Map<number, string>;   // Fina ID -> strategy label that resolved it
+  strategyCounts: Record<string, number>;
+  unmapped: number;
+}
+
+export interface SkuMappingReport {
+  storeId: number;
+  generatedAt: string;
+  strategyCounts: Record<string, number>;
+  unmapped: number;
+  entries: Array<{ finaId: number; sku: string; strategy: string }>;
+}
+
+// Legacy behaviour inherited from the Glovo project
+export const DEFAULT_SKU_FIELD = 'usr_column_514';
+
+export function parseStrategies(raw: string | undefined): SkuStrategy[] {
+  if (!raw) {
+    return [{ type: 'add_field', field: DEFAULT_SKU_FIELD }];
+  }
+
+  const strategies: SkuStrategy[] = [];
+  for (const token of raw.split(',').map(t => t.trim()).filter(Boolean)) {
+    const [type, field] = token.split(':').map(part => part.trim());
+    switch (type) {
+      case 'override':
+      case 'barcode':
+      case 'fina_id':
+        strategies.push({ type });
+        break;
+      case 'add_field':
+        strategies.push({ type, field: field || DEFAULT_SKU_FIELD });
+        break;
+      default:
+        logger.warn(`[SkuMapper] Unknown SKU strategy "${token}". Ignoring.`);
+    }
+  }
+
+  return strategies.length > 0 ? strategies : [{ type: 'add_field', field: DEFAULT_SKU_FIELD }];
+}
+
+export function formatStrategyCounts(counts: Record<string, number>): string {
+  const parts = Object.entries(counts).map(([name, count]) => `${name}=${count}`);
+  return parts.length > 0 ? parts.join(', ') : 'none';
+}
+
+/**
+ * Parse an override table. Supported formats:
+ * - JSON object: { "<finaId>": "<sku>" }
+ * - JSON array:  [{ "finaId": 101, "sku": "WOLT-101" }]
+ * - CSV:         finaId,sku (header row optional)
+ */
+export function parseOverrides(content: string, format: 'json' | 'csv'): Map<number, string> {
+  const overrides = new Map<number, string>();
+  const add = (rawId: unknown, rawSku: unknown) => {
+    const id = typeof rawId === 'number' ? rawId : parseInt(String(rawId), 10);
+    const sku = typeof rawSku === 'string' ? rawSku.trim() : '';
+    if (Number.isFinite(id) && sku) {
+      overrides.set(id, sku);
+    }
+  };
+
+  if (format === 'json') {
+    const data = JSON.parse(content);
+    if (Array.isArray(data)) {
+      for (const row of data) {
+        add(row?.finaId, row?.sku);
+      }
+    } else if (data && typeof data === 'object') {
+      for (const [id, sku] of Object.entries(data)) {
+        add(id, sku);
+      }
+    }
+    return overrides;
+  }
+
+  for (const line of content.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) continue;
+    const [rawId, rawSku] = trimmed.split(/[,;]/);
+    add(rawId?.trim(), rawSku);
+  }
+  return overrides;
+}
+
+/**
+ * SkuMapper - resolves the Wolt SKU for each Fina product.
+ *
+ * Strategies are tried in order and the first one that yields a value wins:
+ * - override:  explicit Fina ID -> SKU table (CSV/JSON file), used verbatim
+ * - add_field: value of a Fina add_field (default usr_column_514), used as is
+ *              unless SKU_TRIM is set
+ * - barcode:   Fina barcode
+ * - fina_id:   the Fina product ID itself
+ * Prefix/suffix transforms are applied to every strategy except override.
+ */
+export class SkuMapper {
+  private readonly config: SkuMapperConfig;
+  private overrides: Map<number, string> | null = null;
+
+  constructor(config?: Partial<SkuMapperConfig>) {
+    this.config = {
+      strategies: parseStrategies(process.env.SKU_STRATEGIES),
+      prefix: process.env.SKU_PREFIX || '',
+      suffix: process.env.SKU_SUFFIX || '',
+      trim: parseBoolean(process.env.SKU_TRIM, false),
+      overridesFile: process.env.SKU_OVERRIDES_FILE || undefined,
+      ...config
+    };
+
+    // An override table only makes sense as the first strategy.
+    if (this.config.overridesFile && !this.config.strategies.some(s => s.type === 'override')) {
+      this.config.strategies = [{ type: 'override' }, ...this.config.strategies];
+    }
+  }
+
+  static fromEnv(storeId: number): SkuMapper {
+    return new SkuMapper({
+      strategies: parseStrategies(resolveStoreSetting(storeId, 'SKU_STRATEGIES')),
+      prefix: resolveStoreSetting(storeId, 'SKU_PREFIX') || '',
+      suffix: resolveStoreSetting(storeId, 'SKU_SUFFIX') || '',
+      trim: parseBoolean(resolveStoreSetting(storeId, 'SKU_TRIM'), false),
+      overridesFile: resolveStoreSetting(storeId, 'SKU_OVERRIDES_FILE')
+    });
+  }
+
+  getConfig(): SkuMapperConfig {
+    return this.config;
+  }
+
+  private loadOverrides(): Map<number, string> {
+    if (this.overrides) {
+      return this.overrides;
+    }
+
+    this.overrides = new Map();
+    const file = this.config.overridesFile;
+    if (!file) {
+      return this.overrides;
+    }
+
+    const filePath = path.isAbsolute(file) ? file : path.join(process.cwd(), file);
+    try {
+      const content = fs.readFileSync(filePath, 'utf8');
+      const format = path.extname(filePath).toLowerCase() === '.csv' ? 'csv' : 'json';
+      this.overrides = parseOverrides(content, format);
+      logger.info(`[SkuMapper] Loaded ${this.overrides.size} SKU overrides from ${file}`);
+    } catch (error: any) {
+      logger.error(`[SkuMapper] Failed to load SKU overrides from ${file}: ${error.message}`);
+    }
+    return this.overrides;
+  }
+
+  private applyTransforms(value: string): string {
+    return `${this.config.prefix}${value}${this.config.suffix}`;
+  }
+
+  private resolveOne(product: FinaProductDetail, strategy: SkuStrategy): string | undefined {
+    switch (strategy.type) {
+      case 'override':
+        return this.loadOverrides().get(product.id);
+      case 'add_field': {
+        const raw = getRawAddFieldValue(product, strategy.field || DEFAULT_SKU_FIELD);
+        const value = this.config.trim ? raw?.trim() : raw;
+        return value ? this.applyTransforms(value) : undefined;
+      }
+      case 'barcode': {
+        const value = typeof product.barcode === 'string' ? product.barcode.trim() : '';
+        return value ? this.applyTransforms(value) : undefined;
+      }
+      case 'fina_id':
+        return Number.isFinite(product.id) ? this.applyTransforms(String(product.id)) : undefined;
+    }
+  }
+
+  resolve(details: FinaProductDetail[]): SkuMappingResult {
+    const result: SkuMappingResult = {
+      skus: new Map(),
+      strategies: new Map(),
+      strategyCounts: {},
+      unmapped: 0
+    };
+
+    for (const product of details) {
+      let resolved = false;
+      for (const strategy of this.config.strategies) {
+        const sku = this.resolveOne(product, strategy);
+        if (!sku) continue;
+
+        const label = strategy.type === 'add_field' ? `add_field:${strategy.field}` : strategy.type;
+        result.skus.set(product.id, sku);
+        result.strategies.set(product.id, label);
+        result.strategyCounts[label] = (result.strategyCounts[label] || 0) + 1;
+        resolved = true;
+        break;
+      }
+      if (!resolved) {
+        result.unmapped++;
+      }
+    }
+
+    return result;
+  }
+
+  static buildReport(storeId: number, mapping: SkuMappingResult): SkuMappingReport {
+    return {
+      storeId,
+      generatedAt: new Date().toISOString(),
+      strategyCounts: mapping.strategyCounts,
+      unmapped: mapping.unmapped,
+      entries: Array.from(mapping.skus.entries()).map(([finaId, sku]) => ({
+        finaId,
+        sku,
+        strategy: mapping.strategies.get(finaId) || 'unknown'
+      }))
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import Database from 'better-sqlite3';
+import fs from 'fs-extra';
+import path from 'path';
+import { SyncState } from '../types';
+import { logger } from '../utils/logger';
+import { StateStore } from './stateStore';
+import { STATE_SCHEMA_VERSION, StateEnvelope, migrateStateDocument, resolveVenueId, stateEntrySchema } from './stateSchema';
+
+interface EntryRow {
+  sku: string;
+  entry: string;
+}
+
+interface MetaRow {
+  schema_version: number;
+  venue_id: string | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+/**
+ * SqliteStateStore - all stores in one SQLite database, one row per SKU.
+ *
+ * Confirmed batches are written as per-SKU upserts inside a transaction, so a
+ * 1-item batch costs one row write instead of rewriting the whole state.
+ * WAL mode lets several PM2 processes share the database file.
+ * Envelope metadata lives in `state_meta`; stores written before it existed
+ * (no meta row) are upgraded from schema v1 on first load.
+ */
+export class SqliteStateStore implements StateStore {
+  readonly backend = 'sqlite' as const;
+  private readonly db: Database.Database;
+
+  constructor(dbPath: string) {
+    fs.ensureDirSync(path.dirname(dbPath));
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS state_entries (
+        store_id INTEGER NOT NULL,
+        sku TEXT NOT NULL,
+        entry TEXT NOT NULL,
+        PRIMARY KEY (store_id, sku)
+      );
+      CREATE TABLE IF NOT EXISTS state_meta (
+        store_id INTEGER PRIMARY KEY,
+        schema_version INTEGER NOT NULL,
+        venue_id TEXT,
+        created_at TEXT NOT NULL,
+        updated_at TEXT
+      );
+    `);
+  }
+
+  private touchMeta(storeId: number, createdAt?: string): void {
+    const now = new Date().toISOString();
+    this.db.prepare(`
+      INSERT INTO state_meta (store_id, schema_version, venue_id, created_at, updated_at) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (store_id) DO UPDATE SET
+        schema_version = excluded.schema_version,
+        venue_id = excluded.venue_id,
+        updated_at = excluded.updated_at
+    `).run(storeId, STATE_SCHEMA_VERSION, resolveVenueId(storeId) ?? null, createdAt || now, now);
+  }
+
+  private writeEntries(storeId: number, entries: SyncState, replace: boolean, createdAt?: string): void {
+    const remove = this.db.prepare('DELETE FROM state_entries WHERE store_id = ?');
+    const upsert = this.db.prepare(`
+      INSERT INTO state_entries (store_id, sku, entry) VALUES (?, ?, ?)
+      ON CONFLICT (store_id, sku) DO UPDATE SET entry = excluded.entry
+    `);
+    this.db.transaction(() => {
+      if (replace) {
+        remove.run(storeId);
+      }
+      for (const [sku, entry] of Object.entries(entries)) {
+        upsert.run(storeId, sku, JSON.stringify(entry));
+      }
+      this.touchMeta(storeId, createdAt);
+    })();
+  }
+
+  async loadEnvelope(storeId: number): Promise<StateEnvelope | null> {
+    const rows = this.db
+      .prepare('SELECT sku, entry FROM state_entries WHERE store_id = ?')
+      .all(storeId) as EntryRow[];
+    const meta = this.db
+      .prepare('SELECT schema_version, venue_id, created_at, updated_at FROM state_meta WHERE store_id = ?')
+      .get(storeId) as MetaRow | undefined;
+
+    if (rows.length === 0) {
+      logger.info(`No state found for store ${storeId}. Will run full sync.`);
+      return null;
+    }
+
+    const rawEntries: Record<string, unknown> = {};
+    let invalidRows = 0;
+    for (const row of rows) {
+      try {
+        rawEntries[row.sku] = JSON.parse(row.entry);
+      } catch {
+        invalidRows++;
+      }
+    }
+
+    let envelope: { createdAt: string; updatedAt?: string; entries: Record<string, unknown> };
+    const fromVersion = meta?.schema_version ?? 1;
+    if (fromVersion === STATE_SCHEMA_VERSION) {
+      envelope = { createdAt: meta!.created_at, updatedAt: meta!.updated_at ?? undefined, entries: rawEntries };
+    } else {
+      const document = meta
+        ? { schemaVersion: meta.schema_version, storeId, venueId: meta.venue_id ?? undefined, createdAt: meta.created_at, entries: rawEntries }
+        : rawEntries;
+      envelope = migrateStateDocument(document, storeId).document as typeof envelope;
+    }
+
+    const state: SyncState = {};
+    for (const [sku, entry] of Object.entries(envelope.entries)) {
+      const parsed = stateEntrySchema.safeParse(entry);
+      if (sku.trim() !== '' && parsed.success) {
+        state[sku] = parsed.data;
+      } else {
+        invalidRows++;
+      }
+    }
+    if (invalidRows > 0) {
+      logger.error(`Skipped ${invalidRows} invalid state rows for store ${storeId}`);
+    }
+
+    if (fromVersion !== STATE_SCHEMA_VERSION) {
+      this.writeEntries(storeId, state, true, envelope.createdAt);
+      logger.info(`Migrated state for store ${storeId} from schema v${fromVersion} to v${STATE_SCHEMA_VERSION}`);
+    }
+
+    return {
+      schemaVersion: STATE_SCHEMA_VERSION,
+      storeId,
+      venueId: resolveVenueId(storeId) ?? meta?.venue_id ?? undefined,
+      createdAt: envelope.createdAt,
+      updatedAt: envelope.updatedAt,
+      entries: state
+    };
+  }
+
+  async loadState(storeId: number): Promise<SyncState> {
+    return (await this.loadEnvelope(storeId))?.entries ?? {};
+  }
+
+  async saveState(storeId: number, state: SyncState): Promise<void> {
+    try {
+      this.writeEntries(storeId, state, true);
+      logger.debug(`State saved for store ${storeId}`);
+    } catch (error: any) {
+      logger.error(`Failed to save state for store ${storeId}: ${error.message}`);
+    }
+  }
+
+  async upsertEntries(storeId: number, entries: SyncState): Promise<void> {
+    this.writeEntries(storeId, entries, false);
+    logger.debug(`State upserted for store ${storeId} (${Object.keys(entries).length} SKUs)`);
+  }
+
+  async stateExists(storeId: number): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM state_entries WHERE store_id = ? LIMIT 1').get(storeId) !== undefined;
+  }
+
+  async deleteState(storeId: number): Promise<void> {
+    try {
+      const result = this.db.transaction(() => {
+        this.db.prepare('DELETE FROM state_meta WHERE store_id = ?').run(storeId);
+        return this.db.prepare('DELETE FROM state_entries WHERE store_id = ?').run(storeId);
+      })();
+      if (result.changes > 0) {
+        logger.info(`State deleted for store ${storeId}`);
+      }
+    } catch (error: any) {
+      logger.error(`Failed to delete state for store ${storeId}: ${error.message}`);
+    }
+  }
+
+  async listStoreIds(): Promise<number[]> {
+    const rows = this.db.prepare('SELECT DISTINCT store_id FROM state_entries ORDER BY store_id').all() as Array<{ store_id: number }>;
+    return rows.map(row => row.store_id);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
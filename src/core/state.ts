@@ -2,10 +2,10 @@ import fs from 'fs-extra';
 import path from 'path';
 import { SyncState } from '../types';
 import { logger } from '../utils/logger';
-
-const transientRenameErrors = new Set(['EPERM', 'EBUSY', 'EACCES']);
-
-const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+import { StateBackend, StateStore } from './stateStore';
+import { StateEnvelope } from './stateSchema';
+import { JsonStateStore, commitTempFile } from './jsonStateStore';
+import { SqliteStateStore } from './sqliteStateStore';
 
 export interface CheckpointData {
   completedBatches: number;
@@ -14,196 +14,129 @@ export interface CheckpointData {
   timestamp: number;
 }
 
-export class StateManager {
-  private stateDir: string;
-  private readonly useDirectWrite: boolean;
+// One connection per database file per process
+const sqliteStores = new Map<string, SqliteStateStore>();
 
-  constructor() {
-    this.stateDir = path.join(process.cwd(), 'state');
-    fs.ensureDirSync(this.stateDir);
-    this.useDirectWrite = (process.env.STATE_WRITE_MODE || '').trim().toLowerCase() === 'direct';
+export function resolveStateBackend(): StateBackend {
+  const configured = (process.env.STATE_BACKEND || 'json').trim().toLowerCase();
+  if (configured === 'json' || configured === 'sqlite') {
+    return configured;
   }
+  logger.warn(`Unknown STATE_BACKEND "${configured}". Using json.`);
+  return 'json';
+}
 
-  private getStatePath(storeId: number): string {
-    return path.join(this.stateDir, `.state-store-${storeId}.json`);
+function createStateStore(backend: StateBackend, stateDir: string): StateStore {
+  if (backend === 'sqlite') {
+    const configured = process.env.STATE_SQLITE_PATH || path.join(stateDir, 'state.sqlite');
+    const dbPath = path.isAbsolute(configured) ? configured : path.join(process.cwd(), configured);
+    let store = sqliteStores.get(dbPath);
+    if (!store) {
+      store = new SqliteStateStore(dbPath);
+      sqliteStores.set(dbPath, store);
+    }
+    return store;
   }
+  return new JsonStateStore(stateDir);
+}
 
-  private getBackupPath(storeId: number): string {
-    return path.join(this.stateDir, `.state-store-${storeId}.json.bak`);
-  }
+export interface StateMigrationResult {
+  storeId: number;
+  entries: number;
+  source: 'primary' | 'backup' | 'empty';
+}
 
-  private getCheckpointPath(storeId: number): string {
-    return path.join(this.stateDir, `.checkpoint-store-${storeId}.json`);
+/**
+ * Copy state between backends (e.g. existing JSON files into SQLite).
+ * For JSON sources the `.bak` copy is used when the primary file is missing or corrupt.
+ */
+export async function migrateState(from: StateBackend, to: StateBackend, storeIds?: number[]): Promise<StateMigrationResult[]> {
+  if (from === to) {
+    throw new Error(`Source and target backend are both "${from}"`);
   }
+  const stateDir = path.join(process.cwd(), 'state');
+  const source = createStateStore(from, stateDir);
+  const target = createStateStore(to, stateDir);
+  const results: StateMigrationResult[] = [];
 
-  private isValidState(data: unknown): data is SyncState {
-    if (!data || typeof data !== 'object' || Array.isArray(data)) {
-      return false;
-    }
+  for (const storeId of storeIds ?? await source.listStoreIds()) {
+    let state = (await source.stateExists(storeId)) ? await source.loadState(storeId) : {};
+    let origin: StateMigrationResult['source'] = Object.keys(state).length > 0 ? 'primary' : 'empty';
 
-    for (const [sku, entry] of Object.entries(data)) {
-      if (typeof sku !== 'string' || sku.trim() === '') {
-        return false;
-      }
-      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
-        return false;
-      }
-      const stateEntry = entry as Partial<SyncState[string]>;
-      if (!Number.isFinite(stateEntry.quantity) || typeof stateEntry.enabled !== 'boolean') {
-        return false;
-      }
-      if (stateEntry.price !== undefined && !Number.isFinite(stateEntry.price)) {
-        return false;
-      }
-      if (stateEntry.lastSeen !== undefined && !Number.isFinite(stateEntry.lastSeen)) {
-        return false;
+    if (origin === 'empty' && source instanceof JsonStateStore) {
+      const backup = await source.loadBackup(storeId);
+      if (backup && Object.keys(backup).length > 0) {
+        state = backup;
+        origin = 'backup';
       }
     }
 
-    return true;
-  }
-
-  private async readStateFile(filePath: string, storeId: number, label: string): Promise<SyncState | null> {
-    try {
-      const data = await fs.readJson(filePath);
-      if (!this.isValidState(data)) {
-        logger.error(`Failed to load ${label} for store ${storeId}: Invalid state format`);
-        return null;
-      }
-      return data;
-    } catch (error: any) {
-      logger.error(`Failed to load ${label} for store ${storeId}: ${error.message}`);
-      return null;
+    if (origin !== 'empty') {
+      await target.saveState(storeId, state);
+      logger.info(`Migrated ${Object.keys(state).length} state entries for store ${storeId} from ${from} (${origin}) to ${to}`);
     }
+    results.push({ storeId, entries: Object.keys(state).length, source: origin });
   }
+  return results;
+}
 
-  private async commitTempFile(tempPath: string, filePath: string, label: string): Promise<void> {
-    let lastError: any;
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      try {
-        await fs.move(tempPath, filePath, { overwrite: true });
-        return;
-      } catch (error: any) {
-        lastError = error;
-        if (!transientRenameErrors.has(error?.code)) {
-          throw error;
-        }
-        await sleep(50 * attempt);
-      }
-    }
+/**
+ * StateManager - entry point for per-store sync state and first-sync checkpoints.
+ * State goes to the backend selected by STATE_BACKEND (json | sqlite);
+ * checkpoints are always small JSON files.
+ */
+export class StateManager {
+  private stateDir: string;
+  private readonly useDirectWrite: boolean;
+  private readonly store: StateStore;
 
-    try {
-      await fs.copy(tempPath, filePath, { overwrite: true });
-      await fs.remove(tempPath);
-      logger.warn(`${label} saved using copy fallback after rename failure: ${lastError?.code || lastError?.message}`);
-    } catch (error: any) {
-      throw lastError || error;
-    }
+  constructor(backend: StateBackend = resolveStateBackend()) {
+    this.stateDir = path.join(process.cwd(), 'state');
+    fs.ensureDirSync(this.stateDir);
+    this.useDirectWrite = (process.env.STATE_WRITE_MODE || '').trim().toLowerCase() === 'direct';
+    this.store = createStateStore(backend, this.stateDir);
   }
 
-  async loadState(storeId: number): Promise<SyncState> {
-    const filePath = this.getStatePath(storeId);
-    const primaryExists = await fs.pathExists(filePath);
-
-    if (primaryExists) {
-      const primary = await this.readStateFile(filePath, storeId, 'state');
-      if (primary) {
-        return primary;
-      }
+  get backend(): StateBackend {
+    return this.store.backend;
+  }
 
-      // Primary file exists but is corrupt - try backup
-      const backupPath = this.getBackupPath(storeId);
-      if (await fs.pathExists(backupPath)) {
-        const backup = await this.readStateFile(backupPath, storeId, 'backup state');
-        if (backup) {
-          logger.warn(`State file corrupt; using backup for store ${storeId}.`);
-          return backup;
-        }
-      }
+  private getCheckpointPath(storeId: number): string {
+    return path.join(this.stateDir, `.checkpoint-store-${storeId}.json`);
+  }
 
-      // Both primary and backup are corrupt
-      logger.error(`State file and backup corrupt for store ${storeId}. Starting fresh.`);
-      return {};
-    }
+  async loadState(storeId: number): Promise<SyncState> {
+    return this.store.loadState(storeId);
+  }
 
-    // Primary file doesn't exist - return empty state (triggers full sync)
-    logger.info(`No state file found for store ${storeId}. Will run full sync.`);
-    return {};
+  /**
+   * State with its envelope metadata (schema version, venue, created/updated times).
+   */
+  async loadEnvelope(storeId: number): Promise<StateEnvelope | null> {
+    return this.store.loadEnvelope(storeId);
   }
 
   async saveState(storeId: number, state: SyncState): Promise<void> {
-    const filePath = this.getStatePath(storeId);
-    const tempPath = `${filePath}.tmp`;
-    const backupPath = this.getBackupPath(storeId);
-
-    try {
-      if (await fs.pathExists(filePath)) {
-        try {
-          await fs.copy(filePath, backupPath, { overwrite: true });
-        } catch (error: any) {
-          logger.warn(`Failed to write state backup for store ${storeId}: ${error.message}`);
-        }
-      }
-
-      if (this.useDirectWrite) {
-        const payload = JSON.stringify(state);
-        try {
-          await fs.writeFile(tempPath, payload);
-          try {
-            await fs.copy(tempPath, filePath, { overwrite: true });
-          } catch (copyError: any) {
-            logger.warn(`State copy fallback failed for store ${storeId}: ${copyError.message}. Writing directly.`);
-            await fs.writeFile(filePath, payload);
-          }
-          logger.debug(`State saved for store ${storeId}`);
-        } finally {
-          try {
-            if (await fs.pathExists(tempPath)) {
-              await fs.remove(tempPath);
-            }
-          } catch {
-            // Ignore cleanup errors (temp files are safe to leave behind).
-          }
-        }
-        return;
-      }
-
-      // Write to temporary file first
-      await fs.writeJson(tempPath, state);
-
-      // Atomic rename (replaces existing file)
-      await this.commitTempFile(tempPath, filePath, `State for store ${storeId}`);
-
-      logger.debug(`State saved for store ${storeId}`);
-    } catch (error: any) {
-      logger.error(`Failed to save state for store ${storeId}: ${error.message}`);
+    return this.store.saveState(storeId, state);
+  }
 
-      // Clean up temp file if it exists
-      try {
-        if (await fs.pathExists(tempPath)) {
-          await fs.remove(tempPath);
-        }
-      } catch (cleanupError) {
-        // Ignore cleanup errors
-      }
-    }
+  /**
+   * Persist only the given SKUs (e.g. the ones Wolt just confirmed).
+   */
+  async upsertEntries(storeId: number, entries: SyncState): Promise<void> {
+    return this.store.upsertEntries(storeId, entries);
   }
 
   async stateExists(storeId: number): Promise<boolean> {
-    const filePath = this.getStatePath(storeId);
-    return await fs.pathExists(filePath);
+    return this.store.stateExists(storeId);
   }
 
   async deleteState(storeId: number): Promise<void> {
-    const filePath = this.getStatePath(storeId);
-    try {
-      if (await fs.pathExists(filePath)) {
-        await fs.remove(filePath);
-        logger.info(`State deleted for store ${storeId}`);
-      }
-    } catch (error: any) {
-      logger.error(`Failed to delete state for store ${storeId}: ${error.message}`);
-    }
+    return this.store.deleteState(storeId);
+  }
+
+  async listStoreIds(): Promise<number[]> {
+    return this.store.listStoreIds();
   }
 
   // Checkpoint methods for first sync recovery
@@ -235,7 +168,7 @@ export class StateManager {
       await fs.writeJson(tempPath, data);
 
       // Atomic rename
-      await this.commitTempFile(tempPath, filePath, `Checkpoint for store ${storeId}`);
+      await commitTempFile(tempPath, filePath, `Checkpoint for store ${storeId}`);
 
       logger.debug(`Checkpoint saved for store ${storeId} (batch ${data.completedBatches}/${data.totalBatches})`);
     } catch (error: any) {
@@ -0,0 +1,96 @@
+import { WoltCatalogItem } from '../adapters/woltCatalog';
+import { SyncState, SyncStateEntry } from '../types';
+import { skuPatternToRegex } from './inventoryPolicy';
+import { StateDiffEntry, StateDiffField } from './stateSnapshots';
+
+export interface StateFilter {
+  sku?: string;           // Glob, e.g. "MILK-*"
+  enabled?: boolean;
+  syncedToWolt?: boolean;
+  priceGt?: number;
+  priceLt?: number;
+  quantityGt?: number;
+  quantityLt?: number;
+}
+
+export interface StateSummary {
+  entries: number;
+  enabled: number;
+  disabled: number;
+  syncedToWolt: number;
+  withoutPrice: number;
+  withPromotion: number;
+}
+
+/**
+ * Entries matching every given criterion, sorted by SKU.
+ * Price criteria never match entries without a price.
+ */
+export function filterState(state: SyncState, filter: StateFilter): Array<[string, SyncStateEntry]> {
+  const skuRegex = filter.sku ? skuPatternToRegex(filter.sku) : null;
+  return Object.entries(state)
+    .filter(([sku, entry]) => {
+      if (skuRegex && !skuRegex.test(sku)) return false;
+      if (filter.enabled !== undefined && entry.enabled !== filter.enabled) return false;
+      if (filter.syncedToWolt !== undefined && (entry.syncedToWolt === true) !== filter.syncedToWolt) return false;
+      if (filter.priceGt !== undefined && !(entry.price !== undefined && entry.price > filter.priceGt)) return false;
+      if (filter.priceLt !== undefined && !(entry.price !== undefined && entry.price < filter.priceLt)) return false;
+      if (filter.quantityGt !== undefined && !(entry.quantity > filter.quantityGt)) return false;
+      if (filter.quantityLt !== undefined && !(entry.quantity < filter.quantityLt)) return false;
+      return true;
+    })
+    .sort(([a], [b]) => a.localeCompare(b));
+}
+
+export function summarizeState(state: SyncState): StateSummary {
+  const entries = Object.values(state);
+  return {
+    entries: entries.length,
+    enabled: entries.filter(entry => entry.enabled).length,
+    disabled: entries.filter(entry => !entry.enabled).length,
+    syncedToWolt: entries.filter(entry => entry.syncedToWolt).length,
+    withoutPrice: entries.filter(entry => entry.price === undefined).length,
+    withPromotion: entries.filter(entry => entry.discountedPrice !== undefined).length
+  };
+}
+
+/**
+ * Compare state with the Wolt catalog. Only fields present in the catalog
+ * are compared (Wolt omits e.g. discounted_price when no promotion runs).
+ */
+export function diffAgainstWolt(state: SyncState, woltItems: WoltCatalogItem[]): StateDiffEntry[] {
+  const live = new Map<string, Partial<Record<StateDiffField, unknown>>>();
+  for (const item of woltItems) {
+    live.set(item.sku, {
+      enabled: item.enabled,
+      price: item.price,
+      discountedPrice: item.discountedPrice,
+      quantity: item.inventory,
+      vatPercentage: item.vatPercentage
+    });
+  }
+
+  const diff: StateDiffEntry[] = [];
+  for (const sku of [...new Set([...Object.keys(state), ...live.keys()])].sort()) {
+    const entry = state[sku];
+    const woltValues = live.get(sku);
+    if (!entry) {
+      diff.push({ sku, change: 'added', fields: {} });
+      continue;
+    }
+    if (!woltValues) {
+      diff.push({ sku, change: 'removed', fields: {} });
+      continue;
+    }
+    const fields: StateDiffEntry['fields'] = {};
+    for (const [field, value] of Object.entries(woltValues) as Array<[StateDiffField, unknown]>) {
+      if (value !== undefined && value !== entry[field]) {
+        fields[field] = { from: entry[field], to: value };
+      }
+    }
+    if (Object.keys(fields).length > 0) {
+      diff.push({ sku, change: 'changed', fields });
+    }
+  }
+  return diff;
+}
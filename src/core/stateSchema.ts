@@ -0,0 +1,166 @@
+import { z } from 'zod';
+import { stores } from '../config/stores';
+import { SyncState, SyncStateEntry } from '../types';
+
+/**
+ * Persisted state format.
+ *
+ * v1: bare `{ [sku]: entry }` map (legacy files, extra fields set via `as any`)
+ * v2: envelope with metadata and typed entries
+ *
+ * Bump STATE_SCHEMA_VERSION and add a migration from the previous version
+ * whenever the persisted shape changes. Migrations run automatically on load.
+ */
+export const STATE_SCHEMA_VERSION = 2;
+
+const finite = z.number().finite();
+
+export const stateEntrySchema = z.object({
+  quantity: finite,
+  enabled: z.boolean(),
+  price: finite.optional(),
+  discountedPrice: finite.optional(),
+  vatPercentage: finite.optional(),
+  lastSeen: finite,
+  syncedToWolt: z.boolean().optional(),
+  lastSentAt: finite.optional(),
+  lastConfirmedAt: finite.optional()
+});
+
+export const stateEnvelopeSchema = z.object({
+  schemaVersion: z.literal(STATE_SCHEMA_VERSION),
+  storeId: z.number().int(),
+  venueId: z.string().optional(),
+  createdAt: z.string(),
+  updatedAt: z.string().optional(),
+  entries: z.record(z.string().min(1), stateEntrySchema)
+});
+
+export type StateEnvelope = z.infer<typeof stateEnvelopeSchema>;
+
+export interface StateParseResult {
+  envelope: StateEnvelope;
+  migratedFrom?: number; // Set when the document was upgraded on load
+}
+
+export class StateSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StateSchemaError';
+  }
+}
+
+/**
+ * State written by a newer release. Never treated as corrupt: falling back to
+ * an empty state would overwrite it on the next save.
+ */
+export class UnsupportedStateVersionError extends StateSchemaError {
+  constructor(public readonly schemaVersion: number) {
+    super(`State schemaVersion ${schemaVersion} is newer than supported version ${STATE_SCHEMA_VERSION}`);
+    this.name = 'UnsupportedStateVersionError';
+  }
+}
+
+type Migration = (document: any, storeId: number) => unknown;
+
+const legacyEntrySchema = z.object({ syncedToWolt: z.unknown().optional() }).passthrough();
+
+// migrations[n] upgrades a version-n document to version n+1
+const migrations: Record<number, Migration> = {
+  1: (legacy, storeId) => ({
+    schemaVersion: 2,
+    storeId,
+    venueId: resolveVenueId(storeId),
+    createdAt: new Date().toISOString(),
+    entries: Object.fromEntries(
+      Object.entries(legacy as Record<string, unknown>).map(([sku, entry]) => {
+        const parsed = legacyEntrySchema.safeParse(entry);
+        if (!parsed.success) {
+          return [sku, entry];
+        }
+        // v1 files could lack lastSeen and carried syncedToWolt as an untyped extra
+        const { syncedToWolt, ...rest } = parsed.data;
+        const upgraded: Record<string, unknown> = { lastSeen: 0, ...rest };
+        if (syncedToWolt !== undefined) {
+          upgraded.syncedToWolt = syncedToWolt === true;
+        }
+        return [sku, upgraded];
+      })
+    )
+  })
+};
+
+export function resolveVenueId(storeId: number): string | undefined {
+  return stores.find(store => store.id === storeId)?.woltVenueId || undefined;
+}
+
+export function detectSchemaVersion(document: unknown): number {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new StateSchemaError('State document is not an object');
+  }
+  const version = (document as { schemaVersion?: unknown }).schemaVersion;
+  if (version === undefined) {
+    return 1;
+  }
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new StateSchemaError(`Invalid schemaVersion ${JSON.stringify(version)}`);
+  }
+  return version;
+}
+
+/**
+ * Upgrade a persisted state document to the current schema version.
+ * Entries are not validated here, so backends can still skip individual bad rows.
+ */
+export function migrateStateDocument(document: unknown, storeId: number): { document: unknown; fromVersion: number } {
+  const fromVersion = detectSchemaVersion(document);
+  if (fromVersion > STATE_SCHEMA_VERSION) {
+    throw new UnsupportedStateVersionError(fromVersion);
+  }
+
+  let current: unknown = document;
+  for (let version = fromVersion; version < STATE_SCHEMA_VERSION; version++) {
+    current = migrations[version](current, storeId);
+  }
+  return { document: current, fromVersion };
+}
+
+/**
+ * Validate a persisted state document, upgrading older versions in memory.
+ */
+export function parseStateDocument(document: unknown, storeId: number): StateParseResult {
+  const migrated = migrateStateDocument(document, storeId);
+
+  const parsed = stateEnvelopeSchema.safeParse(migrated.document);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 3).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new StateSchemaError(`Invalid state: ${issues}`);
+  }
+  if (parsed.data.storeId !== storeId) {
+    throw new StateSchemaError(`State belongs to store ${parsed.data.storeId}, not ${storeId}`);
+  }
+
+  return {
+    envelope: parsed.data,
+    migratedFrom: migrated.fromVersion < STATE_SCHEMA_VERSION ? migrated.fromVersion : undefined
+  };
+}
+
+export function createEnvelope(storeId: number, entries: SyncState, createdAt?: string): StateEnvelope {
+  const now = new Date().toISOString();
+  return {
+    schemaVersion: STATE_SCHEMA_VERSION,
+    storeId,
+    venueId: resolveVenueId(storeId),
+    createdAt: createdAt || now,
+    updatedAt: now,
+    entries
+  };
+}
+
+/**
+ * Entry after Wolt accepted a batch containing it.
+ */
+export function markConfirmed(entry: SyncStateEntry, sentAt: number, confirmedAt: number = Date.now()): SyncStateEntry {
+  return { ...entry, syncedToWolt: true, lastSentAt: sentAt, lastConfirmedAt: confirmedAt };
+}
@@ -0,0 +1,228 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { parseBoolean, resolveStoreSetting } from '../config/stores';
+import { SyncState, SyncStateEntry, WoltInventoryItem, WoltItemUpdate } from '../types';
+import { logger } from '../utils/logger';
+import { SyncDelta, hashJson } from './syncPlan';
+
+export type SnapshotSource = 'sync' | 'plan' | 'approval' | 'restore' | 'pre-restore' | 'reconcile';
+
+export interface StateSnapshot {
+  storeId: number;
+  takenAt: string;
+  source: SnapshotSource;
+  runId?: string;
+  contentHash: string; // Hash of the entries without lastSeen; unchanged runs are not snapshotted again
+  state: SyncState;
+}
+
+export interface SnapshotInfo {
+  file: string;
+  takenAt: string;
+  source: SnapshotSource;
+  runId?: string;
+  sizeBytes: number;
+}
+
+export type StateDiffField = 'quantity' | 'enabled' | 'price' | 'discountedPrice' | 'vatPercentage';
+
+export interface StateDiffEntry {
+  sku: string;
+  change: 'added' | 'removed' | 'changed';
+  fields: Partial<Record<StateDiffField, { from: unknown; to: unknown }>>;
+}
+
+const DIFF_FIELDS: StateDiffField[] = ['quantity', 'enabled', 'price', 'discountedPrice', 'vatPercentage'];
+const DEFAULT_KEEP_LAST = 50;
+const DEFAULT_KEEP_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SNAPSHOT_FILE = /^(\d{13})_([a-z-]+)(?:_([\w-]+))?\.json$/;
+
+const readCount = (raw: string | undefined, fallback: number): number => {
+  const parsed = parseInt(raw || '', 10);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const contentHash = (state: SyncState): string =>
+  hashJson(Object.fromEntries(Object.entries(state).map(([sku, { lastSeen, ...entry }]) => [sku, entry])));
+
+/**
+ * Field-level differences between two states (only values that are sent to Wolt).
+ */
+export function diffStates(from: SyncState, to: SyncState): StateDiffEntry[] {
+  const diff: StateDiffEntry[] = [];
+  for (const sku of [...new Set([...Object.keys(from), ...Object.keys(to)])].sort()) {
+    const before = from[sku];
+    const after = to[sku];
+    const fields: StateDiffEntry['fields'] = {};
+    for (const field of DIFF_FIELDS) {
+      if (before?.[field] !== after?.[field]) {
+        fields[field] = { from: before?.[field], to: after?.[field] };
+      }
+    }
+    if (!before) {
+      diff.push({ sku, change: 'added', fields });
+    } else if (!after) {
+      diff.push({ sku, change: 'removed', fields });
+    } else if (Object.keys(fields).length > 0) {
+      diff.push({ sku, change: 'changed', fields });
+    }
+  }
+  return diff;
+}
+
+/**
+ * Delta that puts the values of `target` back on Wolt, given what `current` says Wolt has.
+ * SKUs missing from the target (added after the snapshot) are left alone on Wolt.
+ */
+export function buildRestoreDelta(current: SyncState, target: SyncState): SyncDelta {
+  const itemUpdates: WoltItemUpdate[] = [];
+  const inventoryUpdates: WoltInventoryItem[] = [];
+
+  for (const [sku, entry] of Object.entries(target)) {
+    const prev: SyncStateEntry | undefined = current[sku];
+    if (!prev || prev.enabled !== entry.enabled || prev.price !== entry.price
+      || prev.discountedPrice !== entry.discountedPrice || prev.vatPercentage !== entry.vatPercentage) {
+      const update: WoltItemUpdate = { sku, enabled: entry.enabled };
+      if (entry.price !== undefined) {
+        update.price = entry.price;
+      }
+      if (entry.discountedPrice !== undefined) {
+        update.discounted_price = entry.discountedPrice;
+      } else if (prev?.discountedPrice !== undefined) {
+        update.discounted_price = null;
+      }
+      if (entry.vatPercentage !== undefined && entry.vatPercentage !== prev?.vatPercentage) {
+        update.vat_percentage = entry.vatPercentage;
+      }
+      itemUpdates.push(update);
+    }
+    if (!prev || prev.quantity !== entry.quantity) {
+      inventoryUpdates.push({ sku, inventory: entry.quantity });
+    }
+  }
+
+  return { itemUpdates, inventoryUpdates, newState: { ...target } };
+}
+
+/**
+ * StateSnapshotStore - timestamped copies of a store's state, one per sync run,
+ * under state/snapshots/store-<id>/. Unlike the `.bak` file (overwritten on
+ * every batch) these survive a bad sync and can be restored with
+ * "wolt-cli state restore".
+ *
+ * Retention: the newest STATE_SNAPSHOT_KEEP_LAST snapshots, plus the last
+ * snapshot of each day for STATE_SNAPSHOT_KEEP_DAYS days.
+ */
+export class StateSnapshotStore {
+  private readonly snapshotDir: string;
+  private readonly lastHashes = new Map<number, string>();
+
+  constructor() {
+    this.snapshotDir = path.join(process.cwd(), 'state', 'snapshots');
+  }
+
+  private getStoreDir(storeId: number): string {
+    return path.join(this.snapshotDir, `store-${storeId}`);
+  }
+
+  isEnabled(storeId: number): boolean {
+    return parseBoolean(resolveStoreSetting(storeId, 'STATE_SNAPSHOTS_ENABLED'), true);
+  }
+
+  /**
+   * Snapshot the state unless it is unchanged since the previous snapshot.
+   * Failures are logged and never fail a sync.
+   */
+  async take(storeId: number, state: SyncState, source: SnapshotSource, runId?: string): Promise<SnapshotInfo | null> {
+    if (!this.isEnabled(storeId)) {
+      return null;
+    }
+    try {
+      const hash = contentHash(state);
+      const lastHash = this.lastHashes.get(storeId) ?? (await this.latest(storeId))?.contentHash;
+      if (source !== 'pre-restore' && hash === lastHash) {
+        logger.debug(`[Snapshots] State unchanged for store ${storeId}; snapshot skipped`);
+        return null;
+      }
+
+      const now = new Date();
+      const snapshot: StateSnapshot = { storeId, takenAt: now.toISOString(), source, runId, contentHash: hash, state };
+      const file = `${now.getTime()}_${source}${runId ? `_${runId}` : ''}.json`;
+      const filePath = path.join(this.getStoreDir(storeId), file);
+      await fs.ensureDir(this.getStoreDir(storeId));
+      await fs.writeJson(`${filePath}.tmp`, snapshot);
+      await fs.move(`${filePath}.tmp`, filePath, { overwrite: true });
+      this.lastHashes.set(storeId, hash);
+
+      await this.prune(storeId);
+      return { file, takenAt: snapshot.takenAt, source, runId, sizeBytes: (await fs.stat(filePath)).size };
+    } catch (error: any) {
+      logger.warn(`[Snapshots] Failed to snapshot state for store ${storeId}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Snapshots of a store, oldest first.
+   */
+  async list(storeId: number): Promise<SnapshotInfo[]> {
+    const storeDir = this.getStoreDir(storeId);
+    if (!(await fs.pathExists(storeDir))) {
+      return [];
+    }
+    const snapshots: SnapshotInfo[] = [];
+    for (const file of (await fs.readdir(storeDir)).sort()) {
+      const match = SNAPSHOT_FILE.exec(file);
+      if (!match) continue;
+      snapshots.push({
+        file,
+        takenAt: new Date(parseInt(match[1], 10)).toISOString(),
+        source: match[2] as SnapshotSource,
+        runId: match[3],
+        sizeBytes: (await fs.stat(path.join(storeDir, file))).size
+      });
+    }
+    return snapshots;
+  }
+
+  async load(storeId: number, file: string): Promise<StateSnapshot> {
+    return fs.readJson(path.join(this.getStoreDir(storeId), path.basename(file)));
+  }
+
+  /**
+   * The newest snapshot taken at or before `at` (epoch ms).
+   */
+  async findAt(storeId: number, at: number): Promise<StateSnapshot | null> {
+    const candidates = (await this.list(storeId)).filter(info => Date.parse(info.takenAt) <= at);
+    const match = candidates[candidates.length - 1];
+    return match ? this.load(storeId, match.file) : null;
+  }
+
+  private async latest(storeId: number): Promise<StateSnapshot | null> {
+    return this.findAt(storeId, Number.MAX_SAFE_INTEGER);
+  }
+
+  private async prune(storeId: number): Promise<void> {
+    const keepLast = readCount(resolveStoreSetting(storeId, 'STATE_SNAPSHOT_KEEP_LAST'), DEFAULT_KEEP_LAST);
+    const keepDays = readCount(resolveStoreSetting(storeId, 'STATE_SNAPSHOT_KEEP_DAYS'), DEFAULT_KEEP_DAYS);
+    const cutoff = Date.now() - keepDays * DAY_MS;
+
+    const snapshots = await this.list(storeId);
+    const keep = new Set(snapshots.slice(Math.max(0, snapshots.length - keepLast)).map(info => info.file));
+    const lastOfDay = new Map<string, string>();
+    for (const info of snapshots) {
+      if (Date.parse(info.takenAt) >= cutoff) {
+        lastOfDay.set(info.takenAt.slice(0, 10), info.file);
+      }
+    }
+    lastOfDay.forEach(file => keep.add(file));
+
+    for (const info of snapshots) {
+      if (!keep.has(info.file)) {
+        await fs.remove(path.join(this.getStoreDir(storeId), info.file));
+        logger.debug(`[Snapshots] Pruned ${info.file} for store ${storeId}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { SyncState } from '../types';
+import { StateEnvelope } from './stateSchema';
+
+export type StateBackend = 'json' | 'sqlite';
+
+/**
+ * Persistence backend for per-store sync state.
+ * StateManager picks one via STATE_BACKEND; callers only talk to StateManager.
+ * Backends persist the versioned envelope from stateSchema and upgrade older
+ * documents on load.
+ */
+export interface StateStore {
+  readonly backend: StateBackend;
+  /** Envelope (metadata + entries), or null when the store has no state. */
+  loadEnvelope(storeId: number): Promise<StateEnvelope | null>;
+  loadState(storeId: number): Promise<SyncState>;
+  /** Replace the whole state of a store. */
+  saveState(storeId: number, state: SyncState): Promise<void>;
+  /** Insert or update only the given SKUs, leaving the rest untouched. Throws when the write fails. */
+  upsertEntries(storeId: number, entries: SyncState): Promise<void>;
+  stateExists(storeId: number): Promise<boolean>;
+  deleteState(storeId: number): Promise<void>;
+  /** Store IDs that currently have persisted state. */
+  listStoreIds(): Promise<number[]>;
+}
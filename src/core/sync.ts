@@ -1,9 +1,44 @@
-import { FinaAdapter } from '../adapters/fina';
+import { FinaAdapter, formatIds } from '../adapters/fina';
+import { FinaValidationReport } from '../adapters/finaSchemas';
 import { WoltAdapter } from '../adapters/wolt';
+import { WoltCatalogReader } from '../adapters/woltCatalog';
 import { StateManager } from './state';
-import { StoreConfig, SyncState, WoltInventoryItem, WoltItemUpdate } from '../types';
+import { SkuMapper, formatStrategyCounts } from './skuMapper';
+import { ReportStore } from './reportStore';
+import {
+  SkuCandidate,
+  SkuConflict,
+  SkuConflictReport,
+  buildConflict,
+  resolveDuplicatePolicy,
+  resolveSkuCandidates
+} from './skuConflicts';
+import { PriceRuleEngine } from './priceRules';
+import { VatResolver } from './vatResolver';
+import { InventoryPolicyEngine, StockAdjustment } from './inventoryPolicy';
+import { AnomalyGuard, PendingDelta, PendingDeltaStore } from './anomalyGuard';
+import { AuditContext, AuditJournal, newRunId } from './auditJournal';
+import { markConfirmed } from './stateSchema';
+import { StateSnapshot, StateSnapshotStore, buildRestoreDelta } from './stateSnapshots';
+import { MenuItemBuilder, MenuItemSource, MenuPushReport } from './menuBuilder';
+import { QuarantineEntry, QuarantineStore, RejectedSku, sendIsolatingRejects, toQuarantineEntries } from './quarantine';
+import { SkuControlStore } from './skuControls';
+import { ProductDetailCache } from './productDetailCache';
+import { FinaSnapshot } from './finaSnapshot';
+import { DriftReport, buildHealDelta, countDrift, detectDrift, resolveReconcileConfig } from './reconciliation';
+import {
+  PlanStaleError,
+  SYNC_PLAN_VERSION,
+  SyncDelta,
+  SyncPlan,
+  hashFinaSnapshot,
+  hashState,
+  writePlan
+} from './syncPlan';
+import { parseBoolean, resolveStoreSetting } from '../config/stores';
+import { FinaProductDetail, StoreConfig, SyncState, WoltInventoryItem, WoltItemUpdate, WoltMenuItem } from '../types';
 import { createStoreLogger } from '../utils/logger';
-import { metricsCollector } from '../utils/metrics';
+import { MetricsCollector, metricsCollector } from '../utils/metrics';
 import { CircuitBreakerError } from '../utils/circuitBreaker';
 
 export interface SyncOptions {
@@ -11,12 +46,62 @@ export interface SyncOptions {
   limit?: number;
   forceFullSync?: boolean;  // Force sending all items (for first sync or recovery)
   bootstrapState?: boolean; // Create state without sending to Wolt (for initial setup)
+  skipAnomalyGuard?: boolean; // Send even if the delta looks like a broken Fina feed
+  planFile?: string;          // Write the delta to this plan file instead of sending it (implies dryRun)
+  createMissing?: boolean;    // Create SKUs missing on Wolt (default: WOLT_CREATE_MISSING_ITEMS)
+  finaProductIds?: number[];  // Targeted run (Fina webhook): only these products are fetched and compared
+  finaSnapshot?: FinaSnapshot; // Product details shared with the other stores of the scheduler cycle
 }
 
+const MAX_DRY_RUN_ADJUSTMENTS_LOGGED = 50;
+const DEFAULT_CREATE_MAX_ITEMS = 100;
+
+interface SkuSyncData {
+  quantity: number;
+  price: number;
+  discountedPrice?: number;
+  vatPercentage?: number;
+  enabled: boolean;
+}
+
+const toItemUpdate = (sku: string, data: SkuSyncData, prev?: SyncState[string], fullSync: boolean = false): WoltItemUpdate => {
+  const update: WoltItemUpdate = { sku, enabled: data.enabled, price: data.price };
+  if (data.discountedPrice !== undefined) {
+    update.discounted_price = data.discountedPrice;
+  } else if (prev?.discountedPrice !== undefined) {
+    update.discounted_price = null; // Promotion ended
+  }
+  // VAT is only sent when it changes (or on a full sync)
+  if (data.vatPercentage !== undefined && (fullSync || data.vatPercentage !== prev?.vatPercentage)) {
+    update.vat_percentage = data.vatPercentage;
+  }
+  return update;
+};
+
+/**
+ * Put back the previous entries of SKUs that were not sent (dropping SKUs that
+ * had none), so the next sync still sees their changes.
+ */
+const keepPreviousEntries = (newState: SyncState, previousState: SyncState, skus: Iterable<string>): void => {
+  for (const sku of skus) {
+    if (previousState[sku]) {
+      newState[sku] = { ...previousState[sku] };
+    } else {
+      delete newState[sku];
+    }
+  }
+};
+
 export class SyncEngine {
   private fina: FinaAdapter;
   private wolt: WoltAdapter;
   private stateManager: StateManager;
+  private reportStore: ReportStore;
+  private pendingDeltas: PendingDeltaStore;
+  private auditJournal: AuditJournal;
+  private snapshots: StateSnapshotStore;
+  private quarantine: QuarantineStore;
+  private skuControls: SkuControlStore;
   private readonly defaultBatchSize: number;
   private readonly defaultBatchDelayMs: number;
   private readonly defaultFirstSyncBatchSize: number;
@@ -26,6 +111,12 @@ export class SyncEngine {
     this.fina = new FinaAdapter();
     this.wolt = new WoltAdapter();
     this.stateManager = new StateManager();
+    this.reportStore = new ReportStore();
+    this.pendingDeltas = new PendingDeltaStore();
+    this.auditJournal = new AuditJournal();
+    this.snapshots = new StateSnapshotStore();
+    this.quarantine = new QuarantineStore();
+    this.skuControls = new SkuControlStore();
 
     // Global defaults (can be overridden per-store via env vars).
     const envBatchSize = parseInt(process.env.WOLT_BATCH_SIZE || '', 10);
@@ -71,16 +162,31 @@ export class SyncEngine {
   }
 
   async runWithOptions(store: StoreConfig, options: SyncOptions = {}): Promise<void> {
+    await this.execute(store, options, false);
+  }
+
+  /**
+   * One sync run. A preview stops once the new state is computed and returns it:
+   * it is a dry run that records its metrics in a scratch collector (so it never
+   * counts as a sync in /metrics) and doesn't write the product cache back.
+   */
+  private async execute(store: StoreConfig, options: SyncOptions, preview: boolean): Promise<SyncState | null> {
     let { dryRun = false, limit, forceFullSync = false, bootstrapState = false } = options;
+    const { skipAnomalyGuard = false, planFile, finaProductIds, finaSnapshot } = options;
+    const targeted = Array.isArray(finaProductIds);
+    if (planFile || preview) {
+      dryRun = true;
+    }
     const log = createStoreLogger(store.id);
+    const metrics = preview ? new MetricsCollector() : metricsCollector;
 
     // Start metrics collection
-    metricsCollector.startSync(store.id, store.name);
+    metrics.startSync(store.id, store.name);
 
     if (!store.enabled) {
       log.info('Store disabled, skipping.');
-      metricsCollector.endSync(store.id, 'success');
-      return;
+      metrics.endSync(store.id, 'success');
+      return null;
     }
 
     let newItemCount = 0;
@@ -92,56 +198,135 @@ export class SyncEngine {
       const previousStateCount = Object.keys(previousState).length;
       const isFirstSync = previousStateCount === 0;
 
+      if (targeted && isFirstSync) {
+        log.warn('No previous state; ignoring targeted sync until the first full sync has run.');
+        metrics.endSync(store.id, 'success');
+        return null;
+      }
+
       if (isFirstSync && !forceFullSync && !bootstrapState) {
         forceFullSync = true;
         log.warn('No previous state found. Running FULL SYNC with throttled pacing. This may take several hours.');
       }
 
-      const modeDesc = bootstrapState ? 'Bootstrap State' : (forceFullSync ? 'Full Sync' : 'Delta Sync');
-      log.info(`Starting ${modeDesc}... (Dry Run: ${dryRun}, Limit: ${limit || 'Unlimited'})`);
+      const modeDesc = targeted
+        ? `Targeted Sync (${finaProductIds.length} Fina products)`
+        : bootstrapState ? 'Bootstrap State' : (forceFullSync ? 'Full Sync' : 'Delta Sync');
+      const runId = newRunId();
+      const reasons = new Map<string, string>(); // Why each SKU is in the delta (audit journal)
+      log.info(`Starting ${modeDesc}... (Run ID: ${runId}, Dry Run: ${dryRun}, Limit: ${limit || 'Unlimited'})`);
 
       // 2. Fetch Fina Data
       log.info('Fetching Fina inventory...');
       const inventoryResult = await this.fina.getInventory(store.id);
-      metricsCollector.recordFinaInventory(store.id, inventoryResult.items.length, inventoryResult.durationMs);
+      metrics.recordFinaInventory(store.id, inventoryResult.items.length, inventoryResult.durationMs);
 
       if (inventoryResult.items.length === 0) {
         log.warn('No inventory found in Fina. Aborting sync to prevent zeroing out everything.');
-        metricsCollector.recordFinaError(store.id, 'No inventory returned');
-        metricsCollector.endSync(store.id, 'error');
-        return;
+        metrics.recordFinaError(store.id, 'No inventory returned');
+        metrics.endSync(store.id, 'error');
+        return null;
+      }
+
+      // Quarantined inventory rows have no trustworthy stock. Their details are still fetched to learn
+      // their SKUs, which then keep the last synced values instead of being treated as missing.
+      const invalidInventory = inventoryResult.invalidRows ?? [];
+      const unidentified = invalidInventory.filter(row => row.id === undefined);
+      if (unidentified.length > 0) {
+        log.error(`${unidentified.length} Fina inventory rows have no valid product ID (${unidentified[0].reasons.join('; ')}). Aborting to avoid disabling their items.`);
+        metrics.recordFinaValidation(store.id, invalidInventory.length, 0);
+        metrics.recordFinaError(store.id, `Invalid inventory: ${unidentified.length} rows without product ID`);
+        metrics.endSync(store.id, 'error');
+        return null;
       }
+      const quarantinedInventoryIds = new Set(invalidInventory.map(row => row.id as number));
 
       const inventory = inventoryResult.items;
-      const productIds = inventory.map(i => i.id);
+      const stockMap = new Map<number, number>();
+      inventory.forEach(i => stockMap.set(i.id, i.rest));
+
+      // Targeted runs only need details of the changed products; stock comes from the store inventory above
+      const productIds = targeted
+        ? [...new Set(finaProductIds)]
+        : [...inventory.map(i => i.id), ...quarantinedInventoryIds];
       log.info(`Fetching details for ${productIds.length} products...`);
 
-      const detailsResult = await this.fina.getProductDetails(productIds);
+      // Unchanged products come from the product cache; full syncs and webhook events always re-fetch.
+      // What the cache doesn't have comes from the cycle's shared snapshot, then from Fina.
+      const fetchDetails = (ids: number[]) => finaSnapshot
+        ? finaSnapshot.getDetails(ids, missing => this.fina.getProductDetails(missing))
+        : this.fina.getProductDetails(ids);
+      const detailsResult = await ProductDetailCache.fromEnv(store.id).getDetails(
+        store.id,
+        productIds,
+        stockMap,
+        fetchDetails,
+        { refresh: targeted || forceFullSync || bootstrapState, complete: !targeted, readOnly: preview }
+      );
+      metrics.recordFinaDetailsCache(store.id, detailsResult.cache.hits, productIds.length);
 
       const details = detailsResult.products;
-      if (details.length < productIds.length) {
-        log.error(`Only received ${details.length}/${productIds.length} product details. Aborting to avoid disabling valid items.`);
-        metricsCollector.recordFinaError(store.id, `Partial data: ${details.length}/${productIds.length}`);
-        metricsCollector.endSync(store.id, 'error');
-        const partialError = new Error('Partial product details received from Fina');
+      const invalidProducts = detailsResult.invalidRows ?? [];
+      metrics.recordFinaValidation(store.id, invalidInventory.length, invalidProducts.length);
+
+      // SKUs behind quarantined rows, as far as they can be resolved, keep their last synced values
+      const invalidRowMapping = SkuMapper.fromEnv(store.id).resolve([
+        ...details.filter(detail => quarantinedInventoryIds.has(detail.id)),
+        ...invalidProducts.flatMap(row => (row.salvage ? [row.salvage] : []))
+      ]);
+      const invalidRowSkus = new Set(invalidRowMapping.skus.values());
+      if (invalidInventory.length + invalidProducts.length > 0) {
+        log.warn(`Quarantined ${invalidInventory.length} inventory and ${invalidProducts.length} product rows that failed validation; ${invalidRowSkus.size} SKUs keep their last synced values.`);
+      }
+      if (!dryRun && !targeted) {
+        const validationReport: FinaValidationReport = {
+          storeId: store.id,
+          generatedAt: new Date().toISOString(),
+          inventory: invalidInventory,
+          products: invalidProducts.map(({ id, reasons: rowReasons }) => ({ id, reasons: rowReasons })),
+          quarantinedSkus: [...invalidRowSkus].sort()
+        };
+        await this.reportStore.save(store.id, 'fina-invalid', validationReport);
+      }
+
+      const received = new Set([...details.map(detail => detail.id), ...invalidProducts.flatMap(row => (row.id !== undefined ? [row.id] : []))]);
+      const missingIds = productIds.filter(id => !received.has(id));
+      if (targeted && missingIds.length > 0) {
+        // Unknown IDs in an event must not block the others; the full poll handles removed products
+        log.warn(`Only received ${details.length}/${productIds.length} product details for the targeted sync; continuing without Fina IDs ${formatIds(missingIds)}.`);
+      } else if (missingIds.length > 0) {
+        log.error(`Only received ${details.length}/${productIds.length} product details. Aborting to avoid disabling valid items. Missing Fina IDs: ${formatIds(missingIds)}`);
+        metrics.recordFinaError(store.id, `Partial data: ${details.length}/${productIds.length} (${missingIds.length} Fina IDs missing)`);
+        metrics.endSync(store.id, 'error');
+        const partialError = new Error(`Partial product details received from Fina: ${missingIds.length} of ${productIds.length} missing`);
         (partialError as any).isFinaError = true;
         (partialError as any).metricsRecorded = true;
+        (partialError as any).missingIds = missingIds;
         throw partialError;
       }
 
       // 3. Map Data
-      const stockMap = new Map<number, number>();
-      inventory.forEach(i => stockMap.set(i.id, i.rest));
+      const woltData = new Map<string, SkuSyncData>();
 
-      const woltData = new Map<string, { quantity: number, price: number, enabled: boolean }>();
+      const skuMapping = SkuMapper.fromEnv(store.id).resolve(details);
+      const finaIdToWoltSku = skuMapping.skus;
+      metrics.recordFinaDetails(store.id, finaIdToWoltSku.size, detailsResult.durationMs, detailsResult.apiCalls);
+      metrics.recordSkuMapping(store.id, skuMapping.strategyCounts);
+      log.info(`Found ${finaIdToWoltSku.size} products with Wolt SKU mapping (out of ${details.length} total). Strategies: ${formatStrategyCounts(skuMapping.strategyCounts)}`);
+      // Reports describe the whole catalog, so targeted runs leave them to the full poll
+      if (!dryRun && !targeted) {
+        await this.reportStore.save(store.id, 'sku-mapping', SkuMapper.buildReport(store.id, skuMapping));
+      }
 
-      const finaIdToWoltSku = this.fina.mapToWoltSku(details);
-      metricsCollector.recordFinaDetails(store.id, finaIdToWoltSku.size, detailsResult.durationMs, detailsResult.apiCalls);
-      log.info(`Found ${finaIdToWoltSku.size} products with Wolt SKU mapping (out of ${details.length} total).`);
+      // A targeted run only sees some of the products behind a duplicated SKU; those wait for the full poll
+      const lastConflicts = targeted ? await this.reportStore.load<SkuConflictReport>(store.id, 'sku-conflicts') : null;
+      const deferredConflicts = new Set(lastConflicts?.conflicts.map(conflict => conflict.sku) ?? []);
 
+      // Group products per SKU so duplicates are resolved by policy instead of silently merged
+      const candidatesBySku = new Map<string, SkuCandidate[]>();
       for (const product of details) {
         const woltSku = finaIdToWoltSku.get(product.id);
-        if (!woltSku) continue;
+        if (!woltSku || deferredConflicts.has(woltSku) || quarantinedInventoryIds.has(product.id)) continue;
 
         let quantity = stockMap.get(product.id) || 0;
         let enabled = quantity > 0;
@@ -157,38 +342,148 @@ export class SyncEngine {
           enabled = false;
         }
 
-        if (!woltData.has(woltSku)) {
-          woltData.set(woltSku, {
-            quantity,
-            price: product.price,
-            enabled
-          });
-        } else {
-          const existing = woltData.get(woltSku)!;
-          existing.quantity += quantity;
-          existing.price = product.price;
-          existing.enabled = existing.quantity > 0;
+        const candidates = candidatesBySku.get(woltSku) || [];
+        candidates.push({ finaId: product.id, title: product.title, price: product.price, quantity, enabled });
+        candidatesBySku.set(woltSku, candidates);
+      }
+
+      const duplicatePolicy = resolveDuplicatePolicy(store.id);
+      const priceRules = PriceRuleEngine.fromEnv(store.id);
+      const detailMap = new Map(details.map(d => [d.id, d]));
+      const now = Date.now();
+      let promotedCount = 0;
+      const vatResolver = VatResolver.fromEnv(store.id);
+      let rejectedVatCount = 0;
+      const inventoryPolicy = InventoryPolicyEngine.fromEnv(store.id);
+      const stockAdjustments: StockAdjustment[] = [];
+      const conflicts: SkuConflict[] = [];
+      const rejectedSkus = new Set<string>();
+      const sourceBySku = new Map<string, FinaProductDetail>();
+      const skuControls = await this.skuControls.active(store.id);
+
+      for (const [woltSku, candidates] of candidatesBySku.entries()) {
+        if (candidates.length > 1) {
+          conflicts.push(buildConflict(woltSku, candidates, duplicatePolicy));
+        }
+        const resolved = resolveSkuCandidates(candidates, duplicatePolicy);
+        if (!resolved) {
+          rejectedSkus.add(woltSku);
+          continue;
+        }
+
+        // Price rules only apply to valid Fina prices; invalid ones are already disabled above.
+        const source = detailMap.get(resolved.finaId);
+        if (source) {
+          sourceBySku.set(woltSku, source);
+        }
+        const hasValidPrice = typeof resolved.price === 'number' && resolved.price >= 0;
+        const priced = source && hasValidPrice ? priceRules.apply(source, woltSku, now) : { price: resolved.price };
+        if (!hasValidPrice) {
+          reasons.set(woltSku, `invalid Fina price (${resolved.price})`);
+        }
+        if (priced.discountedPrice !== undefined) {
+          promotedCount++;
+        }
+
+        const vat = source ? vatResolver.resolve(source) : {};
+        if (vat.rejectedValue !== undefined) {
+          rejectedVatCount++;
+          log.debug(`[VAT] Item ${woltSku} has VAT "${vat.rejectedValue}" outside allowed rates. Ignoring.`);
         }
+
+        // Safety buffer / rounding policies only ever lower the advertised stock
+        const quantity = inventoryPolicy.apply(woltSku, resolved.quantity);
+        if (quantity !== resolved.quantity) {
+          stockAdjustments.push({ sku: woltSku, before: resolved.quantity, after: quantity });
+          if (!reasons.has(woltSku)) {
+            reasons.set(woltSku, `inventory policy (Fina stock ${resolved.quantity} -> ${quantity})`);
+          }
+        }
+
+        // Operator overrides ("wolt-cli sku force-disable|force-enable") win over Fina availability
+        const forced = skuControls.forcedControl(woltSku);
+        if (forced) {
+          reasons.set(woltSku, `${forced.action}: ${forced.reason}`);
+        }
+
+        woltData.set(woltSku, skuControls.apply(woltSku, {
+          quantity,
+          enabled: resolved.enabled && quantity > 0,
+          price: priced.price,
+          discountedPrice: priced.discountedPrice,
+          vatPercentage: vat.vatPercentage
+        }));
+      }
+
+      if (rejectedVatCount > 0) {
+        log.warn(`${rejectedVatCount} SKUs have VAT values outside the allowed rates; their VAT was not changed.`);
+      }
+
+      if (inventoryPolicy.hasPolicies()) {
+        log.info(`Inventory policies adjusted stock for ${stockAdjustments.length} of ${woltData.size} SKUs.`);
+        if (dryRun) {
+          for (const { sku, before, after } of stockAdjustments.slice(0, MAX_DRY_RUN_ADJUSTMENTS_LOGGED)) {
+            log.info(`[DryRun] ${sku}: stock ${before} -> ${after}`);
+          }
+          if (stockAdjustments.length > MAX_DRY_RUN_ADJUSTMENTS_LOGGED) {
+            log.info(`[DryRun] ... and ${stockAdjustments.length - MAX_DRY_RUN_ADJUSTMENTS_LOGGED} more stock adjustments`);
+          }
+        }
+      }
+
+      if (priceRules.hasRules()) {
+        log.info(`Price rules applied to ${woltData.size} SKUs (${promotedCount} with active promotions).`);
+      }
+
+      metrics.recordSkuConflicts(store.id, conflicts.length);
+      if (conflicts.length > 0) {
+        log.warn(`${conflicts.length} Wolt SKUs are mapped from multiple Fina products (policy: ${duplicatePolicy}, ${rejectedSkus.size} rejected).`);
+      }
+      if (!dryRun && !targeted) {
+        const conflictReport: SkuConflictReport = {
+          storeId: store.id,
+          generatedAt: new Date().toISOString(),
+          policy: duplicatePolicy,
+          conflictCount: conflicts.length,
+          conflicts
+        };
+        await this.reportStore.save(store.id, 'sku-conflicts', conflictReport);
       }
 
       // 4. Detect Changes (DELTA SYNC LOGIC)
       let inventoryUpdates: WoltInventoryItem[] = [];
       let itemUpdates: WoltItemUpdate[] = [];
-      const newState: SyncState = {};
-      const now = Date.now();
+      const newState: SyncState = targeted ? { ...previousState } : {}; // Targeted: SKUs outside the run keep their entries
 
       for (const [sku, data] of woltData.entries()) {
-        // Add to new state
-        newState[sku] = { quantity: data.quantity, enabled: data.enabled, price: data.price, lastSeen: now };
-
         const prev = previousState[sku];
 
+        // Add to new state
+        newState[sku] = {
+          quantity: data.quantity,
+          enabled: data.enabled,
+          price: data.price,
+          discountedPrice: data.discountedPrice,
+          vatPercentage: data.vatPercentage ?? prev?.vatPercentage,
+          lastSeen: now,
+          syncedToWolt: prev?.syncedToWolt,
+          lastSentAt: prev?.lastSentAt,
+          lastConfirmedAt: prev?.lastConfirmedAt
+        };
+        if (!reasons.has(sku)) {
+          if (!prev) {
+            reasons.set(sku, 'new SKU');
+          } else if (!data.enabled && data.quantity <= 0) {
+            reasons.set(sku, 'out of stock in Fina');
+          }
+        }
+
         if (forceFullSync && !bootstrapState) {
           if (!prev) {
             newItemCount++;
           }
           inventoryUpdates.push({ sku, inventory: data.quantity });
-          itemUpdates.push({ sku, enabled: data.enabled, price: data.price });
+          itemUpdates.push(toItemUpdate(sku, data, prev, true));
           continue;
         }
 
@@ -197,7 +492,7 @@ export class SyncEngine {
           newItemCount++;
           if (!bootstrapState) {
             inventoryUpdates.push({ sku, inventory: data.quantity });
-            itemUpdates.push({ sku, enabled: data.enabled, price: data.price });
+            itemUpdates.push(toItemUpdate(sku, data));
           }
           continue;
         }
@@ -207,26 +502,57 @@ export class SyncEngine {
           inventoryUpdates.push({ sku, inventory: data.quantity });
         }
 
-        if (prev.enabled !== data.enabled || prev.price !== data.price) {
-          itemUpdates.push({ sku, enabled: data.enabled, price: data.price });
+        // Prices are compared after price rules, so rule changes also produce updates.
+        const vatChanged = data.vatPercentage !== undefined && prev.vatPercentage !== data.vatPercentage;
+        if (prev.enabled !== data.enabled || prev.price !== data.price || prev.discountedPrice !== data.discountedPrice || vatChanged) {
+          itemUpdates.push(toItemUpdate(sku, data, prev));
         }
       }
 
-      // 5. Detect Missing Items (items in state but not in Fina)
-      for (const [sku, prev] of Object.entries(previousState)) {
-        if (!woltData.has(sku)) {
-          log.warn(`Item ${sku} missing from Fina feed. Disabling and setting inventory to 0.`);
-          if (!bootstrapState) {
-            inventoryUpdates.push({ sku, inventory: 0 });
-            itemUpdates.push({ sku, enabled: false });
+      // 5. Detect Missing Items (items in state but not in Fina) - full runs only
+      if (!targeted) {
+        for (const [sku, prev] of Object.entries(previousState)) {
+          if (rejectedSkus.has(sku) || (invalidRowSkus.has(sku) && !woltData.has(sku))) {
+            // Still present in Fina, just ambiguous or invalid - keep the last confirmed values untouched.
+            newState[sku] = { ...prev };
+            continue;
+          }
+          if (!woltData.has(sku)) {
+            log.warn(`Item ${sku} missing from Fina feed. Disabling and setting inventory to 0.`);
+            reasons.set(sku, 'missing from Fina feed');
+            if (!bootstrapState) {
+              inventoryUpdates.push({ sku, inventory: 0 });
+              itemUpdates.push({ sku, enabled: false });
+            }
+            newState[sku] = { ...prev, quantity: 0, enabled: false, lastSeen: now };
+            missingItemCount++;
           }
-          newState[sku] = { quantity: 0, enabled: false, price: prev.price, lastSeen: now };
-          missingItemCount++;
         }
       }
 
+      // Quarantined SKUs (rejected by Wolt) stay out of the delta until released
+      const quarantinedSkus = await this.quarantine.skus(store.id);
+      if (quarantinedSkus.size > 0) {
+        itemUpdates = itemUpdates.filter(update => !quarantinedSkus.has(update.sku));
+        inventoryUpdates = inventoryUpdates.filter(update => !quarantinedSkus.has(update.sku));
+        keepPreviousEntries(newState, previousState, quarantinedSkus);
+        log.info(`${quarantinedSkus.size} quarantined SKUs excluded from the delta (see "wolt-cli quarantine list -s ${store.id}").`);
+      }
+
+      // Ignored SKUs are never sent; forced ones were applied to the Fina values above
+      if (skuControls.size > 0) {
+        itemUpdates = itemUpdates.filter(update => !skuControls.isIgnored(update.sku));
+        inventoryUpdates = inventoryUpdates.filter(update => !skuControls.isIgnored(update.sku));
+        keepPreviousEntries(newState, previousState, skuControls.ignored);
+        log.info(`SKU controls: ${skuControls.ignored.size} ignored, ${skuControls.forcedCount} forced (see "wolt-cli sku list -s ${store.id}").`);
+      }
+
+      if (preview) {
+        return newState;
+      }
+
       // Record change metrics
-      metricsCollector.recordChanges(store.id, itemUpdates.length, inventoryUpdates.length, newItemCount, missingItemCount);
+      metrics.recordChanges(store.id, itemUpdates.length, inventoryUpdates.length, newItemCount, missingItemCount);
 
       // Log delta summary
       const updatedSkus = new Set<string>();
@@ -253,8 +579,59 @@ export class SyncEngine {
           await this.stateManager.saveState(store.id, newState);
           log.info('Bootstrap state saved. Next sync will only send changes.');
         }
-        metricsCollector.endSync(store.id, 'success');
-        return;
+        metrics.endSync(store.id, 'success');
+        return null;
+      }
+
+      const anomalyCheck = previousStateCount > 0 ? AnomalyGuard.fromEnv(store.id).evaluate(previousState, newState) : null;
+
+      // Plan mode: write the exact delta for review; "wolt-cli apply" sends it later
+      if (planFile) {
+        const plan: SyncPlan = {
+          planVersion: SYNC_PLAN_VERSION,
+          storeId: store.id,
+          venueId: store.woltVenueId,
+          createdAt: new Date().toISOString(),
+          mode: forceFullSync ? 'full' : 'delta',
+          finaSnapshotHash: hashFinaSnapshot(inventory, details),
+          baseStateHash: hashState(previousState),
+          check: anomalyCheck,
+          itemUpdates,
+          inventoryUpdates,
+          newState
+        };
+        await writePlan(planFile, plan);
+        log.info(`Plan written to ${planFile}: ${itemUpdates.length} availability and ${inventoryUpdates.length} inventory updates.`);
+        metrics.endSync(store.id, 'success');
+        return null;
+      }
+
+      // Anomaly guard: hold deltas that look like a truncated Fina feed for operator approval
+      if (!skipAnomalyGuard && anomalyCheck) {
+        if (anomalyCheck.tripped) {
+          log.error(`[AnomalyGuard] Refusing delta: ${anomalyCheck.reasons.join('; ')}`);
+          metrics.recordDeltaHeld(store.id, anomalyCheck.reasons);
+          // Only a full run may hold (or replace) the pending delta; a webhook's partial delta would overwrite it
+          if (targeted) {
+            log.error('[AnomalyGuard] Targeted delta dropped; the next full sync re-evaluates these products.');
+          } else if (!dryRun) {
+            await this.pendingDeltas.save({
+              storeId: store.id,
+              createdAt: new Date().toISOString(),
+              baseStateHash: hashState(previousState),
+              check: anomalyCheck,
+              itemUpdates,
+              inventoryUpdates,
+              newState
+            });
+            log.error(`[AnomalyGuard] Delta held for approval. Run "wolt-cli pending approve -s ${store.id}" or "wolt-cli pending discard -s ${store.id}".`);
+          }
+          metrics.endSync(store.id, 'error');
+          return null;
+        }
+        if (!dryRun && !targeted && await this.pendingDeltas.discard(store.id)) {
+          log.info('[AnomalyGuard] Current delta passed the guard; discarded the superseded pending delta.');
+        }
       }
 
       // Apply Limit
@@ -270,106 +647,65 @@ export class SyncEngine {
       }
 
       // 6. Execute Sync (Two-Phase) - Only if there are actual changes
-      let woltItemsApiCalls = 0;
-      let woltInventoryApiCalls = 0;
       const useFirstSyncBatch = isFirstSync || forceFullSync;
-      const { batchSize: effectiveBatchSize, batchDelayMs: effectiveBatchDelay } = this.resolveBatchConfig(store.id, useFirstSyncBatch);
-      const itemsStartTime = Date.now();
+      const batchConfig = this.resolveBatchConfig(store.id, useFirstSyncBatch);
 
       // Helper to update state partially
-      const updateSyncedState = async (syncedSkus: string[]) => {
+      const updateSyncedState = async (syncedSkus: string[], sentAt: number) => {
         if (dryRun || limit) return;
+        const confirmed: SyncState = {};
         for (const sku of syncedSkus) {
           const current = newState[sku];
           if (current) {
             // Persist only what we know is confirmed on Wolt.
-            previousState[sku] = { ...current };
+            newState[sku] = markConfirmed(current, sentAt);
+            confirmed[sku] = newState[sku];
           }
         }
-        await this.stateManager.saveState(store.id, { ...previousState });
+        await this.stateManager.upsertEntries(store.id, confirmed);
       };
 
-      // Phase 1: Availability (Items API)
-      if (itemUpdates.length > 0) {
-        log.info(`Sending ${itemUpdates.length} availability updates in batches of ${effectiveBatchSize}...`);
-        if (!dryRun) {
-          const totalBatches = Math.ceil(itemUpdates.length / effectiveBatchSize);
-          for (let i = 0; i < itemUpdates.length; i += effectiveBatchSize) {
-            const batchNum = Math.floor(i / effectiveBatchSize) + 1;
-            const batch = itemUpdates.slice(i, i + effectiveBatchSize);
-            log.info(`Items batch ${batchNum}/${totalBatches} (${batch.length} items)...`);
-
-            const result = await this.wolt.updateItems(store.woltVenueId, { data: batch }, store.woltUsername, store.woltPassword, store.woltApiUrl);
-            woltItemsApiCalls++;
-            
-            // Success! Update local state so we don't retry these if we crash later
-            await updateSyncedState(batch.map(item => item.sku));
-
-            if (result.rateLimitHit) {
-              metricsCollector.recordWoltRateLimit(store.id);
-            }
-            // Delay between batches
-            if (i + effectiveBatchSize < itemUpdates.length) {
-              await new Promise(r => setTimeout(r, effectiveBatchDelay));
-            }
-          }
-        }
-      } else {
-        log.info('No availability changes to send.');
-      }
-
-      metricsCollector.recordWoltItemsUpdate(store.id, itemUpdates.length, Date.now() - itemsStartTime, woltItemsApiCalls);
-
-      if (!dryRun && itemUpdates.length > 0 && inventoryUpdates.length > 0) {
-        log.info('Waiting 3s before inventory updates...');
-        await new Promise(r => setTimeout(r, 3000));
-      }
-
-      const inventoryStartTime = Date.now();
-
-      // Phase 2: Inventory (Inventory API)
-      if (inventoryUpdates.length > 0) {
-        log.info(`Sending ${inventoryUpdates.length} inventory updates in batches of ${effectiveBatchSize}...`);
-        if (!dryRun) {
-          const totalBatches = Math.ceil(inventoryUpdates.length / effectiveBatchSize);
-          for (let i = 0; i < inventoryUpdates.length; i += effectiveBatchSize) {
-            const batchNum = Math.floor(i / effectiveBatchSize) + 1;
-            const batch = inventoryUpdates.slice(i, i + effectiveBatchSize);
-            log.info(`Inventory batch ${batchNum}/${totalBatches} (${batch.length} items)...`);
-
-            const result = await this.wolt.updateInventory(store.woltVenueId, { data: batch }, store.woltUsername, store.woltPassword, store.woltApiUrl);
-            woltInventoryApiCalls++;
-
-            // Success! Update local state
-            await updateSyncedState(batch.map(item => item.sku));
+      const audit: AuditContext = {
+        storeId: store.id,
+        venueId: store.woltVenueId,
+        runId,
+        source: targeted ? 'webhook' : 'sync',
+        previousState: { ...previousState },
+        reasons
+      };
 
-            if (result.rateLimitHit) {
-              metricsCollector.recordWoltRateLimit(store.id);
-            }
-            // Delay between batches
-            if (i + effectiveBatchSize < inventoryUpdates.length) {
-              await new Promise(r => setTimeout(r, effectiveBatchDelay));
-            }
+      // Opt-in: create SKUs Wolt doesn't know before their updates are sent (PATCH answers 404 for them,
+      // which quarantines them as unknown; created SKUs are released from the quarantine)
+      if (options.createMissing ?? parseBoolean(resolveStoreSetting(store.id, 'WOLT_CREATE_MISSING_ITEMS'), false)) {
+        const sources: MenuItemSource[] = [];
+        for (const [sku, data] of woltData.entries()) {
+          const product = sourceBySku.get(sku);
+          if (product) {
+            sources.push({ sku, product, ...data });
           }
         }
-      } else {
-        log.info('No inventory changes to send.');
+        await this.createMissingItems(store, sources, batchConfig, dryRun, audit);
       }
 
-      metricsCollector.recordWoltInventoryUpdate(store.id, inventoryUpdates.length, Date.now() - inventoryStartTime, woltInventoryApiCalls);
+      const quarantinedNow = await this.sendUpdates(store, itemUpdates, inventoryUpdates, batchConfig, dryRun, updateSyncedState, audit);
+      keepPreviousEntries(newState, previousState, quarantinedNow);
 
       // 7. Save Final State
       if (!dryRun) {
         if (!limit) {
           await this.stateManager.saveState(store.id, newState);
           log.info('Final state saved.');
+          if (!targeted) {
+            await this.snapshots.take(store.id, newState, 'sync', runId);
+          }
         } else {
           log.warn('State NOT saved because sync was limited (partial sync).');
         }
       }
 
       // End metrics - success
-      metricsCollector.endSync(store.id, 'success');
+      metrics.endSync(store.id, 'success');
+      return null;
 
     } catch (error: any) {
       const message = error?.message || String(error);
@@ -377,30 +713,473 @@ export class SyncEngine {
         if (error instanceof CircuitBreakerError) {
           const circuitName = error.circuitName.toLowerCase();
           if (circuitName.includes('fina')) {
-            metricsCollector.recordFinaError(store.id, message);
+            metrics.recordFinaError(store.id, message);
           } else if (circuitName.includes('wolt')) {
-            metricsCollector.recordWoltError(store.id, message);
+            metrics.recordWoltError(store.id, message);
           } else {
-            metricsCollector.recordWoltError(store.id, message);
+            metrics.recordWoltError(store.id, message);
           }
         } else if (error?.isFinaError) {
-          metricsCollector.recordFinaError(store.id, message);
+          metrics.recordFinaError(store.id, message);
         } else if (error?.isWoltError) {
-          metricsCollector.recordWoltError(store.id, message);
+          metrics.recordWoltError(store.id, message);
         } else {
-          metricsCollector.recordWoltError(store.id, message);
+          metrics.recordWoltError(store.id, message);
         }
       }
+      metrics.endSync(store.id, 'error');
+      throw error;
+    }
+  }
+
+  /**
+   * Two-phase send: availability/price via the Items API, then stock via the Inventory API.
+   * onBatchSynced is called after every confirmed batch (with the time it was sent) so callers can persist progress.
+   * SKUs Wolt rejects are isolated, quarantined and returned; callers must not record them as sent.
+   */
+  private async sendUpdates(
+    store: StoreConfig,
+    itemUpdates: WoltItemUpdate[],
+    inventoryUpdates: WoltInventoryItem[],
+    batchConfig: { batchSize: number; batchDelayMs: number },
+    dryRun: boolean,
+    onBatchSynced: (syncedSkus: string[], sentAt: number) => Promise<void>,
+    audit: AuditContext
+  ): Promise<Set<string>> {
+    const log = createStoreLogger(store.id);
+    const { batchSize: effectiveBatchSize, batchDelayMs: effectiveBatchDelay } = batchConfig;
+    let woltItemsApiCalls = 0;
+    let woltInventoryApiCalls = 0;
+    const quarantined: QuarantineEntry[] = [];
+    const quarantine = (rejected: RejectedSku[], endpoint: 'items' | 'inventory') => {
+      for (const { sku, reason, httpStatus } of rejected) {
+        log.warn(`[Quarantine] Wolt rejected ${sku} (${endpoint}, ${httpStatus}): ${reason}`);
+      }
+      quarantined.push(...toQuarantineEntries(rejected, endpoint, audit.runId));
+    };
+    const itemsStartTime = Date.now();
+
+    // Phase 1: Availability (Items API)
+    if (itemUpdates.length > 0) {
+      log.info(`Sending ${itemUpdates.length} availability updates in batches of ${effectiveBatchSize}...`);
+      if (!dryRun) {
+        const totalBatches = Math.ceil(itemUpdates.length / effectiveBatchSize);
+        for (let i = 0; i < itemUpdates.length; i += effectiveBatchSize) {
+          const batchNum = Math.floor(i / effectiveBatchSize) + 1;
+          const batch = itemUpdates.slice(i, i + effectiveBatchSize);
+          log.info(`Items batch ${batchNum}/${totalBatches} (${batch.length} items)...`);
+
+          const sentAt = Date.now();
+          const outcome = await sendIsolatingRejects(batch, items => this.auditJournal.track(audit, 'items', items, () =>
+            this.wolt.updateItems(store.woltVenueId, { data: items }, store.woltUsername, store.woltPassword, store.woltApiUrl)));
+          woltItemsApiCalls += outcome.results.length;
+          quarantine(outcome.rejected, 'items');
+
+          // Success! Update local state so we don't retry these if we crash later
+          await onBatchSynced(outcome.accepted.map(item => item.sku), sentAt);
+
+          if (outcome.results.some(result => result.rateLimitHit)) {
+            metricsCollector.recordWoltRateLimit(store.id);
+          }
+          // Delay between batches
+          if (i + effectiveBatchSize < itemUpdates.length) {
+            await new Promise(r => setTimeout(r, effectiveBatchDelay));
+          }
+        }
+      }
+    } else {
+      log.info('No availability changes to send.');
+    }
+
+    metricsCollector.recordWoltItemsUpdate(store.id, itemUpdates.length, Date.now() - itemsStartTime, woltItemsApiCalls);
+
+    if (!dryRun && itemUpdates.length > 0 && inventoryUpdates.length > 0) {
+      log.info('Waiting 3s before inventory updates...');
+      await new Promise(r => setTimeout(r, 3000));
+    }
+
+    const inventoryStartTime = Date.now();
+    // Don't send stock for SKUs the Items API just rejected
+    const rejectedItems = new Set(quarantined.map(entry => entry.sku));
+    inventoryUpdates = inventoryUpdates.filter(update => !rejectedItems.has(update.sku));
+
+    // Phase 2: Inventory (Inventory API)
+    if (inventoryUpdates.length > 0) {
+      log.info(`Sending ${inventoryUpdates.length} inventory updates in batches of ${effectiveBatchSize}...`);
+      if (!dryRun) {
+        const totalBatches = Math.ceil(inventoryUpdates.length / effectiveBatchSize);
+        for (let i = 0; i < inventoryUpdates.length; i += effectiveBatchSize) {
+          const batchNum = Math.floor(i / effectiveBatchSize) + 1;
+          const batch = inventoryUpdates.slice(i, i + effectiveBatchSize);
+          log.info(`Inventory batch ${batchNum}/${totalBatches} (${batch.length} items)...`);
+
+          const sentAt = Date.now();
+          const outcome = await sendIsolatingRejects(batch, items => this.auditJournal.track(audit, 'inventory', items, () =>
+            this.wolt.updateInventory(store.woltVenueId, { data: items }, store.woltUsername, store.woltPassword, store.woltApiUrl)));
+          woltInventoryApiCalls += outcome.results.length;
+          quarantine(outcome.rejected, 'inventory');
+
+          // Success! Update local state
+          await onBatchSynced(outcome.accepted.map(item => item.sku), sentAt);
+
+          if (outcome.results.some(result => result.rateLimitHit)) {
+            metricsCollector.recordWoltRateLimit(store.id);
+          }
+          // Delay between batches
+          if (i + effectiveBatchSize < inventoryUpdates.length) {
+            await new Promise(r => setTimeout(r, effectiveBatchDelay));
+          }
+        }
+      }
+    } else {
+      log.info('No inventory changes to send.');
+    }
+
+    metricsCollector.recordWoltInventoryUpdate(store.id, inventoryUpdates.length, Date.now() - inventoryStartTime, woltInventoryApiCalls);
+
+    if (quarantined.length > 0) {
+      await this.quarantine.add(store.id, quarantined);
+      metricsCollector.recordQuarantined(store.id, quarantined.map(entry => entry.sku));
+      log.warn(`[Quarantine] ${quarantined.length} SKUs quarantined; release with "wolt-cli quarantine release -s ${store.id} --sku <sku>".`);
+    }
+    return new Set(quarantined.map(entry => entry.sku));
+  }
+
+  /**
+   * Create menu items for Fina SKUs missing from the Wolt catalog, at most
+   * WOLT_CREATE_MAX_ITEMS per run. In dry-run the items are only logged. The
+   * outcome is saved as the "menu-push" report either way. A failed batch is
+   * recorded and does not stop the sync.
+   */
+  private async createMissingItems(
+    store: StoreConfig,
+    sources: MenuItemSource[],
+    batchConfig: { batchSize: number; batchDelayMs: number },
+    dryRun: boolean,
+    audit: AuditContext
+  ): Promise<MenuPushReport | null> {
+    const log = createStoreLogger(store.id);
+    const reader = WoltCatalogReader.fromEnv(store.id, this.wolt);
+    const catalog = await reader.read(store);
+    if (!catalog) {
+      log.warn('[MenuPush] Wolt catalog unavailable; cannot tell which SKUs are missing. Skipping item creation.');
+      return null;
+    }
+
+    const onWolt = new Set(catalog.items.map(item => item.sku));
+    const builder = MenuItemBuilder.fromEnv(store.id);
+    const missing = sources.filter(source => !onWolt.has(source.sku));
+    const items: WoltMenuItem[] = [];
+    const report: MenuPushReport = {
+      storeId: store.id,
+      venueId: store.woltVenueId,
+      generatedAt: new Date().toISOString(),
+      dryRun,
+      catalogFetchedAt: catalog.fetchedAt,
+      missingOnWolt: missing.length,
+      created: [],
+      skipped: [],
+      deferred: 0,
+      failed: [],
+      released: []
+    };
+    for (const source of missing) {
+      const built = builder.build(source);
+      if ('item' in built) {
+        items.push(built.item);
+      } else {
+        report.skipped.push(built.skipped);
+      }
+    }
+
+    const maxItems = SyncEngine.readPositiveInt(`STORE_${store.id}_WOLT_CREATE_MAX_ITEMS`)
+      ?? SyncEngine.readPositiveInt('WOLT_CREATE_MAX_ITEMS')
+      ?? DEFAULT_CREATE_MAX_ITEMS;
+    const toCreate = items.slice(0, maxItems);
+    report.deferred = items.length - toCreate.length;
+    log.info(`[MenuPush] ${missing.length} SKUs missing on Wolt: creating ${toCreate.length}, ${report.skipped.length} skipped, ${report.deferred} deferred.`);
+
+    if (dryRun) {
+      for (const item of toCreate.slice(0, MAX_DRY_RUN_ADJUSTMENTS_LOGGED)) {
+        log.info(`[MenuPush][DryRun] Would create ${item.sku} "${item.name}" price=${item.price} enabled=${item.enabled}${item.category ? ` category=${item.category}` : ''}${item.image_url ? ` image=${item.image_url}` : ''}`);
+      }
+      if (toCreate.length > MAX_DRY_RUN_ADJUSTMENTS_LOGGED) {
+        log.info(`[MenuPush][DryRun] ... and ${toCreate.length - MAX_DRY_RUN_ADJUSTMENTS_LOGGED} more items`);
+      }
+      for (const skipped of report.skipped.slice(0, MAX_DRY_RUN_ADJUSTMENTS_LOGGED)) {
+        log.info(`[MenuPush][DryRun] Would skip ${skipped.sku} (Fina ${skipped.finaId}): ${skipped.reason}`);
+      }
+      report.created = toCreate;
+    } else {
+      for (let i = 0; i < toCreate.length; i += batchConfig.batchSize) {
+        const batch = toCreate.slice(i, i + batchConfig.batchSize);
+        try {
+          await this.auditJournal.track(audit, 'create', batch, () =>
+            this.wolt.createItems(store.woltVenueId, { data: batch }, store.woltUsername, store.woltPassword, store.woltApiUrl));
+          report.created.push(...batch);
+        } catch (error: any) {
+          report.failed.push(...batch.map(item => item.sku));
+          metricsCollector.recordWoltError(store.id, `Item creation: ${error?.message || String(error)}`);
+          log.error(`[MenuPush] Failed to create ${batch.length} items: ${error?.message || String(error)}`);
+        }
+        if (i + batchConfig.batchSize < toCreate.length) {
+          await new Promise(r => setTimeout(r, batchConfig.batchDelayMs));
+        }
+      }
+      if (report.created.length > 0) {
+        await reader.invalidate(store.id); // The cached catalog no longer lists every SKU
+        const created = new Set(report.created.map(item => item.sku));
+        const unknown = (await this.quarantine.list(store.id))
+          .filter(entry => entry.kind === 'unknown_sku' && created.has(entry.sku))
+          .map(entry => entry.sku);
+        if (unknown.length > 0) {
+          report.released = await this.quarantine.release(store.id, unknown);
+          log.info(`[MenuPush] Released ${report.released.length} created SKUs from the quarantine; their updates are sent from the next sync.`);
+        }
+      }
+    }
+
+    await this.reportStore.save(store.id, 'menu-push', report);
+    return report;
+  }
+
+  /**
+   * Send a precomputed delta exactly as it was computed and save its state.
+   */
+  private async applyDelta(store: StoreConfig, delta: SyncDelta, source: 'plan' | 'approval' | 'restore' | 'reconcile'): Promise<void> {
+    metricsCollector.startSync(store.id, store.name);
+
+    try {
+      const previousState = await this.stateManager.loadState(store.id);
+      const onBatchSynced = async (syncedSkus: string[], sentAt: number) => {
+        const confirmed: SyncState = {};
+        for (const sku of syncedSkus) {
+          const current = delta.newState[sku];
+          if (current) {
+            delta.newState[sku] = markConfirmed(current, sentAt);
+            confirmed[sku] = delta.newState[sku];
+          }
+        }
+        await this.stateManager.upsertEntries(store.id, confirmed);
+      };
+
+      // Operator SKU controls set after the delta was computed still apply
+      const controlled = (await this.skuControls.active(store.id)).enforce(delta, previousState);
+      delta.newState = controlled.newState;
+
+      const quarantinedSkus = await this.quarantine.skus(store.id);
+      const itemUpdates = controlled.itemUpdates.filter(update => !quarantinedSkus.has(update.sku));
+      const inventoryUpdates = controlled.inventoryUpdates.filter(update => !quarantinedSkus.has(update.sku));
+      keepPreviousEntries(delta.newState, previousState, quarantinedSkus);
+
+      metricsCollector.recordChanges(store.id, itemUpdates.length, inventoryUpdates.length, 0, 0);
+      const audit: AuditContext = {
+        storeId: store.id,
+        venueId: store.woltVenueId,
+        runId: newRunId(),
+        source,
+        previousState: { ...previousState }
+      };
+      const quarantinedNow = await this.sendUpdates(store, itemUpdates, inventoryUpdates, this.resolveBatchConfig(store.id, false), false, onBatchSynced, audit);
+      keepPreviousEntries(delta.newState, previousState, quarantinedNow);
+      await this.stateManager.saveState(store.id, delta.newState);
+      await this.snapshots.take(store.id, delta.newState, source, audit.runId);
+      metricsCollector.endSync(store.id, 'success');
+    } catch (error: any) {
+      metricsCollector.recordWoltError(store.id, error?.message || String(error));
       metricsCollector.endSync(store.id, 'error');
       throw error;
     }
   }
 
+  /**
+   * The delta held by the AnomalyGuard, refusing it if the state moved since it was computed.
+   */
+  async loadApprovableDelta(store: StoreConfig): Promise<PendingDelta> {
+    const pending = await this.pendingDeltas.load(store.id);
+    if (!pending) {
+      throw new Error(`No pending delta for store ${store.id}`);
+    }
+
+    const currentHash = hashState(await this.stateManager.loadState(store.id));
+    if (currentHash !== pending.baseStateHash) {
+      throw new PlanStaleError(
+        `State for store ${store.id} changed since the delta was held (${pending.createdAt}). Discard it with "wolt-cli pending discard -s ${store.id}"; the next sync re-evaluates the catalog.`,
+        pending.baseStateHash,
+        currentHash
+      );
+    }
+    return pending;
+  }
+
+  /**
+   * Send a delta previously held by the AnomalyGuard and save its state.
+   */
+  async approvePendingDelta(store: StoreConfig): Promise<PendingDelta> {
+    const log = createStoreLogger(store.id);
+    const pending = await this.loadApprovableDelta(store);
+
+    log.warn(`[AnomalyGuard] Applying approved delta from ${pending.createdAt}: ${pending.itemUpdates.length} availability and ${pending.inventoryUpdates.length} inventory updates.`);
+    await this.applyDelta(store, pending, 'approval');
+    await this.pendingDeltas.discard(store.id);
+    log.info('[AnomalyGuard] Approved delta applied and state saved.');
+    return pending;
+  }
+
+  /**
+   * Push a plan written by "wolt-cli plan", refusing if the state moved since it was computed.
+   */
+  async applyPlan(store: StoreConfig, plan: SyncPlan): Promise<void> {
+    const log = createStoreLogger(store.id);
+    if (plan.storeId !== store.id || plan.venueId !== store.woltVenueId) {
+      throw new Error(`Plan is for store ${plan.storeId} / venue ${plan.venueId}, not store ${store.id} / venue ${store.woltVenueId}`);
+    }
+
+    const currentHash = hashState(await this.stateManager.loadState(store.id));
+    if (currentHash !== plan.baseStateHash) {
+      throw new PlanStaleError(
+        `State for store ${store.id} changed since the plan was created (${plan.createdAt}). Create a new plan.`,
+        plan.baseStateHash,
+        currentHash
+      );
+    }
+
+    log.info(`[Plan] Applying plan from ${plan.createdAt}: ${plan.itemUpdates.length} availability and ${plan.inventoryUpdates.length} inventory updates.`);
+    await this.applyDelta(store, plan, 'plan');
+    log.info('[Plan] Plan applied and state saved.');
+  }
+
+  /**
+   * Roll the state back to a snapshot. With push, SKUs whose snapshot values differ
+   * from the current state are also sent to Wolt (e.g. to undo a bad price push).
+   * The current state is snapshotted first, so a restore can itself be undone.
+   */
+  async restoreSnapshot(store: StoreConfig, snapshot: StateSnapshot, options: { push?: boolean; dryRun?: boolean } = {}): Promise<SyncDelta> {
+    const log = createStoreLogger(store.id);
+    if (snapshot.storeId !== store.id) {
+      throw new Error(`Snapshot is for store ${snapshot.storeId}, not store ${store.id}`);
+    }
+
+    const current = await this.stateManager.loadState(store.id);
+    const delta = buildRestoreDelta(current, snapshot.state);
+    if (options.dryRun) {
+      return delta;
+    }
+
+    await this.snapshots.take(store.id, current, 'pre-restore');
+    if (options.push) {
+      log.warn(`[Restore] Restoring snapshot from ${snapshot.takenAt} and pushing ${delta.itemUpdates.length} availability and ${delta.inventoryUpdates.length} inventory updates.`);
+      await this.applyDelta(store, delta, 'restore');
+    } else {
+      log.warn(`[Restore] Restoring snapshot from ${snapshot.takenAt} (local state only, nothing sent to Wolt).`);
+      await this.stateManager.saveState(store.id, snapshot.state);
+      await this.snapshots.take(store.id, snapshot.state, 'restore');
+    }
+    log.info('[Restore] State restored.');
+    return delta;
+  }
+
+  /**
+   * The state a sync would produce from the current Fina data. Nothing is sent
+   * or saved and the run doesn't show up in /metrics. Returns null when the run
+   * is aborted before a delta is computed (e.g. Fina returned no inventory).
+   */
+  async previewState(store: StoreConfig): Promise<SyncState | null> {
+    return this.execute(store, {}, true);
+  }
+
+  /**
+   * Compare the live Wolt catalog with the state (and optionally live Fina data),
+   * write the drift report and, with heal, send the expected values for at most
+   * RECONCILE_HEAL_BUDGET drifted SKUs. Returns null when the catalog is unavailable.
+   */
+  async reconcile(store: StoreConfig, options: { heal?: boolean; compareFina?: boolean } = {}): Promise<DriftReport | null> {
+    const log = createStoreLogger(store.id);
+    const config = resolveReconcileConfig(store.id);
+    const heal = options.heal ?? config.mode === 'heal';
+    const compareFina = options.compareFina ?? config.compareFina;
+
+    try {
+      const catalog = await WoltCatalogReader.fromEnv(store.id, this.wolt).read(store, { refresh: true });
+      if (!catalog) {
+        log.warn('[Reconcile] Wolt catalog unavailable; skipping reconciliation');
+        return null;
+      }
+
+      const fina = compareFina ? await this.previewState(store) : null;
+      if (compareFina && !fina) {
+        log.warn('[Reconcile] Could not compute live Fina values; comparing against state only');
+      }
+
+      const state = await this.stateManager.loadState(store.id);
+      const drift = detectDrift(state, catalog.items, fina);
+      const report: DriftReport = {
+        storeId: store.id,
+        venueId: store.woltVenueId,
+        generatedAt: new Date().toISOString(),
+        mode: heal ? 'heal' : 'report',
+        comparedFina: Boolean(fina),
+        catalogFetchedAt: catalog.fetchedAt,
+        woltItems: catalog.items.length,
+        stateEntries: Object.keys(state).length,
+        counts: countDrift(drift),
+        healed: 0,
+        deferred: 0,
+        drift
+      };
+
+      if (heal) {
+        const { delta, healedSkus, deferredSkus } = buildHealDelta(state, drift, config.healBudget, fina);
+        report.healed = healedSkus.length;
+        report.deferred = deferredSkus.length;
+        if (healedSkus.length > 0) {
+          log.warn(`[Reconcile] Healing ${healedSkus.length} drifted SKUs (${deferredSkus.length} deferred to the next run)`);
+          await this.applyDelta(store, delta, 'reconcile');
+        }
+      }
+
+      const countsText = Object.entries(report.counts).map(([kind, count]) => `${kind}=${count}`).join(', ');
+      log.info(`[Reconcile] ${drift.length} drift entries (${countsText}); healed ${report.healed}, deferred ${report.deferred}`);
+      await this.reportStore.save(store.id, 'drift', report);
+      metricsCollector.recordReconciliation({
+        storeId: store.id,
+        lastRunAt: report.generatedAt,
+        mode: report.mode,
+        woltItems: report.woltItems,
+        driftTotal: drift.length,
+        drift: report.counts,
+        healed: report.healed,
+        deferred: report.deferred
+      });
+      return report;
+    } catch (error: any) {
+      // Keep the last drift counts visible in /metrics, flagged with the failure
+      const previous = metricsCollector.getReconciliation(store.id);
+      metricsCollector.recordReconciliation({
+        storeId: store.id,
+        lastRunAt: new Date().toISOString(),
+        mode: heal ? 'heal' : 'report',
+        woltItems: previous?.woltItems ?? 0,
+        driftTotal: previous?.driftTotal ?? 0,
+        drift: previous?.drift ?? {},
+        healed: 0,
+        deferred: previous?.deferred ?? 0,
+        error: error?.message || String(error)
+      });
+      throw error;
+    }
+  }
+
   // Bootstrap state for a store without sending to Wolt
   async bootstrapState(store: StoreConfig): Promise<void> {
     return this.runWithOptions(store, { bootstrapState: true });
   }
 
+  // Sync only the given Fina products (Fina webhook events)
+  async syncProducts(store: StoreConfig, finaProductIds: number[]): Promise<void> {
+    return this.runWithOptions(store, { finaProductIds });
+  }
+
   // Force full sync (for initial setup or recovery)
   async forceFullSync(store: StoreConfig, limit?: number): Promise<void> {
     return this.runWithOptions(store, { forceFullSync: true, limit });
@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { z } from 'zod';
+import { FinaInventoryItem, FinaProductDetail, SyncState, WoltInventoryItem, WoltItemUpdate } from '../types';
+import { AnomalyCheck } from './anomalyGuard';
+
+export const SYNC_PLAN_VERSION = 1;
+
+/**
+ * A delta computed by SyncEngine, ready to be sent as-is.
+ */
+export interface SyncDelta {
+  itemUpdates: WoltItemUpdate[];
+  inventoryUpdates: WoltInventoryItem[];
+  newState: SyncState;
+}
+
+export interface SyncPlan extends SyncDelta {
+  planVersion: typeof SYNC_PLAN_VERSION;
+  storeId: number;
+  venueId: string;
+  createdAt: string;
+  mode: 'delta' | 'full';
+  finaSnapshotHash: string; // Fina inventory + product details the plan was computed from
+  baseStateHash: string;    // Sync state the plan was computed against; apply refuses if it changed
+  check: AnomalyCheck | null;
+}
+
+export class PlanStaleError extends Error {
+  constructor(message: string, public readonly expectedHash: string, public readonly actualHash: string) {
+    super(message);
+    this.name = 'PlanStaleError';
+  }
+}
+
+// Structural check only - the plan is produced by this tool, not hand-written.
+const syncPlanSchema = z.object({
+  planVersion: z.literal(SYNC_PLAN_VERSION),
+  storeId: z.number().int(),
+  venueId: z.string(),
+  createdAt: z.string(),
+  mode: z.enum(['delta', 'full']),
+  finaSnapshotHash: z.string(),
+  baseStateHash: z.string(),
+  check: z.any(),
+  itemUpdates: z.array(z.object({ sku: z.string() }).passthrough()),
+  inventoryUpdates: z.array(z.object({ sku: z.string(), inventory: z.number() })),
+  newState: z.record(z.object({ quantity: z.number(), enabled: z.boolean() }).passthrough())
+});
+
+/**
+ * JSON with object keys sorted, so equal data always hashes the same
+ * regardless of property insertion order.
+ */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  const entries = Object.keys(value as Record<string, unknown>)
+    .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+  return `{${entries.join(',')}}`;
+}
+
+export function hashJson(value: unknown): string {
+  return crypto.createHash('sha256').update(stableStringify(value)).digest('hex');
+}
+
+export function hashState(state: SyncState): string {
+  return hashJson(state);
+}
+
+export function hashFinaSnapshot(inventory: FinaInventoryItem[], details: FinaProductDetail[]): string {
+  return hashJson({
+    inventory: [...inventory].sort((a, b) => a.id - b.id),
+    details: [...details].sort((a, b) => a.id - b.id)
+  });
+}
+
+export function defaultPlanPath(storeId: number, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[:.]/g, '-');
+  return path.join(process.cwd(), 'state', 'plans', `plan-store-${storeId}-${stamp}.json`);
+}
+
+export async function writePlan(filePath: string, plan: SyncPlan): Promise<void> {
+  await fs.ensureDir(path.dirname(filePath));
+  await fs.writeJson(filePath, plan, { spaces: 2 });
+}
+
+export async function readPlan(filePath: string): Promise<SyncPlan> {
+  const raw = await fs.readJson(filePath);
+  const parsed = syncPlanSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.slice(0, 5).map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+    throw new Error(`Invalid plan file ${filePath}: ${issues}`);
+  }
+  return raw as SyncPlan;
+}
@@ -0,0 +1,117 @@
+import { resolveStoreSetting } from '../config/stores';
+import { FinaProductDetail } from '../types';
+import { logger } from '../utils/logger';
+import { getAddFieldValue, resolveCategory } from './productFields';
+
+export type VatSource = 'add_field' | 'category' | 'store';
+
+export interface VatResolution {
+  vatPercentage?: number;
+  source?: VatSource;
+  rejectedValue?: string; // Value found but not in the allowed rates
+}
+
+export interface VatConfig {
+  field?: string;                        // Fina add_field carrying the VAT rate
+  defaultPercentage?: number;            // Store-wide default
+  categoryRates: Record<string, number>; // Category -> VAT rate
+  allowedRates: number[];
+}
+
+// Georgian VAT: standard 18%, exempt 0%
+const DEFAULT_ALLOWED_RATES = [0, 18];
+
+const parseRate = (raw: string | undefined): number | undefined => {
+  if (typeof raw !== 'string') return undefined;
+  const parsed = parseFloat(raw.replace('%', '').replace(',', '.').trim());
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function parseCategoryRates(raw: string | undefined): Record<string, number> {
+  const rates: Record<string, number> = {};
+  if (!raw) return rates;
+
+  for (const token of raw.split(',').map(t => t.trim()).filter(Boolean)) {
+    const separator = token.lastIndexOf(':');
+    const category = separator > 0 ? token.slice(0, separator).trim() : '';
+    const rate = parseRate(separator > 0 ? token.slice(separator + 1) : undefined);
+    if (!category || rate === undefined) {
+      logger.warn(`[VAT] Invalid category rate "${token}". Expected "<category>:<rate>".`);
+      continue;
+    }
+    rates[category] = rate;
+  }
+  return rates;
+}
+
+/**
+ * VatResolver - determines vat_percentage for Wolt items.
+ *
+ * Sources, first valid one wins:
+ * 1. Fina add_field named by VAT_FIELD
+ * 2. VAT_CATEGORY_RATES (e.g. "Bakery:0,Alcohol:18"), matched on the product category
+ * 3. VAT_DEFAULT_PERCENTAGE
+ * Every value must be listed in VAT_ALLOWED_RATES; anything else is ignored.
+ * With no source configured, VAT is left untouched on Wolt.
+ */
+export class VatResolver {
+  constructor(private readonly storeId: number, private readonly config: VatConfig) {}
+
+  static fromEnv(storeId: number): VatResolver {
+    const allowed = (resolveStoreSetting(storeId, 'VAT_ALLOWED_RATES') || '')
+      .split(',')
+      .map(value => parseRate(value))
+      .filter((value): value is number => value !== undefined);
+
+    return new VatResolver(storeId, {
+      field: resolveStoreSetting(storeId, 'VAT_FIELD'),
+      defaultPercentage: parseRate(resolveStoreSetting(storeId, 'VAT_DEFAULT_PERCENTAGE')),
+      categoryRates: parseCategoryRates(resolveStoreSetting(storeId, 'VAT_CATEGORY_RATES')),
+      allowedRates: allowed.length > 0 ? allowed : DEFAULT_ALLOWED_RATES
+    });
+  }
+
+  isConfigured(): boolean {
+    return Boolean(this.config.field) ||
+      this.config.defaultPercentage !== undefined ||
+      Object.keys(this.config.categoryRates).length > 0;
+  }
+
+  isAllowed(rate: number): boolean {
+    return this.config.allowedRates.some(allowed => Math.abs(allowed - rate) < 1e-9);
+  }
+
+  resolve(product: FinaProductDetail): VatResolution {
+    let rejectedValue: string | undefined;
+
+    if (this.config.field) {
+      const raw = getAddFieldValue(product, this.config.field);
+      const rate = parseRate(raw);
+      if (rate !== undefined && this.isAllowed(rate)) {
+        return { vatPercentage: rate, source: 'add_field' };
+      }
+      if (raw !== undefined) {
+        rejectedValue = raw;
+      }
+    }
+
+    const category = resolveCategory(product, this.storeId);
+    const categoryRate = category !== undefined ? this.config.categoryRates[category] : undefined;
+    if (categoryRate !== undefined) {
+      if (this.isAllowed(categoryRate)) {
+        return { vatPercentage: categoryRate, source: 'category', rejectedValue };
+      }
+      rejectedValue = rejectedValue ?? String(categoryRate);
+    }
+
+    const fallback = this.config.defaultPercentage;
+    if (fallback !== undefined) {
+      if (this.isAllowed(fallback)) {
+        return { vatPercentage: fallback, source: 'store', rejectedValue };
+      }
+      rejectedValue = rejectedValue ?? String(fallback);
+    }
+
+    return { rejectedValue };
+  }
+}
@@ -3,8 +3,16 @@ import fs from 'fs-extra';
 import path from 'path';
 import { stores, validateEnvironment } from './config/stores';
 import { SyncEngine } from './core/sync';
+import { PlanStaleError } from './core/syncPlan';
+import { ReportStore } from './core/reportStore';
+import { PendingDeltaStore } from './core/anomalyGuard';
+import { resolveReconcileConfig } from './core/reconciliation';
+import { SkuControlStore, buildSkuControls } from './core/skuControls';
+import { FinaEventBuffer, isValidWebhookToken, parseFinaEvents } from './core/finaEvents';
+import { FinaSnapshot } from './core/finaSnapshot';
 import { logger } from './utils/logger';
 import { metricsCollector } from './utils/metrics';
+import { parseFutureTimeSpec } from './utils/timeSpec';
 import { getAllCircuitBreakerStats, finaCircuitBreaker, woltCircuitBreaker } from './utils/circuitBreaker';
 import dotenv from 'dotenv';
 
@@ -23,15 +31,27 @@ if (!envValidation.valid) {
 }
 
 const app = express();
-// Sync interval - configurable via env (default 15 minutes)
-const SYNC_INTERVAL_MINUTES = parseInt(process.env.SYNC_INTERVAL_MINUTES || '15', 10);
+// Fina webhooks (POST /webhooks/fina) are enabled by setting a shared secret
+const FINA_WEBHOOK_SECRET = (process.env.FINA_WEBHOOK_SECRET || '').trim();
+// Sync interval - configurable via env (default 15 minutes). With webhooks the full poll is only
+// the safety net and runs every FINA_WEBHOOK_POLL_INTERVAL_MINUTES (default 60) instead.
+const SYNC_INTERVAL_MINUTES = FINA_WEBHOOK_SECRET
+  ? parseInt(process.env.FINA_WEBHOOK_POLL_INTERVAL_MINUTES || '60', 10)
+  : parseInt(process.env.SYNC_INTERVAL_MINUTES || '15', 10);
 const SYNC_INTERVAL = SYNC_INTERVAL_MINUTES * 60 * 1000;
+// Drift reconciliation interval (only runs for stores with RECONCILE_MODE=report|heal)
+const RECONCILE_INTERVAL_MINUTES = parseInt(process.env.RECONCILE_INTERVAL_MINUTES || '360', 10);
 
 // Determine if running in single-store mode (PM2) or multi-store mode
 const STORE_ID = process.env.STORE_ID ? parseInt(process.env.STORE_ID) : null;
 const PORT = process.env.HEALTH_PORT || process.env.PORT || 3000;
 
 const engine = new SyncEngine();
+const reportStore = new ReportStore();
+const pendingDeltas = new PendingDeltaStore();
+const skuControls = new SkuControlStore();
+const finaEvents = FINA_WEBHOOK_SECRET ? FinaEventBuffer.fromEnv(runTargetedSync) : null;
+const finaSnapshot = FinaSnapshot.fromEnv(); // Shared product details within one runAllSyncs cycle
 let isSyncing = false;
 let lastSyncStatus = 'idle';
 let lastSyncTime: Date | null = null;
@@ -65,6 +85,7 @@ process.on('unhandledRejection', (reason: any) => {
 // Graceful Shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, gracefully shutting down...');
+  finaEvents?.stop();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -73,6 +94,7 @@ process.on('SIGTERM', () => {
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, gracefully shutting down...');
+  finaEvents?.stop();
   server.close(() => {
     logger.info('Server closed');
     process.exit(0);
@@ -111,6 +133,8 @@ app.get('/health', (req, res) => {
     syncCount,
     errorCount,
     uptime: uptimeFormatted,
+    webhooks: finaEvents?.getStats(),
+    finaSnapshot: STORE_ID ? undefined : finaSnapshot.getStats(),
     memory: {
       heapUsedMB: (process.memoryUsage().heapUsed / 1024 / 1024).toFixed(2),
       heapTotalMB: (process.memoryUsage().heapTotal / 1024 / 1024).toFixed(2),
@@ -144,6 +168,143 @@ app.get('/metrics/history', (req, res) => {
   res.json(metricsCollector.getSyncHistory(storeId, limit));
 });
 
+// SKU Conflict Report (Wolt SKUs mapped from multiple Fina products)
+app.get('/reports/sku-conflicts/:storeId', async (req, res) => {
+  const storeId = parseInt(req.params.storeId, 10);
+  const report = await reportStore.load(storeId, 'sku-conflicts');
+  if (!report) {
+    return res.status(404).json({ error: `No SKU conflict report for store ${storeId}` });
+  }
+  res.json(report);
+});
+
+// Drift report from the last reconciliation run
+app.get('/reports/drift/:storeId', async (req, res) => {
+  const storeId = parseInt(req.params.storeId, 10);
+  const report = await reportStore.load(storeId, 'drift');
+  if (!report) {
+    return res.status(404).json({ error: `No drift report for store ${storeId}` });
+  }
+  res.json(report);
+});
+
+// Fina rows quarantined by the last full sync (failed schema validation)
+app.get('/reports/fina-invalid/:storeId', async (req, res) => {
+  const storeId = parseInt(req.params.storeId, 10);
+  const report = await reportStore.load(storeId, 'fina-invalid');
+  if (!report) {
+    return res.status(404).json({ error: `No Fina validation report for store ${storeId}` });
+  }
+  res.json(report);
+});
+
+// Delta held by the anomaly guard (summary only; full payload via CLI "pending show --json")
+app.get('/pending-deltas/:storeId', async (req, res) => {
+  const storeId = parseInt(req.params.storeId, 10);
+  const delta = await pendingDeltas.load(storeId);
+  if (!delta) {
+    return res.status(404).json({ error: `No pending delta for store ${storeId}` });
+  }
+  res.json({
+    storeId: delta.storeId,
+    createdAt: delta.createdAt,
+    check: delta.check,
+    itemUpdates: delta.itemUpdates.length,
+    inventoryUpdates: delta.inventoryUpdates.length
+  });
+});
+
+// Approve or discard a held delta (admin endpoints)
+app.post('/pending-deltas/:storeId/:action', async (req, res) => {
+  const remoteAddress = req.ip || req.socket.remoteAddress;
+  if (remoteAddress !== '::1' && remoteAddress !== '127.0.0.1' && remoteAddress !== '::ffff:127.0.0.1') {
+    logger.warn(`Unauthorized pending delta ${req.params.action} attempt from ${remoteAddress}`);
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  const storeId = parseInt(req.params.storeId, 10);
+  const action = req.params.action.toLowerCase();
+
+  if (action === 'discard') {
+    const discarded = await pendingDeltas.discard(storeId);
+    return discarded
+      ? res.json({ message: `Pending delta for store ${storeId} discarded` })
+      : res.status(404).json({ error: `No pending delta for store ${storeId}` });
+  }
+
+  if (action !== 'approve') {
+    return res.status(400).json({ error: 'Unknown action. Use "approve" or "discard".' });
+  }
+
+  const store = stores.find(s => s.id === storeId);
+  if (!store) {
+    return res.status(404).json({ error: `Store ${storeId} not found` });
+  }
+  try {
+    await engine.loadApprovableDelta(store);
+  } catch (error: any) {
+    return error instanceof PlanStaleError
+      ? res.status(409).json({ error: error.message })
+      : res.status(404).json({ error: error.message });
+  }
+  if (isSyncing) {
+    return res.status(409).json({ error: 'Sync already in progress' });
+  }
+
+  isSyncing = true;
+  res.json({ message: `Applying pending delta for store ${storeId}` });
+
+  try {
+    await engine.approvePendingDelta(store);
+  } catch (error: any) {
+    errorCount++;
+    logger.error({ message: `[Store ${storeId}] Approving pending delta failed`, error: error.message });
+  } finally {
+    isSyncing = false;
+  }
+});
+
+// Operator SKU controls (ignore, force-disable, force-enable)
+app.get('/sku-controls/:storeId', async (req, res) => {
+  const storeId = parseInt(req.params.storeId, 10);
+  try {
+    res.json({ storeId, controls: await skuControls.list(storeId) });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Set or release SKU controls (admin endpoint). Body: { skus: [...], reason, expires? } or { skus? } for release
+app.post('/sku-controls/:storeId/:action', express.json(), async (req, res) => {
+  const remoteAddress = req.ip || req.socket.remoteAddress;
+  if (remoteAddress !== '::1' && remoteAddress !== '127.0.0.1' && remoteAddress !== '::ffff:127.0.0.1') {
+    logger.warn(`Unauthorized SKU control ${req.params.action} attempt from ${remoteAddress}`);
+    return res.status(403).json({ error: 'Forbidden' });
+  }
+
+  const storeId = parseInt(req.params.storeId, 10);
+  const action = req.params.action.toLowerCase();
+  const body = req.body || {};
+  const skus: string[] | undefined = Array.isArray(body.skus) ? body.skus.map(String) : undefined;
+
+  if (action === 'release') {
+    if (!skus && body.all !== true) {
+      return res.status(400).json({ error: 'Give "skus" or "all": true' });
+    }
+    const released = await skuControls.release(storeId, body.all === true ? undefined : skus);
+    return res.json({ storeId, released });
+  }
+
+  try {
+    const expiresAt = body.expires ? parseFutureTimeSpec(String(body.expires)) : undefined;
+    const controls = buildSkuControls(skus ?? [], action, body.reason, expiresAt);
+    await skuControls.set(storeId, controls);
+    res.json({ storeId, controls });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
 // Circuit Breaker Status
 app.get('/circuit-breakers', (req, res) => {
   res.json({
@@ -174,6 +335,31 @@ app.post('/circuit-breakers/reset/:name', (req, res) => {
   }
 });
 
+// Fina change events (stock/price per product); the products are synced within seconds
+app.post('/webhooks/fina', express.json({ limit: '1mb' }), (req, res) => {
+  if (!finaEvents) {
+    return res.status(404).json({ error: 'Fina webhooks are not enabled (set FINA_WEBHOOK_SECRET)' });
+  }
+
+  const authorization = req.get('authorization') || '';
+  const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : req.get('x-webhook-token');
+  if (!isValidWebhookToken(token, FINA_WEBHOOK_SECRET)) {
+    logger.warn(`Unauthorized Fina webhook from ${req.ip || req.socket.remoteAddress}`);
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { events, invalid } = parseFinaEvents(req.body);
+  finaEvents.recordInvalid(invalid);
+  if (events.length === 0 && invalid > 0) {
+    return res.status(400).json({ error: 'No valid events (expected storeId and productId)', invalid });
+  }
+
+  // Only stores this process syncs (all enabled stores, or STORE_ID under PM2)
+  const accepted = events.filter(event => stores.some(s => s.id === event.storeId && s.enabled && (!STORE_ID || s.id === STORE_ID)));
+  finaEvents.add(accepted);
+  res.status(202).json({ accepted: accepted.length, ignored: events.length - accepted.length, invalid });
+});
+
 // Manual Trigger Endpoint
 app.post('/trigger-sync', async (req, res) => {
   // Security: Only allow localhost
@@ -259,16 +445,24 @@ async function runAllSyncs() {
   // Each store loads ~70k products into memory; parallel would multiply this
   const syncResults: Array<{ store: number; status: string; error?: string }> = [];
 
-  for (const store of enabledStores) {
-    try {
-      logger.info(`Starting sync for Store ${store.id} (${store.name})...`);
-      await engine.run(store);
-      syncResults.push({ store: store.id, status: 'success' });
-      logger.info(`Sync completed for Store ${store.id}`);
-    } catch (error: any) {
-      logger.error(`Sync failed for Store ${store.id}: ${error.message}`);
-      syncResults.push({ store: store.id, status: 'error', error: error.message });
+  // Product details are fetched once per cycle and shared; only inventory is fetched per store
+  if (enabledStores.length > 1) {
+    finaSnapshot.begin();
+  }
+  try {
+    for (const store of enabledStores) {
+      try {
+        logger.info(`Starting sync for Store ${store.id} (${store.name})...`);
+        await engine.runWithOptions(store, { finaSnapshot });
+        syncResults.push({ store: store.id, status: 'success' });
+        logger.info(`Sync completed for Store ${store.id}`);
+      } catch (error: any) {
+        logger.error(`Sync failed for Store ${store.id}: ${error.message}`);
+        syncResults.push({ store: store.id, status: 'error', error: error.message });
+      }
     }
+  } finally {
+    finaSnapshot.end();
   }
 
   const successCount = syncResults.filter(r => r.status === 'success').length;
@@ -286,6 +480,68 @@ async function runAllSyncs() {
   logger.info(`Scheduled sync #${syncCount} complete: ${successCount} succeeded, ${failureCount} failed`);
 }
 
+// Flush of the Fina webhook buffer: sync just the changed products, unless another sync holds the lock
+async function runTargetedSync(storeId: number, productIds: number[]): Promise<boolean> {
+  if (isSyncing) {
+    return false;
+  }
+  const store = stores.find(s => s.id === storeId);
+  if (!store || !store.enabled) {
+    return true;
+  }
+
+  isSyncing = true;
+  try {
+    logger.info(`[Store ${storeId}] Fina webhook: syncing ${productIds.length} changed products`);
+    await engine.syncProducts(store, productIds);
+  } catch (error) {
+    errorCount++;
+    throw error; // The event buffer counts the failure and retries the products
+  } finally {
+    isSyncing = false;
+  }
+  return true;
+}
+
+const reconciledStores = () =>
+  stores.filter(s => s.enabled && (!STORE_ID || s.id === STORE_ID) && resolveReconcileConfig(s.id).mode !== 'off');
+
+async function runReconciliation() {
+  if (isSyncing) {
+    logger.warn('Reconciliation skipped: Sync in progress');
+    return;
+  }
+
+  const targets = reconciledStores();
+  if (targets.length === 0) {
+    return;
+  }
+
+  // Healing writes state and sends to Wolt, so it never overlaps a sync
+  isSyncing = true;
+  try {
+    for (const store of targets) {
+      try {
+        await engine.reconcile(store);
+      } catch (error: any) {
+        errorCount++;
+        logger.error({ message: `[Store ${store.id}] Reconciliation failed`, error: error.message });
+      }
+    }
+  } finally {
+    isSyncing = false;
+  }
+}
+
+function scheduleReconciliation() {
+  const reconciled = reconciledStores();
+  if (reconciled.length === 0 || !(RECONCILE_INTERVAL_MINUTES > 0)) {
+    return;
+  }
+  logger.info(`Drift reconciliation every ${RECONCILE_INTERVAL_MINUTES} minutes for stores: ${reconciled.map(s => s.id).join(', ')}`);
+  setInterval(runReconciliation, RECONCILE_INTERVAL_MINUTES * 60 * 1000);
+}
+
 // Start Server
 const server = app.listen(PORT, () => {
   if (STORE_ID) {
@@ -298,17 +554,18 @@ const server = app.listen(PORT, () => {
 
     logger.info(`Wolt Sync Service (Store ${STORE_ID}) running on port ${PORT}`);
     logger.info(`Health endpoint: http://localhost:${PORT}/health`);
-    logger.info(`Sync interval: ${SYNC_INTERVAL_MINUTES} minutes`);
+    logger.info(`Sync interval: ${SYNC_INTERVAL_MINUTES} minutes${finaEvents ? ' (safety net; Fina webhooks enabled)' : ''}`);
 
     // Initial Sync
     setTimeout(runSingleStoreSync, 5000);
 
     // Schedule
     setInterval(runSingleStoreSync, SYNC_INTERVAL);
+    scheduleReconciliation();
   } else {
     logger.info(`Wolt Sync Service (All Stores) running on port ${PORT}`);
     logger.info(`Health endpoint: http://localhost:${PORT}/health`);
-    logger.info(`Sync interval: ${SYNC_INTERVAL_MINUTES} minutes`);
+    logger.info(`Sync interval: ${SYNC_INTERVAL_MINUTES} minutes${finaEvents ? ' (safety net; Fina webhooks enabled)' : ''}`);
 
     if (enabledStoresOnStart.length === 0) {
       logger.warn('No stores enabled; sync schedule will not start until configuration is updated.');
@@ -320,5 +577,6 @@ const server = app.listen(PORT, () => {
 
     // Schedule
     setInterval(runAllSyncs, SYNC_INTERVAL);
+    scheduleReconciliation();
   }
 });
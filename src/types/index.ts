@@ -13,6 +13,7 @@ export interface FinaProductDetail {
   id: number;
   title: string;
   price: number;
+  barcode?: string;
   add_fields: FinaProductField[];
 }
 
@@ -29,7 +30,7 @@ export interface WoltItemUpdate {
   sku: string;
   enabled?: boolean;
   price?: number;
-  discounted_price?: number;
+  discounted_price?: number | null; // null clears an expired promotion
   vat_percentage?: number;
 }
 
@@ -37,13 +38,36 @@ export interface WoltItemUpdatePayload {
   data: WoltItemUpdate[];
 }
 
+// New menu item for SKUs Wolt doesn't know yet (PATCH /items ignores unknown SKUs)
+export interface WoltMenuItem {
+  sku: string;
+  name: string;
+  price: number;
+  enabled: boolean;
+  discounted_price?: number;
+  vat_percentage?: number;
+  category?: string;
+  image_url?: string;
+}
+
+export interface WoltMenuItemCreatePayload {
+  data: WoltMenuItem[];
+}
+
+export interface SyncStateEntry {
+  quantity: number;
+  enabled: boolean;
+  price?: number; // Price sent to Wolt (after price rules)
+  discountedPrice?: number;
+  vatPercentage?: number;
+  lastSeen: number; // timestamp
+  syncedToWolt?: boolean;   // Known to exist on Wolt (sent by us or found by introspection)
+  lastSentAt?: number;      // When the last batch containing this SKU was sent
+  lastConfirmedAt?: number; // When Wolt last accepted a batch containing this SKU
+}
+
 export interface SyncState {
-  [woltId: string]: {
-    quantity: number;
-    enabled: boolean;
-    price?: number;
-    lastSeen: number; // timestamp
-  };
+  [woltId: string]: SyncStateEntry;
 }
 
 export interface StoreConfig {
@@ -1,6 +1,7 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { logger } from './logger';
+import { updateJsonFileSync } from './fileLock';
 
 export interface AdaptiveBatchConfig {
   currentBatchSize: number;
@@ -46,14 +47,21 @@ export class AdaptiveBatcher {
     }
   }
 
-  private saveState(): void {
+  /**
+   * Persist one venue. The file is shared by all PM2 processes, so only this
+   * venue's entry is merged in under a cross-process lock.
+   */
+  private saveState(venueId: string): void {
     try {
-      fs.ensureDirSync(path.dirname(AdaptiveBatcher.STATE_FILE));
-      const state: AdaptiveBatchState = {};
-      for (const [venueId, config] of this.config.entries()) {
-        state[venueId] = config;
-      }
-      fs.writeJsonSync(AdaptiveBatcher.STATE_FILE, state, { spaces: 2 });
+      updateJsonFileSync<AdaptiveBatchState>(AdaptiveBatcher.STATE_FILE, {}, state => {
+        const config = this.config.get(venueId);
+        if (config) {
+          state[venueId] = config;
+        } else {
+          delete state[venueId];
+        }
+        return state;
+      });
     } catch (error) {
       logger.warn(`[AdaptiveBatcher] Failed to save state: ${(error as Error).message}`);
     }
@@ -77,7 +85,7 @@ export class AdaptiveBatcher {
     };
 
     this.config.set(venueId, config);
-    this.saveState();
+    this.saveState(venueId);
     return config;
   }
 
@@ -125,7 +133,7 @@ export class AdaptiveBatcher {
       config.optimalBatchSize = config.currentBatchSize;
     }
 
-    this.saveState();
+    this.saveState(venueId);
     return config.currentBatchSize;
   }
 
@@ -155,7 +163,7 @@ export class AdaptiveBatcher {
       `(retry after ${Math.ceil(retryAfterMs / 1000)}s, total rate limits: ${config.totalRateLimits})`
     );
 
-    this.saveState();
+    this.saveState(venueId);
     return config.currentBatchSize;
   }
 
@@ -192,7 +200,7 @@ export class AdaptiveBatcher {
    */
   reset(venueId: string): void {
     this.config.delete(venueId);
-    this.saveState();
+    this.saveState(venueId);
     logger.info(`[AdaptiveBatcher] ${venueId}: Reset configuration`);
   }
 
@@ -8,6 +8,7 @@ export interface CircuitBreakerOptions {
   successThreshold: number;      // Number of successes in half-open before closing
   timeout: number;               // Time in ms before attempting to close circuit (half-open)
   resetTimeout?: number;         // Time in ms to reset failure count if no failures occur
+  isFailure?: (error: any) => boolean; // Errors for which this returns false don't count as failures
 }
 
 export interface CircuitBreakerStats {
@@ -61,7 +62,9 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure(error);
+      if (!this.options.isFailure || this.options.isFailure(error)) {
+        this.onFailure(error);
+      }
       throw error;
     }
   }
@@ -190,7 +193,8 @@ export const woltCircuitBreaker = new CircuitBreaker({
   failureThreshold: 10,          // Higher threshold for Wolt (rate limits are expected)
   successThreshold: 3,           // Need 3 successes to close
   timeout: 120000,               // Try again after 2 minutes
-  resetTimeout: 600000           // Reset failure count after 10 minutes
+  resetTimeout: 600000,          // Reset failure count after 10 minutes
+  isFailure: (error) => !error?.isBatchRejection // A rejected payload is not an outage
 });
 
 // Helper to get all circuit breaker stats
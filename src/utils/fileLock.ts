@@ -0,0 +1,170 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+
+/**
+ * Cross-process advisory locks for files under state/ shared by several PM2
+ * processes (STORE_ID mode) and CLI commands.
+ *
+ * A lock is a `<file>.lock` sibling created with O_EXCL; it holds the owner's
+ * PID and acquisition time. Locks whose owner is gone (dead PID on this host)
+ * or that are older than staleMs are broken, so a crash never wedges the
+ * other processes.
+ */
+
+export interface FileLockOptions {
+  timeoutMs?: number;  // Give up acquiring after this long
+  staleMs?: number;    // Break locks older than this
+  retryMs?: number;    // Poll interval while waiting
+}
+
+export class FileLockTimeoutError extends Error {
+  constructor(public readonly lockPath: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock ${lockPath}`);
+    this.name = 'FileLockTimeoutError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_STALE_MS = 30000;
+const DEFAULT_RETRY_MS = 10;
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+const sleepSync = (ms: number): void => {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+};
+
+const isProcessAlive = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error: any) {
+    return error?.code === 'EPERM';
+  }
+};
+
+function tryAcquire(lockPath: string, staleMs: number): number | null {
+  try {
+    const fd = fs.openSync(lockPath, 'wx');
+    fs.writeSync(fd, JSON.stringify({ pid: process.pid, acquiredAt: Date.now() }));
+    return fd;
+  } catch (error: any) {
+    if (error?.code !== 'EEXIST') {
+      throw error;
+    }
+  }
+
+  // Held by someone else - break it if the holder is gone
+  try {
+    const seen = fs.readFileSync(lockPath, 'utf8');
+    const holder = JSON.parse(seen);
+    const expired = typeof holder.acquiredAt !== 'number' || Date.now() - holder.acquiredAt > staleMs;
+    if (expired || (typeof holder.pid === 'number' && holder.pid !== process.pid && !isProcessAlive(holder.pid))) {
+      breakLock(lockPath, seen);
+    }
+  } catch {
+    // Lock file is being written or was just released; retry
+  }
+  return null;
+}
+
+/**
+ * Remove the stale lock we read, and only that one. Another waiter may have
+ * broken it and acquired a fresh lock since, so the lock is first renamed to a
+ * path nobody else uses (atomic) and checked: a lock that is not the one we
+ * judged stale is put back.
+ */
+function breakLock(lockPath: string, seen: string): void {
+  const claimedPath = `${lockPath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.stale`;
+  fs.renameSync(lockPath, claimedPath);
+  try {
+    if (fs.readFileSync(claimedPath, 'utf8') !== seen) {
+      fs.linkSync(claimedPath, lockPath); // Fails if yet another lock was taken meanwhile
+    }
+  } finally {
+    fs.removeSync(claimedPath);
+  }
+}
+
+function release(lockPath: string, fd: number): void {
+  try {
+    fs.closeSync(fd);
+  } finally {
+    fs.removeSync(lockPath);
+  }
+}
+
+/**
+ * Run fn while holding the lock for filePath (blocking; for the synchronous state helpers).
+ */
+export function withFileLockSync<T>(filePath: string, fn: () => T, options: FileLockOptions = {}): T {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, staleMs = DEFAULT_STALE_MS, retryMs = DEFAULT_RETRY_MS } = options;
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + timeoutMs;
+  fs.ensureDirSync(path.dirname(filePath));
+
+  let fd = tryAcquire(lockPath, staleMs);
+  while (fd === null) {
+    if (Date.now() > deadline) {
+      throw new FileLockTimeoutError(lockPath, timeoutMs);
+    }
+    sleepSync(retryMs);
+    fd = tryAcquire(lockPath, staleMs);
+  }
+
+  try {
+    return fn();
+  } finally {
+    release(lockPath, fd);
+  }
+}
+
+/**
+ * Run fn while holding the lock for filePath, without blocking the event loop while waiting.
+ */
+export async function withFileLock<T>(filePath: string, fn: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, staleMs = DEFAULT_STALE_MS, retryMs = DEFAULT_RETRY_MS } = options;
+  const lockPath = `${filePath}.lock`;
+  const deadline = Date.now() + timeoutMs;
+  await fs.ensureDir(path.dirname(filePath));
+
+  let fd = tryAcquire(lockPath, staleMs);
+  while (fd === null) {
+    if (Date.now() > deadline) {
+      throw new FileLockTimeoutError(lockPath, timeoutMs);
+    }
+    await sleep(retryMs);
+    fd = tryAcquire(lockPath, staleMs);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    release(lockPath, fd);
+  }
+}
+
+/**
+ * Locked read-modify-write of a JSON file shared between processes.
+ * mutate receives the current contents (or fallback when missing/corrupt) and
+ * returns the new contents, which are written via temp file + rename so
+ * readers never see a partial file.
+ */
+export function updateJsonFileSync<T>(filePath: string, fallback: T, mutate: (current: T) => T, options?: FileLockOptions): T {
+  return withFileLockSync(filePath, () => {
+    let current = fallback;
+    try {
+      if (fs.existsSync(filePath)) {
+        current = fs.readJsonSync(filePath);
+      }
+    } catch {
+      // Corrupt file: start from the fallback
+    }
+    const next = mutate(current);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeJsonSync(tempPath, next, { spaces: 2 });
+    fs.renameSync(tempPath, filePath);
+    return next;
+  }, options);
+}
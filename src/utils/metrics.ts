@@ -11,11 +11,17 @@ export interface SyncMetrics {
   // Fina metrics
   finaProductsLoaded: number;
   finaProductsWithWoltSku: number;
+  finaSkuStrategies: Record<string, number>; // strategy label -> SKUs resolved by it
+  finaSkuConflicts: number; // Wolt SKUs mapped from more than one Fina product
   finaApiCalls: number;
   finaApiErrors: number;
   finaAuthTime?: number;
   finaInventoryFetchTime?: number;
   finaDetailsFetchTime?: number;
+  finaDetailsCacheHits: number;    // Product details served from the product cache
+  finaDetailsCacheHitRate: number; // Cache hits / products requested, 0..1
+  finaInvalidInventoryRows: number; // Inventory rows that failed validation (quarantined)
+  finaInvalidProductRows: number;   // Product rows that failed validation (quarantined)
 
   // Wolt metrics
   woltItemsUpdated: number;
@@ -23,6 +29,7 @@ export interface SyncMetrics {
   woltApiCalls: number;
   woltApiErrors: number;
   woltRateLimitHits: number;
+  woltSkusQuarantined: number; // SKUs Wolt rejected this run (excluded until released)
   woltItemsUpdateTime?: number;
   woltInventoryUpdateTime?: number;
 
@@ -31,11 +38,24 @@ export interface SyncMetrics {
   inventoryChanges: number;
   newItems: number;
   missingItems: number;
+  deltaHeldForApproval: boolean; // Refused by the anomaly guard
 
   // Error details
   errors: string[];
 }
 
+export interface ReconciliationMetrics {
+  storeId: number;
+  lastRunAt: string;
+  mode: 'report' | 'heal';
+  woltItems: number;
+  driftTotal: number;
+  drift: Record<string, number>; // Drift kind -> SKUs
+  healed: number;
+  deferred: number;
+  error?: string;
+}
+
 export interface SystemMetrics {
   uptime: number;
   memoryUsage: NodeJS.MemoryUsage;
@@ -65,11 +85,12 @@ export interface StoreCumulativeMetrics {
   consecutiveFailures: number;
 }
 
-class MetricsCollector {
+export class MetricsCollector {
   private systemMetrics: SystemMetrics;
   private readonly startTimeMs: number;
   private currentSyncs: Map<number, SyncMetrics> = new Map();
   private syncHistory: SyncMetrics[] = [];
+  private reconciliations: Map<number, ReconciliationMetrics> = new Map();
   private readonly maxHistorySize = 100;
 
   constructor() {
@@ -94,17 +115,25 @@ class MetricsCollector {
       status: 'running',
       finaProductsLoaded: 0,
       finaProductsWithWoltSku: 0,
+      finaSkuStrategies: {},
+      finaSkuConflicts: 0,
       finaApiCalls: 0,
       finaApiErrors: 0,
+      finaDetailsCacheHits: 0,
+      finaDetailsCacheHitRate: 0,
+      finaInvalidInventoryRows: 0,
+      finaInvalidProductRows: 0,
       woltItemsUpdated: 0,
       woltInventoryUpdated: 0,
       woltApiCalls: 0,
       woltApiErrors: 0,
       woltRateLimitHits: 0,
+      woltSkusQuarantined: 0,
       availabilityChanges: 0,
       inventoryChanges: 0,
       newItems: 0,
       missingItems: 0,
+      deltaHeldForApproval: false,
       errors: []
     };
 
@@ -142,6 +171,44 @@ class MetricsCollector {
     }
   }
 
+  recordFinaDetailsCache(storeId: number, hits: number, requested: number): void {
+    const metrics = this.currentSyncs.get(storeId);
+    if (metrics) {
+      metrics.finaDetailsCacheHits = hits;
+      metrics.finaDetailsCacheHitRate = requested > 0 ? hits / requested : 0;
+    }
+  }
+
+  recordFinaValidation(storeId: number, invalidInventoryRows: number, invalidProductRows: number): void {
+    const metrics = this.currentSyncs.get(storeId);
+    if (metrics) {
+      metrics.finaInvalidInventoryRows = invalidInventoryRows;
+      metrics.finaInvalidProductRows = invalidProductRows;
+    }
+  }
+
+  recordSkuMapping(storeId: number, strategyCounts: Record<string, number>): void {
+    const metrics = this.currentSyncs.get(storeId);
+    if (metrics) {
+      metrics.finaSkuStrategies = { ...strategyCounts };
+    }
+  }
+
+  recordSkuConflicts(storeId: number, conflictCount: number): void {
+    const metrics = this.currentSyncs.get(storeId);
+    if (metrics) {
+      metrics.finaSkuConflicts = conflictCount;
+    }
+  }
+
+  recordDeltaHeld(storeId: number, reasons: string[]): void {
+    const metrics = this.currentSyncs.get(storeId);
+    if (metrics) {
+      metrics.deltaHeldForApproval = true;
+      metrics.errors.push(`AnomalyGuard: ${reasons.join('; ')}`);
+    }
+  }
+
   recordFinaError(storeId: number, error: string): void {
     const metrics = this.currentSyncs.get(storeId);
     if (metrics) {
@@ -183,6 +250,14 @@ class MetricsCollector {
     }
   }
 
+  recordQuarantined(storeId: number, skus: string[]): void {
+    const metrics = this.currentSyncs.get(storeId);
+    if (metrics) {
+      metrics.woltSkusQuarantined += skus.length;
+      metrics.errors.push(`Wolt: quarantined ${skus.length} rejected SKUs`);
+    }
+  }
+
   recordChanges(storeId: number, availability: number, inventory: number, newItems: number, missingItems: number): void {
     const metrics = this.currentSyncs.get(storeId);
     if (metrics) {
@@ -193,6 +268,14 @@ class MetricsCollector {
     }
   }
 
+  recordReconciliation(result: ReconciliationMetrics): void {
+    this.reconciliations.set(result.storeId, { ...result });
+  }
+
+  getReconciliation(storeId: number): ReconciliationMetrics | undefined {
+    return this.reconciliations.get(storeId);
+  }
+
   endSync(storeId: number, status: 'success' | 'error' | 'partial'): SyncMetrics | undefined {
     const metrics = this.currentSyncs.get(storeId);
     if (!metrics) return undefined;
@@ -283,21 +366,27 @@ class MetricsCollector {
       fina: {
         products: metrics.finaProductsLoaded,
         withWoltSku: metrics.finaProductsWithWoltSku,
+        skuStrategies: metrics.finaSkuStrategies,
+        skuConflicts: metrics.finaSkuConflicts,
         apiCalls: metrics.finaApiCalls,
-        errors: metrics.finaApiErrors
+        errors: metrics.finaApiErrors,
+        detailsCacheHitRate: `${(metrics.finaDetailsCacheHitRate * 100).toFixed(1)}%`,
+        invalidRows: metrics.finaInvalidInventoryRows + metrics.finaInvalidProductRows
       },
       wolt: {
         itemsUpdated: metrics.woltItemsUpdated,
         inventoryUpdated: metrics.woltInventoryUpdated,
         apiCalls: metrics.woltApiCalls,
         errors: metrics.woltApiErrors,
-        rateLimits: metrics.woltRateLimitHits
+        rateLimits: metrics.woltRateLimitHits,
+        quarantined: metrics.woltSkusQuarantined
       },
       changes: {
         availability: metrics.availabilityChanges,
         inventory: metrics.inventoryChanges,
         new: metrics.newItems,
-        missing: metrics.missingItems
+        missing: metrics.missingItems,
+        heldForApproval: metrics.deltaHeldForApproval
       }
     };
 
@@ -362,7 +451,8 @@ class MetricsCollector {
         avgDuration: `${(s.averageDurationMs / 1000).toFixed(1)}s`,
         lastStatus: s.lastSyncStatus || 'never',
         consecutiveFailures: s.consecutiveFailures
-      }))
+      })),
+      reconciliation: Array.from(this.reconciliations.values())
     };
   }
 
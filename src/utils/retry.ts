@@ -100,6 +100,10 @@ export async function withWoltApiRetry<T>(fn: () => Promise<T>): Promise<T> {
     initialDelay: 2000, // Start with 2s delay
     backoffFactor: 2, // Exponential (2s, 4s, 8s, 16s...)
     retryIf: (error) => {
+      // Rejected payloads (per-SKU errors) fail the same way every time
+      if (error?.isBatchRejection) {
+        return false;
+      }
       const status = error?.response?.status;
       // Retry on:
       // 1. Server errors (500-599)
@@ -0,0 +1,43 @@
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
+/**
+ * Parse a CLI time argument into epoch milliseconds.
+ * Accepts a relative age ("30m", "12h", "2d", "1w" = that long ago),
+ * epoch milliseconds, or anything Date.parse understands ("2026-03-01", ISO timestamps).
+ */
+export function parseTimeSpec(spec: string, now: number = Date.now()): number {
+  const trimmed = spec.trim();
+
+  const relative = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(trimmed);
+  if (relative) {
+    return now - parseFloat(relative[1]) * UNIT_MS[relative[2].toLowerCase()];
+  }
+
+  if (/^\d{12,}$/.test(trimmed)) {
+    return parseInt(trimmed, 10);
+  }
+
+  const parsed = Date.parse(trimmed);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Invalid time "${spec}". Use e.g. 30m, 12h, 2d, 1w or an ISO date.`);
+  }
+  return parsed;
+}
+
+/**
+ * Like parseTimeSpec, but relative durations point into the future
+ * ("12h", "7d" = that long from now), e.g. for expiry dates.
+ */
+export function parseFutureTimeSpec(spec: string, now: number = Date.now()): number {
+  const relative = /^(\d+(?:\.\d+)?)\s*([smhdw])$/i.exec(spec.trim());
+  if (relative) {
+    return now + parseFloat(relative[1]) * UNIT_MS[relative[2].toLowerCase()];
+  }
+  return parseTimeSpec(spec, now);
+}
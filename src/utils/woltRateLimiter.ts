@@ -1,5 +1,6 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { updateJsonFileSync } from './fileLock';
 
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
@@ -106,23 +107,20 @@ export class WoltRateLimiter {
     }
   }
 
+  // Merged under a cross-process lock: other processes keep their keys, and a
+  // later nextAllowedAtMs written by another process for the same key wins.
   private saveState() {
     if (!this.options.key) return;
+    const key = this.options.key;
     try {
-      fs.ensureDirSync(path.dirname(WoltRateLimiter.STATE_FILE));
-      let allStates: Record<string, RateLimiterState> = {};
-      try {
-        if (fs.existsSync(WoltRateLimiter.STATE_FILE)) {
-          allStates = fs.readJsonSync(WoltRateLimiter.STATE_FILE);
-        }
-      } catch (e) { /* ignore */ }
-
-      allStates[this.options.key] = {
-        nextAllowedAtMs: this.nextAllowedAtMs,
-        learnedMinIntervalMs: this.learnedMinIntervalMs
-      };
-
-      fs.writeJsonSync(WoltRateLimiter.STATE_FILE, allStates, { spaces: 2 });
+      updateJsonFileSync<Record<string, RateLimiterState>>(WoltRateLimiter.STATE_FILE, {}, allStates => {
+        const existing = allStates[key];
+        allStates[key] = {
+          nextAllowedAtMs: Math.max(this.nextAllowedAtMs, existing?.nextAllowedAtMs || 0),
+          learnedMinIntervalMs: this.learnedMinIntervalMs
+        };
+        return allStates;
+      });
     } catch (error) {
       // Ignore write errors
     }
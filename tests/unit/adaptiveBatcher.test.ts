@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('AdaptiveBatcher persistence', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'adaptive-batch-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    vi.resetModules(); // STATE_FILE is resolved from cwd at import time
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should keep venues written by other processes', async () => {
+    const { AdaptiveBatcher } = await import('../../src/utils/adaptiveBatcher');
+    // Two instances stand in for two PM2 processes sharing state/adaptive-batch.json
+    const first = new AdaptiveBatcher();
+    const second = new AdaptiveBatcher();
+
+    first.onRateLimit('venue-a', 1000);
+    second.onSuccess('venue-b');
+    first.onSuccess('venue-a');
+
+    const saved = await fs.readJson(path.join(tmpDir, 'state', 'adaptive-batch.json'));
+    expect(Object.keys(saved).sort()).toEqual(['venue-a', 'venue-b']);
+    expect(saved['venue-a'].totalRateLimits).toBe(1);
+
+    second.reset('venue-b');
+    expect(Object.keys(await fs.readJson(path.join(tmpDir, 'state', 'adaptive-batch.json')))).toEqual(['venue-a']);
+  });
+});
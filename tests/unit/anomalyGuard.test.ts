@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AnomalyGuard } from '../../src/core/anomalyGuard';
+import { SyncState } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('AnomalyGuard', () => {
+  const catalog = (size: number, price: number = 10): SyncState => {
+    const state: SyncState = {};
+    for (let i = 0; i < size; i++) {
+      state[`SKU-${i}`] = { quantity: 5, enabled: true, price, lastSeen: 0 };
+    }
+    return state;
+  };
+
+  const guard = new AnomalyGuard({ enabled: true, maxDisablePercent: 20, maxPriceChangePercent: 30, minCatalogSize: 10 });
+
+  afterEach(() => {
+    delete process.env.ANOMALY_MAX_DISABLE_PERCENT;
+    delete process.env.STORE_4_ANOMALY_GUARD_ENABLED;
+  });
+
+  it('should pass normal deltas', () => {
+    const previous = catalog(100);
+    const next = catalog(100);
+    for (let i = 0; i < 20; i++) {
+      next[`SKU-${i}`] = { ...next[`SKU-${i}`], enabled: false, quantity: 0 };
+    }
+
+    const check = guard.evaluate(previous, next);
+    expect(check.tripped).toBe(false);
+    expect(check.disabledPercent).toBe(20);
+  });
+
+  it('should trip on mass disables and mass price changes', () => {
+    const previous = catalog(100);
+    const next = catalog(100, 12);
+    for (let i = 0; i < 21; i++) {
+      next[`SKU-${i}`] = { ...next[`SKU-${i}`], enabled: false, quantity: 0 };
+    }
+
+    const check = guard.evaluate(previous, next);
+    expect(check.tripped).toBe(true);
+    expect(check.disabledCount).toBe(21);
+    expect(check.priceChangeCount).toBe(100);
+    expect(check.reasons).toHaveLength(2);
+  });
+
+  it('should ignore catalogs below the minimum size', () => {
+    const next = catalog(5);
+    Object.values(next).forEach(entry => { entry.enabled = false; });
+
+    expect(guard.evaluate(catalog(5), next).tripped).toBe(false);
+  });
+
+  it('should read per-store settings from env', () => {
+    process.env.ANOMALY_MAX_DISABLE_PERCENT = '50';
+    process.env.STORE_4_ANOMALY_GUARD_ENABLED = 'false';
+    const previous = catalog(100);
+    const next = catalog(100);
+    for (let i = 0; i < 40; i++) {
+      next[`SKU-${i}`] = { ...next[`SKU-${i}`], enabled: false };
+    }
+
+    expect(AnomalyGuard.fromEnv(5).evaluate(previous, next).tripped).toBe(false);
+    process.env.ANOMALY_MAX_DISABLE_PERCENT = '30';
+    expect(AnomalyGuard.fromEnv(5).evaluate(previous, next).tripped).toBe(true);
+    expect(AnomalyGuard.fromEnv(4).evaluate(previous, next).tripped).toBe(false);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { AuditJournal } from '../../src/core/auditJournal';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('AuditJournal', () => {
+  let tmpDir: string;
+  let journal: AuditJournal;
+  const context = {
+    storeId: 4,
+    venueId: 'venue',
+    runId: 'run-1',
+    source: 'sync' as const,
+    previousState: { 'SKU-1': { quantity: 3, enabled: true, price: 10, lastSeen: 0 } },
+    reasons: new Map([['SKU-1', 'missing from Fina feed']]),
+  };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    journal = new AuditJournal();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should journal accepted batches with before/after values', async () => {
+    const send = vi.fn().mockResolvedValue({ success: true, itemCount: 2, rateLimitHit: false, status: 202 });
+
+    await journal.track(context, 'items', [{ sku: 'SKU-1', enabled: false }, { sku: 'SKU-2', enabled: true, price: 5 }], send);
+
+    const entries = await journal.query({ storeId: 4, since: Date.now() - 60000 });
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ runId: 'run-1', endpoint: 'items', outcome: 'accepted', httpStatus: 202, rateLimitHit: false });
+    expect(entries[0].changes[0]).toEqual({
+      sku: 'SKU-1',
+      before: { enabled: true, price: 10 },
+      after: { enabled: false },
+      reason: 'missing from Fina feed',
+    });
+    expect(entries[0].changes[1].before).toBeUndefined();
+  });
+
+  it('should journal failed batches and rethrow', async () => {
+    const error = Object.assign(new Error('Too Many Requests'), { response: { status: 429 } });
+
+    await expect(journal.track(context, 'inventory', [{ sku: 'SKU-1', inventory: 0 }], () => Promise.reject(error))).rejects.toBe(error);
+
+    const [entry] = await journal.query({ storeId: 4, since: Date.now() - 60000, sku: 'SKU-1' });
+    expect(entry).toMatchObject({ outcome: 'failed', httpStatus: 429, rateLimitHit: true, error: 'Too Many Requests' });
+    expect(entry.changes).toEqual([{ sku: 'SKU-1', before: { inventory: 3 }, after: { inventory: 0 }, reason: 'missing from Fina feed' }]);
+  });
+
+  it('should filter queries by SKU and time', async () => {
+    const send = () => Promise.resolve({ success: true, itemCount: 1, rateLimitHit: false, status: 200 });
+    await journal.track(context, 'items', [{ sku: 'SKU-2', enabled: true }], send);
+
+    expect(await journal.query({ storeId: 4, since: Date.now() - 60000, sku: 'SKU-1' })).toEqual([]);
+    expect(await journal.query({ storeId: 4, since: Date.now() + 60000 })).toEqual([]);
+    expect(await journal.query({ storeId: 5, since: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BackgroundWorker } from '../../src/core/backgroundWorker';
+import { WoltBatchRejectedError } from '../../src/adapters/woltErrors';
+import { StoreConfig } from '../../src/types';
+
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+vi.mock('../../src/adapters/fina', () => {
+  return {
+    FinaAdapter: vi.fn().mockImplementation(function () {
+      return {
+        getInventory: vi.fn().mockResolvedValue({
+          items: [
+            { id: 101, rest: 5, store_id: 1 },
+            { id: 102, rest: 3, store_id: 1 },
+            { id: 103, rest: 1, store_id: 1 }
+          ],
+          durationMs: 100
+        }),
+        getProductDetails: vi.fn().mockResolvedValue({
+          products: [101, 102, 103].map(id => ({ id, title: `Item ${id}`, price: 100, add_fields: [{ field: 'usr_column_514', value: `WOLT-${id}` }] })),
+          durationMs: 500,
+          apiCalls: 1
+        })
+      };
+    })
+  };
+});
+
+vi.mock('../../src/adapters/wolt', () => {
+  return {
+    WoltAdapter: vi.fn().mockImplementation(function () {
+      return {
+        updateInventory: vi.fn(async (_venue: string, payload: { data: unknown[] }) => ({ success: true, itemCount: payload.data.length, rateLimitHit: false })),
+        updateItems: vi.fn(async (_venue: string, payload: { data: unknown[] }) => ({ success: true, itemCount: payload.data.length, rateLimitHit: false }))
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/state', () => {
+  return {
+    StateManager: vi.fn().mockImplementation(function () {
+      return {
+        loadState: vi.fn().mockResolvedValue({}),
+        saveState: vi.fn().mockResolvedValue(undefined)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/utils/adaptiveBatcher', () => {
+  return {
+    AdaptiveBatcher: vi.fn().mockImplementation(function () {
+      return {
+        getCurrentBatchSize: vi.fn().mockReturnValue(10),
+        getRecommendedDelay: vi.fn().mockReturnValue(0),
+        onSuccess: vi.fn().mockReturnValue(10),
+        onRateLimit: vi.fn().mockReturnValue(5)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/auditJournal', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/auditJournal')>();
+  return {
+    ...actual,
+    AuditJournal: vi.fn().mockImplementation(function () {
+      return {
+        track: vi.fn((_context: unknown, _endpoint: string, _batch: unknown[], send: () => Promise<unknown>) => send())
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/quarantine', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/quarantine')>();
+  return {
+    ...actual,
+    QuarantineStore: vi.fn().mockImplementation(function () {
+      return {
+        skus: vi.fn().mockResolvedValue(new Set()),
+        add: vi.fn().mockResolvedValue(undefined)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/skuControls', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/skuControls')>();
+  return {
+    ...actual,
+    SkuControlStore: vi.fn().mockImplementation(function () {
+      return { active: vi.fn().mockResolvedValue(new actual.SkuControlSet()) };
+    })
+  };
+});
+
+const sentSkus = (mock: any) => mock.mock.calls.map((call: any[]) => call[1].data.map((item: any) => item.sku));
+
+describe('BackgroundWorker', () => {
+  const store: StoreConfig = {
+    id: 1,
+    name: 'Test Store',
+    woltVenueId: 'test-venue',
+    woltUsername: 'user',
+    woltPassword: 'pass',
+    enabled: true
+  };
+  let worker: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    worker = new BackgroundWorker(store);
+    vi.spyOn(worker, 'loadProgress').mockResolvedValue(null);
+    vi.spyOn(worker, 'saveProgress').mockResolvedValue(undefined);
+  });
+
+  it('should leave quarantined SKUs out and quarantine the ones Wolt rejects', async () => {
+    worker.quarantine.skus.mockResolvedValue(new Set(['WOLT-103']));
+    worker.wolt.updateItems.mockImplementation(async (_venue: string, payload: { data: Array<{ sku: string }> }) => {
+      if (payload.data.some(item => item.sku === 'WOLT-102')) {
+        throw new WoltBatchRejectedError('Item not found', 404, [{ sku: 'WOLT-102', kind: 'unknown_sku', reason: 'Item not found' }]);
+      }
+      return { success: true, itemCount: payload.data.length, rateLimitHit: false };
+    });
+
+    const progress = await worker.syncNextBatch();
+
+    // Resent without the bad SKU instead of failing the batch; no stock sent for it
+    expect(sentSkus(worker.wolt.updateItems)).toEqual([['WOLT-101', 'WOLT-102'], ['WOLT-101']]);
+    expect(sentSkus(worker.wolt.updateInventory)).toEqual([['WOLT-101']]);
+    expect(worker.quarantine.add).toHaveBeenCalledWith(1, [expect.objectContaining({ sku: 'WOLT-102', kind: 'unknown_sku', endpoint: 'items' })]);
+
+    const savedState = worker.stateManager.saveState.mock.calls[0][1];
+    expect(Object.keys(savedState)).toEqual(['WOLT-101']);
+    expect(progress).toMatchObject({ totalItems: 1, syncedItems: 1, remainingItems: 0 });
+  });
+});
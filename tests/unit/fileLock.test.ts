@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { spawn } from 'child_process';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import ts from 'typescript';
+import { FileLockTimeoutError, updateJsonFileSync, withFileLockSync } from '../../src/utils/fileLock';
+import { JsonStateStore } from '../../src/core/jsonStateStore';
+
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+const WRITERS = 4;
+const ITERATIONS = 40;
+
+// Each writer process does ITERATIONS locked read-modify-writes of the same JSON file,
+// through the bare lock helpers or the modules that share files under state/.
+const WORKER_SOURCE = `
+const fs = require('fs-extra');
+const { updateJsonFileSync, withFileLock } = require('./src/utils/fileLock.js');
+const { JsonStateStore } = require('./src/core/jsonStateStore.js');
+const { WoltRateLimiter } = require('./src/utils/woltRateLimiter.js');
+const { AdaptiveBatcher } = require('./src/utils/adaptiveBatcher.js');
+const [file, id, iterations, mode] = process.argv.slice(2);
+
+async function main() {
+  const stateStore = new JsonStateStore(process.cwd());
+  await stateStore.loadState(1);
+  const batcher = mode === 'batcher' ? new AdaptiveBatcher() : null;
+  for (let i = 0; i < Number(iterations); i++) {
+    if (mode === 'state') {
+      await stateStore.upsertEntries(1, { ['SKU-' + id + '-' + i]: { quantity: i, enabled: true, price: 1, lastSeen: 0 } });
+    } else if (mode === 'rate-limiter') {
+      WoltRateLimiter.fromEnv('venue-' + id + '-' + i).onRateLimited('1');
+    } else if (mode === 'batcher') {
+      batcher.getCurrentBatchSize('venue-' + id + '-' + i);
+    } else if (mode === 'sync') {
+      updateJsonFileSync(file, {}, state => {
+        state.total = (state.total || 0) + 1;
+        state['writer-' + id] = (state['writer-' + id] || 0) + 1;
+        return state;
+      });
+    } else {
+      await withFileLock(file, async () => {
+        const state = (await fs.pathExists(file)) ? await fs.readJson(file) : {};
+        state.total = (state.total || 0) + 1;
+        state['writer-' + id] = (state['writer-' + id] || 0) + 1;
+        await new Promise(resolve => setTimeout(resolve, 1)); // widen the race window
+        await fs.writeJson(file, state);
+      });
+    }
+  }
+}
+main().catch(error => { console.error(error); process.exit(1); });
+`;
+
+type WorkerMode = 'sync' | 'async' | 'state' | 'rate-limiter' | 'batcher';
+
+const runWorker = (dir: string, file: string, id: number, mode: WorkerMode, cwd: string = dir): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [path.join(dir, 'worker.js'), file, String(id), String(ITERATIONS), mode], {
+      cwd,
+      env: { ...process.env, NODE_PATH: path.join(process.cwd(), 'node_modules') },
+      stdio: ['ignore', 'ignore', 'pipe']
+    });
+    let stderr = '';
+    child.stderr.on('data', chunk => { stderr += chunk; });
+    child.on('exit', code => (code === 0 ? resolve() : reject(new Error(`worker ${id} exited ${code}: ${stderr}`))));
+  });
+
+describe('fileLock', () => {
+  let tmpDir: string;
+
+  beforeAll(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-lock-'));
+    const sources = await fs.readdir(path.join(process.cwd(), 'src'), { recursive: true });
+    for (const relative of sources.filter(name => name.endsWith('.ts'))) {
+      const source = await fs.readFile(path.join(process.cwd(), 'src', relative), 'utf8');
+      const compiled = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+      });
+      await fs.outputFile(path.join(tmpDir, 'src', relative.replace(/\.ts$/, '.js')), compiled.outputText);
+    }
+    await fs.writeFile(path.join(tmpDir, 'worker.js'), WORKER_SOURCE);
+  });
+
+  afterAll(async () => {
+    await fs.remove(tmpDir);
+  });
+
+  it.each(['sync', 'async'] as const)('should not lose updates from concurrent %s writer processes', async (mode) => {
+    const file = path.join(tmpDir, `shared-${mode}.json`);
+
+    await Promise.all(Array.from({ length: WRITERS }, (_, id) => runWorker(tmpDir, file, id, mode)));
+
+    const state = await fs.readJson(file);
+    expect(state.total).toBe(WRITERS * ITERATIONS);
+    for (let id = 0; id < WRITERS; id++) {
+      expect(state[`writer-${id}`]).toBe(ITERATIONS);
+    }
+    expect(await fs.pathExists(`${file}.lock`)).toBe(false);
+  }, 60000);
+
+  it('should not lose confirmed state batches from concurrent processes', async () => {
+    const cwd = await fs.mkdtemp(path.join(tmpDir, 'state-'));
+
+    await Promise.all(Array.from({ length: WRITERS }, (_, id) => runWorker(tmpDir, '', id, 'state', cwd)));
+
+    const state = await new JsonStateStore(cwd).loadState(1);
+    expect(Object.keys(state)).toHaveLength(WRITERS * ITERATIONS);
+    expect(state['SKU-3-39']).toMatchObject({ quantity: 39 });
+  }, 60000);
+
+  it.each([
+    ['rate-limiter', 'rate-limits.json'],
+    ['batcher', 'adaptive-batch.json']
+  ] as const)('should keep every venue saved by concurrent %s processes', async (mode, fileName) => {
+    const cwd = await fs.mkdtemp(path.join(tmpDir, `${mode}-`));
+
+    await Promise.all(Array.from({ length: WRITERS }, (_, id) => runWorker(tmpDir, '', id, mode, cwd)));
+
+    const saved = await fs.readJson(path.join(cwd, 'state', fileName));
+    expect(Object.keys(saved)).toHaveLength(WRITERS * ITERATIONS);
+  }, 60000);
+
+  it('should break a lock left behind by a dead process', () => {
+    const file = path.join(tmpDir, 'stale.json');
+    fs.writeFileSync(`${file}.lock`, JSON.stringify({ pid: 999999999, acquiredAt: Date.now() }));
+
+    updateJsonFileSync(file, {} as Record<string, number>, state => ({ ...state, a: 1 }), { timeoutMs: 1000 });
+
+    expect(fs.readJsonSync(file)).toEqual({ a: 1 });
+  });
+
+  it('should time out while a live process holds the lock', () => {
+    const file = path.join(tmpDir, 'held.json');
+    withFileLockSync(file, () => {
+      // Re-entrant acquisition from the same process is not supported: it waits like any other holder
+      expect(() => withFileLockSync(file, () => undefined, { timeoutMs: 50 })).toThrow(FileLockTimeoutError);
+    });
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { FinaAdapter } from '../../src/adapters/fina';
+import { FinaTokenManager } from '../../src/adapters/finaToken';
 import { FinaProductDetail } from '../../src/types';
 
 // Mock logger
@@ -12,6 +13,21 @@ vi.mock('../../src/utils/logger', () => ({
   },
 }));
 
+// Pass-through breaker so failures in one test don't open the shared Fina circuit
+const breaker = vi.hoisted(() => ({ open: false }));
+vi.mock('../../src/utils/circuitBreaker', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/utils/circuitBreaker')>();
+  return {
+    ...actual,
+    finaCircuitBreaker: {
+      execute: async (fn: () => Promise<unknown>) => {
+        if (breaker.open) throw new actual.CircuitBreakerError('Circuit breaker "Fina API" is OPEN', 'Fina API', 'open');
+        return fn();
+      }
+    }
+  };
+});
+
 describe('FinaAdapter', () => {
   let adapter: FinaAdapter;
 
@@ -94,4 +110,137 @@ describe('FinaAdapter', () => {
       expect(mapping.get(500)).toBe('WOLT-500');
     });
   });
+
+  describe('getProductDetails', () => {
+    const rejected = (status: number) => Object.assign(new Error(`HTTP ${status}`), { response: { status } });
+    let post: ReturnType<typeof vi.fn>;
+
+    const tokens = { getToken: vi.fn(), invalidate: vi.fn(), refresh: vi.fn() };
+    const createAdapter = (): FinaAdapter => {
+      const fina = new FinaAdapter(tokens as unknown as FinaTokenManager);
+      (fina as any).client = { post };
+      return fina;
+    };
+
+    beforeEach(() => {
+      process.env.FINA_DETAILS_CHUNK_SIZE = '2';
+      process.env.FINA_DETAILS_CONCURRENCY = '2';
+      tokens.getToken.mockResolvedValue('token');
+      post = vi.fn(async (_url: string, chunk: number[]) => ({
+        data: { products: chunk.map(id => ({ id, title: `P${id}`, price: id, add_fields: [] })) }
+      }));
+    });
+
+    afterEach(() => {
+      breaker.open = false;
+      delete process.env.FINA_DETAILS_CHUNK_SIZE;
+      delete process.env.FINA_DETAILS_CONCURRENCY;
+    });
+
+    it('should fetch chunks with bounded concurrency', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const fetchChunk = post.getMockImplementation()!;
+      post.mockImplementation(async (url: string, chunk: number[]) => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setImmediate(resolve));
+        inFlight--;
+        return fetchChunk(url, chunk);
+      });
+
+      const result = await createAdapter().getProductDetails([1, 2, 3, 4, 5, 6, 7]);
+
+      expect(post).toHaveBeenCalledTimes(4);
+      expect(maxInFlight).toBe(2);
+      expect(result.products.map(p => p.id).sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+      expect(result).toMatchObject({ apiCalls: 4, missingIds: [], failedChunks: 0 });
+    });
+
+    it('should retry only failed chunks and report the IDs still missing', async () => {
+      const fetchChunk = post.getMockImplementation()!;
+      let failuresOf34 = 0;
+      post.mockImplementation(async (url: string, chunk: number[]) => {
+        if (chunk[0] === 3 && failuresOf34++ === 0) throw rejected(400);
+        if (chunk[0] === 5) throw rejected(400);
+        return fetchChunk(url, chunk);
+      });
+
+      const result = await createAdapter().getProductDetails([1, 2, 3, 4, 5, 6]);
+
+      expect(post.mock.calls.map(call => call[1])).toEqual([[1, 2], [3, 4], [5, 6], [3, 4], [5, 6]]);
+      expect(result).toMatchObject({ apiCalls: 5, missingIds: [5, 6], failedChunks: 1 });
+    });
+
+    it('should drop a rejected token and retry with a new one', async () => {
+      vi.useFakeTimers();
+      const fetchChunk = post.getMockImplementation()!;
+      tokens.getToken.mockResolvedValueOnce('stale').mockResolvedValue('fresh');
+      post.mockImplementation(async (url: string, chunk: number[], config: { headers: { Authorization: string } }) => {
+        if (config.headers.Authorization === 'Bearer stale') throw rejected(401);
+        return fetchChunk(url, chunk);
+      });
+
+      const resultPromise = createAdapter().getProductDetails([1, 2]);
+      await vi.runAllTimersAsync();
+      const result = await resultPromise;
+      vi.useRealTimers();
+
+      expect(tokens.invalidate).toHaveBeenCalledWith('stale');
+      expect(post.mock.calls.map(call => call[2].headers.Authorization)).toEqual(['Bearer stale', 'Bearer fresh']);
+      expect(result.missingIds).toEqual([]);
+    });
+
+    it('should not retry requests when the login itself failed', async () => {
+      tokens.getToken.mockRejectedValue(new Error('Fina Auth Failed'));
+
+      const result = await createAdapter().getProductDetails([1, 2]);
+
+      expect(tokens.getToken).toHaveBeenCalledTimes(2); // Once per pass, not once per retry
+      expect(post).not.toHaveBeenCalled();
+      expect(result.missingIds).toEqual([1, 2]);
+    });
+
+    it('should fail the whole call on a malformed payload without retrying', async () => {
+      post.mockResolvedValue({ data: '<!DOCTYPE html><html><body>Login</body></html>' });
+
+      await expect(createAdapter().getProductDetails([1, 2, 3, 4])).rejects.toThrow(/HTML page/);
+      expect(post).toHaveBeenCalledTimes(2); // The two chunks already in flight, no retries
+      expect(tokens.invalidate).toHaveBeenCalledWith('token');
+    });
+
+    it('should stop fetching chunks after a malformed payload', async () => {
+      const fetchChunk = post.getMockImplementation()!;
+      post.mockImplementation(async (url: string, chunk: number[]) => {
+        if (chunk[0] === 1) return { data: { unexpected: true } };
+        await new Promise(resolve => setImmediate(resolve));
+        return fetchChunk(url, chunk);
+      });
+
+      await expect(createAdapter().getProductDetails([1, 2, 3, 4, 5, 6, 7, 8])).rejects.toThrow();
+      await new Promise(resolve => setImmediate(resolve));
+
+      // The malformed first chunk and the one already in flight; the rest of the queue is dropped
+      expect(post.mock.calls.map(call => call[1])).toEqual([[1, 2], [3, 4]]);
+    });
+
+    it('should report invalid rows separately from missing ones', async () => {
+      post.mockResolvedValue({ data: { products: [{ id: 1, title: 'P1', price: 1, add_fields: [] }, { id: 2, title: 7, price: 2 }] } });
+
+      const result = await createAdapter().getProductDetails([1, 2]);
+
+      expect(result.products.map(p => p.id)).toEqual([1]);
+      expect(result.invalidRows).toEqual([expect.objectContaining({ id: 2, reasons: ['title: Expected string, received number'] })]);
+      expect(result.missingIds).toEqual([2]);
+    });
+
+    it('should stop fetching once the circuit breaker is open', async () => {
+      process.env.FINA_DETAILS_CONCURRENCY = '1';
+      breaker.open = true;
+
+      const result = await createAdapter().getProductDetails([1, 2, 3, 4, 5, 6]);
+
+      expect(post).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ apiCalls: 1, missingIds: [1, 2, 3, 4, 5, 6], failedChunks: 3 });
+    });
+  });
 });
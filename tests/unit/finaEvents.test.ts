@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FinaEventBuffer, isValidWebhookToken, parseFinaEvents } from '../../src/core/finaEvents';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+describe('parseFinaEvents', () => {
+  it('should accept single events, arrays and product ID lists', () => {
+    expect(parseFinaEvents({ storeId: '5', productId: 101, type: 'stock' })).toEqual({
+      events: [{ storeId: 5, productId: 101, type: 'stock' }],
+      invalid: 0
+    });
+    expect(parseFinaEvents({ events: [{ storeId: 5, productId: 1 }, { storeId: 5 }] }).invalid).toBe(1);
+    expect(parseFinaEvents([{ storeId: 5, productId: 1 }, { storeId: 0, productId: 2 }]).events).toHaveLength(1);
+    expect(parseFinaEvents({ storeId: 5, productIds: [1, '2', 'x'] })).toEqual({
+      events: [{ storeId: 5, productId: 1 }, { storeId: 5, productId: 2 }],
+      invalid: 1
+    });
+    expect(parseFinaEvents('nope')).toEqual({ events: [], invalid: 1 });
+  });
+
+  it('should only accept the configured token', () => {
+    expect(isValidWebhookToken('secret', 'secret')).toBe(true);
+    expect(isValidWebhookToken('secret2', 'secret')).toBe(false);
+    expect(isValidWebhookToken(undefined, 'secret')).toBe(false);
+    expect(isValidWebhookToken('', '')).toBe(false);
+  });
+});
+
+describe('FinaEventBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const event = (storeId: number, productId: number) => ({ storeId, productId });
+
+  it('should coalesce events per store until it has been quiet', async () => {
+    const flush = vi.fn().mockResolvedValue(true);
+    const buffer = new FinaEventBuffer(flush, { debounceMs: 1000, maxWaitMs: 10000, maxBatch: 100 });
+
+    buffer.add([event(1, 10), event(1, 11), event(2, 20)]);
+    await vi.advanceTimersByTimeAsync(800);
+    buffer.add([event(1, 10), event(1, 12)]);
+    await vi.advanceTimersByTimeAsync(800);
+
+    expect(flush).toHaveBeenCalledTimes(1);
+    expect(flush).toHaveBeenCalledWith(2, [20]);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(flush).toHaveBeenLastCalledWith(1, [10, 11, 12]);
+    expect(buffer.getStats()).toMatchObject({ received: 5, flushes: 2, pending: {} });
+  });
+
+  it('should flush at maxWait while events keep arriving, and right away at maxBatch', async () => {
+    const flush = vi.fn().mockResolvedValue(true);
+    const buffer = new FinaEventBuffer(flush, { debounceMs: 1000, maxWaitMs: 2500, maxBatch: 3 });
+
+    for (let i = 0; i < 4; i++) {
+      buffer.add([event(1, i)]);
+      await vi.advanceTimersByTimeAsync(900);
+    }
+    expect(flush).toHaveBeenCalledWith(1, [0, 1, 2]);
+
+    buffer.add([event(2, 1), event(2, 2), event(2, 3)]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(flush).toHaveBeenLastCalledWith(2, [1, 2, 3]);
+  });
+
+  it('should keep the products and retry while the store is busy', async () => {
+    const flush = vi.fn().mockResolvedValueOnce(false).mockResolvedValue(true);
+    const buffer = new FinaEventBuffer(flush, { debounceMs: 100, maxWaitMs: 1000, maxBatch: 100 });
+
+    buffer.add([event(1, 10)]);
+    await vi.advanceTimersByTimeAsync(100);
+    buffer.add([event(1, 11)]);
+    expect(buffer.getStats().pending).toEqual({ 1: 2 });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(flush).toHaveBeenCalledTimes(2);
+    expect(flush).toHaveBeenLastCalledWith(1, [10, 11]);
+    buffer.stop();
+  });
+  it('should retry the products of a failed flush and give up after repeated failures', async () => {
+    const flush = vi.fn().mockRejectedValueOnce(new Error('Wolt 503')).mockResolvedValueOnce(true);
+    const buffer = new FinaEventBuffer(flush, { debounceMs: 100, maxWaitMs: 1000, maxBatch: 100 });
+
+    buffer.add([event(1, 10), event(1, 11)]);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(buffer.getStats()).toMatchObject({ failedFlushes: 1, flushes: 0, pending: { 1: 2 } });
+
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(flush).toHaveBeenCalledTimes(2);
+    expect(flush).toHaveBeenLastCalledWith(1, [10, 11]);
+    expect(buffer.getStats()).toMatchObject({ failedFlushes: 1, flushes: 1, pending: {} });
+
+    flush.mockRejectedValue(new Error('Fina down'));
+    buffer.add([event(1, 12)]);
+    await vi.advanceTimersByTimeAsync(100 + 30000 + 60000);
+    expect(flush).toHaveBeenCalledTimes(5);
+    expect(buffer.getStats()).toMatchObject({ failedFlushes: 4, pending: {} });
+    buffer.stop();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FinaResponseError,
+  parseAuthResponse,
+  parseInventoryResponse,
+  parseProductsResponse
+} from '../../src/adapters/finaSchemas';
+
+describe('Fina response schemas', () => {
+  it('should fail fast on payloads that are not the expected JSON', () => {
+    expect(() => parseInventoryResponse('<!DOCTYPE html><html><body>Login</body></html>')).toThrow(/HTML page/);
+    expect(() => parseProductsResponse({ error: 'Session expired' })).toThrow(/without a "products" array/);
+    expect(() => parseAuthResponse('<html>')).toThrow(FinaResponseError);
+    expect(() => parseAuthResponse({ token: '' })).toThrow(/without a token/);
+    expect(parseAuthResponse({ token: 'abc', expires_in: '3600' })).toEqual({ token: 'abc', expiresInSeconds: 3600 });
+  });
+
+  it('should quarantine invalid inventory rows with per-field reasons', () => {
+    const result = parseInventoryResponse({
+      store_rest: [
+        { id: 1, rest: 2.5, store_id: 5 },
+        { id: 2, rest: null, store_id: 5 },
+        { id: 'x', rest: 1 }
+      ]
+    });
+
+    expect(result.items).toEqual([{ id: 1, rest: 2.5, store_id: 5 }]);
+    expect(result.invalid).toEqual([
+      { id: 2, reasons: ['rest: Expected number, received null'] },
+      { id: undefined, reasons: ['id: Expected number, received string'] }
+    ]);
+  });
+
+  it('should normalize product rows and salvage what invalid ones still say', () => {
+    const result = parseProductsResponse({
+      products: [
+        { id: 1, title: null, price: null, barcode: 4006381333931, add_fields: null },
+        { id: 2, title: 'Bread', price: 200, add_fields: [{ field: 'usr_column_514', value: 514 }] },
+        { id: 3, title: { en: 'Milk' }, price: 100, add_fields: [{ field: 'usr_column_514', value: 'WOLT-3' }, { value: 'x' }] }
+      ]
+    });
+
+    expect(result.products).toEqual([
+      { id: 1, title: '', price: null, barcode: '4006381333931', add_fields: [] },
+      { id: 2, title: 'Bread', price: 200, add_fields: [{ field: 'usr_column_514', value: '514' }] }
+    ]);
+    expect(result.invalid).toHaveLength(1);
+    expect(result.invalid[0].id).toBe(3);
+    expect(result.invalid[0].reasons).toEqual(['title: Expected string, received object', 'add_fields.1.field: Required']);
+    expect(result.invalid[0].salvage?.add_fields).toEqual([{ field: 'usr_column_514', value: 'WOLT-3' }]);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FinaSnapshot } from '../../src/core/finaSnapshot';
+import { FinaProductDetail } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+const NOW = Date.parse('2026-03-01T10:00:00Z');
+const MINUTE = 60 * 1000;
+
+const product = (id: number): FinaProductDetail => ({ id, title: `Product ${id}`, price: id, add_fields: [] });
+
+describe('FinaSnapshot', () => {
+  const fetch = vi.fn(async (ids: number[]) => ({ products: ids.map(product), durationMs: 5, apiCalls: 1 }));
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    fetch.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fetch each product once per cycle across stores', async () => {
+    const snapshot = new FinaSnapshot({ maxProducts: 100, maxAgeMs: 60 * MINUTE });
+    snapshot.begin();
+
+    await snapshot.getDetails([1, 2, 3], fetch);
+    vi.setSystemTime(NOW + 5 * MINUTE);
+    const second = await snapshot.getDetails([2, 3, 4], fetch);
+
+    expect(fetch).toHaveBeenLastCalledWith([4]);
+    expect(second.products.map(p => p.id).sort()).toEqual([2, 3, 4]);
+    expect(snapshot.getStats()).toMatchObject({ active: true, ageSeconds: 300, products: 4, hits: 2, fetched: 4 });
+
+    snapshot.end();
+    expect(snapshot.getStats()).toMatchObject({ active: false, products: 0, hits: 2 });
+    await snapshot.getDetails([1], fetch);
+    expect(fetch).toHaveBeenLastCalledWith([1]); // Outside a cycle: pass-through
+  });
+
+  it('should stay within maxProducts and rebuild after maxAge', async () => {
+    const snapshot = new FinaSnapshot({ maxProducts: 2, maxAgeMs: 10 * MINUTE });
+    snapshot.begin();
+
+    const first = await snapshot.getDetails([1, 2, 3], fetch);
+    expect(first.products).toHaveLength(3);
+    expect(snapshot.getStats()).toMatchObject({ products: 2, full: true });
+
+    await snapshot.getDetails([1, 3], fetch);
+    expect(fetch).toHaveBeenLastCalledWith([3]);
+
+    vi.setSystemTime(NOW + 11 * MINUTE);
+    await snapshot.getDetails([1], fetch);
+    expect(fetch).toHaveBeenLastCalledWith([1]);
+    expect(snapshot.getStats().ageSeconds).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FinaTokenManager, decodeJwtExpiry } from '../../src/adapters/finaToken';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() }
+}));
+
+const NOW = Date.parse('2026-03-01T10:00:00Z');
+const MINUTE = 60 * 1000;
+
+const jwt = (exp: number): string =>
+  ['{"alg":"HS256"}', JSON.stringify({ sub: 'api', exp })].map(part => Buffer.from(part).toString('base64url')).join('.') + '.signature';
+
+describe('FinaTokenManager', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should read the expiry from a JWT', () => {
+    expect(decodeJwtExpiry(jwt(NOW / 1000 + 600))).toBe(NOW + 10 * MINUTE);
+    expect(decodeJwtExpiry('opaque-token')).toBeUndefined();
+    expect(decodeJwtExpiry('a.not-json.c')).toBeUndefined();
+  });
+
+  it('should reuse the token and refresh it before it expires', async () => {
+    const login = vi.fn()
+      .mockResolvedValueOnce({ token: jwt(NOW / 1000 + 600) })
+      .mockResolvedValueOnce({ token: 'second', expiresInSeconds: 300 })
+      .mockResolvedValueOnce({ token: 'third' });
+    const tokens = new FinaTokenManager(login, { defaultTtlMs: 30 * MINUTE, refreshMarginMs: MINUTE });
+
+    const first = await tokens.getToken();
+    vi.setSystemTime(NOW + 8 * MINUTE);
+    expect(await tokens.getToken()).toBe(first);
+
+    vi.setSystemTime(NOW + 9 * MINUTE); // Within the refresh margin of the JWT expiry
+    expect(await tokens.getToken()).toBe('second');
+    expect(tokens.tokenExpiresAt?.getTime()).toBe(NOW + 14 * MINUTE);
+
+    vi.setSystemTime(NOW + 13.5 * MINUTE);
+    expect(await tokens.getToken()).toBe('third');
+    expect(tokens.tokenExpiresAt?.getTime()).toBe(NOW + 43.5 * MINUTE); // Default TTL
+    expect(login).toHaveBeenCalledTimes(3);
+  });
+
+  it('should share one login between concurrent callers and stale 401s', async () => {
+    let finish: (value: { token: string }) => void = () => undefined;
+    const login = vi.fn()
+      .mockImplementationOnce(() => new Promise(resolve => { finish = resolve; }))
+      .mockResolvedValue({ token: 'second' });
+    const tokens = new FinaTokenManager(login, { defaultTtlMs: 30 * MINUTE, refreshMarginMs: MINUTE });
+
+    const pending = Promise.all([tokens.getToken(), tokens.getToken(), tokens.getToken()]);
+    finish({ token: 'first' });
+    expect(await pending).toEqual(['first', 'first', 'first']);
+    expect(login).toHaveBeenCalledTimes(1);
+
+    tokens.invalidate('first');
+    tokens.invalidate('first'); // Second request failing with the same token
+    expect(await tokens.getToken()).toBe('second');
+    tokens.invalidate('first'); // Already replaced
+    expect(await tokens.getToken()).toBe('second');
+    expect(login).toHaveBeenCalledTimes(2);
+  });
+
+  it('should forget the token when a login fails', async () => {
+    const login = vi.fn().mockResolvedValueOnce({ token: '' }).mockResolvedValue({ token: 'ok' });
+    const tokens = new FinaTokenManager(login, { defaultTtlMs: 30 * MINUTE, refreshMarginMs: MINUTE });
+
+    await expect(tokens.getToken()).rejects.toThrow(/no token/);
+    expect(tokens.tokenExpiresAt).toBeNull();
+    expect(await tokens.getToken()).toBe('ok');
+  });
+});
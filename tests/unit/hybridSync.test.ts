@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { HybridSyncOrchestrator } from '../../src/core/hybridSync';
+import { WoltBatchRejectedError } from '../../src/adapters/woltErrors';
+import { StoreConfig } from '../../src/types';
+
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+vi.mock('../../src/adapters/fina', () => {
+  return {
+    FinaAdapter: vi.fn().mockImplementation(function () {
+      return {
+        getInventory: vi.fn().mockResolvedValue({
+          items: [
+            { id: 101, rest: 5, store_id: 1 },
+            { id: 102, rest: 3, store_id: 1 },
+            { id: 103, rest: 1, store_id: 1 }
+          ],
+          durationMs: 100
+        }),
+        getProductDetails: vi.fn().mockResolvedValue({
+          products: [101, 102, 103].map(id => ({ id, title: `Item ${id}`, price: 100, add_fields: [{ field: 'usr_column_514', value: `WOLT-${id}` }] })),
+          durationMs: 500,
+          apiCalls: 1
+        })
+      };
+    })
+  };
+});
+
+vi.mock('../../src/adapters/wolt', () => {
+  return {
+    WoltAdapter: vi.fn().mockImplementation(function () {
+      return {
+        updateInventory: vi.fn(async (_venue: string, payload: { data: unknown[] }) => ({ success: true, itemCount: payload.data.length, rateLimitHit: false })),
+        updateItems: vi.fn(async (_venue: string, payload: { data: unknown[] }) => ({ success: true, itemCount: payload.data.length, rateLimitHit: false }))
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/state', () => {
+  return {
+    StateManager: vi.fn().mockImplementation(function () {
+      return {
+        loadState: vi.fn().mockResolvedValue({
+          'WOLT-101': { quantity: 5, enabled: true, price: 100, lastSeen: 1 },
+          'WOLT-102': { quantity: 3, enabled: true, price: 100, lastSeen: 1 },
+          'WOLT-103': { quantity: 1, enabled: true, price: 100, lastSeen: 1 }
+        }),
+        saveState: vi.fn().mockResolvedValue(undefined)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/utils/adaptiveBatcher', () => {
+  return {
+    AdaptiveBatcher: vi.fn().mockImplementation(function () {
+      return {
+        getCurrentBatchSize: vi.fn().mockReturnValue(10),
+        getRecommendedDelay: vi.fn().mockReturnValue(0),
+        onSuccess: vi.fn().mockReturnValue(10),
+        onRateLimit: vi.fn().mockReturnValue(5)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/auditJournal', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/auditJournal')>();
+  return {
+    ...actual,
+    AuditJournal: vi.fn().mockImplementation(function () {
+      return {
+        track: vi.fn((_context: unknown, _endpoint: string, _batch: unknown[], send: () => Promise<unknown>) => send())
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/quarantine', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/quarantine')>();
+  return {
+    ...actual,
+    QuarantineStore: vi.fn().mockImplementation(function () {
+      return {
+        skus: vi.fn().mockResolvedValue(new Set()),
+        add: vi.fn().mockResolvedValue(undefined)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/skuControls', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/skuControls')>();
+  return {
+    ...actual,
+    SkuControlStore: vi.fn().mockImplementation(function () {
+      return { active: vi.fn().mockResolvedValue(new actual.SkuControlSet()) };
+    })
+  };
+});
+
+const sentSkus = (mock: any) => mock.mock.calls.map((call: any[]) => call[1].data.map((item: any) => item.sku));
+
+describe('HybridSyncOrchestrator', () => {
+  const store: StoreConfig = {
+    id: 1,
+    name: 'Test Store',
+    woltVenueId: 'test-venue',
+    woltUsername: 'user',
+    woltPassword: 'pass',
+    enabled: true
+  };
+  let orchestrator: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    orchestrator = new HybridSyncOrchestrator();
+  });
+
+  it('should leave quarantined SKUs out of the priority sync and quarantine the ones Wolt rejects', async () => {
+    orchestrator.quarantine.skus.mockResolvedValue(new Set(['WOLT-103']));
+    orchestrator.wolt.updateItems.mockImplementation(async (_venue: string, payload: { data: Array<{ sku: string }> }) => {
+      if (payload.data.some(item => item.sku === 'WOLT-102')) {
+        throw new WoltBatchRejectedError('Validation failed', 422, []);
+      }
+      return { success: true, itemCount: payload.data.length, rateLimitHit: false };
+    });
+
+    const synced = await orchestrator.prioritySync(store, 10);
+
+    expect(sentSkus(orchestrator.wolt.updateItems)).toEqual([['WOLT-101', 'WOLT-102'], ['WOLT-101'], ['WOLT-102']]);
+    expect(sentSkus(orchestrator.wolt.updateInventory)).toEqual([['WOLT-101']]);
+    expect(orchestrator.quarantine.add).toHaveBeenCalledWith(1, [expect.objectContaining({ sku: 'WOLT-102', kind: 'validation', endpoint: 'items' })]);
+
+    const savedState = orchestrator.stateManager.saveState.mock.calls[0][1];
+    expect(savedState['WOLT-101']).toMatchObject({ syncedToWolt: true });
+    expect(savedState['WOLT-102'].syncedToWolt).toBeUndefined();
+    expect(synced).toBe(1);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  InventoryPolicyEngine,
+  inventoryPolicyFileSchema,
+  skuPatternToRegex,
+} from '../../src/core/inventoryPolicy';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('InventoryPolicyEngine', () => {
+  const policies = inventoryPolicyFileSchema.parse({
+    version: 1,
+    defaults: { floorFractional: true, safetyBuffer: 1 },
+    skuPatterns: [{ pattern: 'KG-*', floorFractional: false }],
+    stores: {
+      '4': {
+        maxQuantity: 10,
+        skuPatterns: [{ pattern: 'ALC-??', safetyBuffer: 0, unavailableAtOrBelow: 3 }],
+      },
+    },
+  });
+
+  it('should match SKU globs', () => {
+    expect(skuPatternToRegex('ALC-*').test('ALC-123')).toBe(true);
+    expect(skuPatternToRegex('ALC-?').test('ALC-12')).toBe(false);
+    expect(skuPatternToRegex('A.B').test('AxB')).toBe(false);
+  });
+
+  it('should reject unsupported versions and negative buffers', () => {
+    expect(inventoryPolicyFileSchema.safeParse({ version: 2 }).success).toBe(false);
+    expect(inventoryPolicyFileSchema.safeParse({ version: 1, defaults: { safetyBuffer: -1 } }).success).toBe(false);
+  });
+
+  it('should pass stock through when no policies exist', () => {
+    expect(new InventoryPolicyEngine(4, null).apply('SKU', 2.5)).toBe(2.5);
+  });
+
+  it('should floor, subtract the buffer and never go negative', () => {
+    const engine = new InventoryPolicyEngine(5, policies);
+    expect(engine.apply('SKU', 5.7)).toBe(4);
+    expect(engine.apply('SKU', 0.5)).toBe(0);
+    expect(engine.apply('KG-1', 2.5)).toBe(1.5);
+  });
+
+  it('should layer store and store SKU-pattern policies', () => {
+    const engine = new InventoryPolicyEngine(4, policies);
+    expect(engine.apply('SKU', 100)).toBe(10);
+    expect(engine.apply('ALC-01', 3)).toBe(0);
+    expect(engine.apply('ALC-01', 4)).toBe(4);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { MenuItemBuilder } from '../../src/core/menuBuilder';
+import { FinaProductDetail } from '../../src/types';
+
+describe('MenuItemBuilder', () => {
+  const product = (fields: Record<string, string>, overrides: Partial<FinaProductDetail> = {}): FinaProductDetail => ({
+    id: 7,
+    title: ' Sourdough bread ',
+    price: 4.5,
+    add_fields: Object.entries(fields).map(([field, value]) => ({ field, value })),
+    ...overrides
+  });
+
+  afterEach(() => {
+    delete process.env.FINA_CATEGORY_FIELD;
+  });
+
+  it('should build a menu item with category and image', () => {
+    process.env.FINA_CATEGORY_FIELD = 'usr_category';
+    const builder = new MenuItemBuilder(1, { imageField: 'usr_image', imageBaseUrl: 'https://cdn.example.com/img/' });
+
+    const built = builder.build({
+      sku: 'BREAD-1',
+      product: product({ usr_category: 'Bakery', usr_image: '/bread.jpg' }),
+      price: 5,
+      discountedPrice: 4,
+      vatPercentage: 18,
+      enabled: true
+    });
+
+    expect(built).toEqual({
+      item: {
+        sku: 'BREAD-1',
+        name: 'Sourdough bread',
+        price: 5,
+        enabled: true,
+        discounted_price: 4,
+        vat_percentage: 18,
+        category: 'Bakery',
+        image_url: 'https://cdn.example.com/img/bread.jpg'
+      }
+    });
+  });
+
+  it('should keep absolute image URLs and drop relative ones without a base URL', () => {
+    const builder = new MenuItemBuilder(1, { imageField: 'usr_image' });
+    const build = (image: string) => builder.build({ sku: 'A', product: product({ usr_image: image }), price: 1, enabled: true });
+
+    expect(build('https://img.example.com/a.png')).toMatchObject({ item: { image_url: 'https://img.example.com/a.png' } });
+    expect(build('a.png')).not.toHaveProperty('item.image_url');
+  });
+
+  it('should skip products without a title or valid price', () => {
+    const builder = new MenuItemBuilder(1, {});
+
+    expect(builder.build({ sku: 'A', product: product({}, { title: ' ' }), price: 1, enabled: true }))
+      .toEqual({ skipped: { sku: 'A', finaId: 7, reason: 'missing title' } });
+    expect(builder.build({ sku: 'B', product: product({}), price: -1, enabled: false }))
+      .toEqual({ skipped: { sku: 'B', finaId: 7, reason: 'invalid price (-1)' } });
+  });
+});
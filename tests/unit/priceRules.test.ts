@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PriceRuleEngine, applyRounding, priceRulesFileSchema, PriceRulesFile } from '../../src/core/priceRules';
+import { FinaProductDetail } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('PriceRuleEngine', () => {
+  const product = (price: number, category?: string): FinaProductDetail => ({
+    id: 1,
+    title: 'Product',
+    price,
+    add_fields: category ? [{ field: 'usr_category', value: category }] : [],
+  });
+
+  afterEach(() => {
+    delete process.env.FINA_CATEGORY_FIELD;
+  });
+
+  describe('applyRounding', () => {
+    it('should round to a psychological ending', () => {
+      expect(applyRounding(12.34, { ending: 0.99, direction: 'up' })).toBe(12.99);
+      expect(applyRounding(12.34, { ending: 0.99, direction: 'down' })).toBe(11.99);
+      expect(applyRounding(12.34, { ending: 0.99, direction: 'nearest' })).toBe(11.99);
+      expect(applyRounding(12.99, { ending: 0.99, direction: 'up' })).toBe(12.99);
+    });
+
+    it('should round to a step', () => {
+      expect(applyRounding(3.42, { step: 0.05, direction: 'nearest' })).toBe(3.4);
+      expect(applyRounding(3.42, { step: 0.05, direction: 'up' })).toBe(3.45);
+      expect(applyRounding(3.45, { step: 0.05, direction: 'up' })).toBe(3.45);
+    });
+  });
+
+  describe('schema', () => {
+    it('should reject unsupported versions and contradictory rules', () => {
+      expect(priceRulesFileSchema.safeParse({ version: 2 }).success).toBe(false);
+      expect(priceRulesFileSchema.safeParse({ version: 1, defaults: { minPrice: 10, maxPrice: 5 } }).success).toBe(false);
+      expect(priceRulesFileSchema.safeParse({ version: 1, defaults: { rounding: { direction: 'up' } } }).success).toBe(false);
+    });
+  });
+
+  describe('apply', () => {
+    it('should pass prices through when no rules exist', () => {
+      const engine = new PriceRuleEngine(4, null);
+      expect(engine.apply(product(10), 'SKU')).toEqual({ price: 10 });
+    });
+
+    it('should layer store and category rules', () => {
+      process.env.FINA_CATEGORY_FIELD = 'usr_category';
+      const rules: PriceRulesFile = priceRulesFileSchema.parse({
+        version: 1,
+        defaults: { markupPercent: 10 },
+        categories: { Dairy: { markupPercent: 20 } },
+        stores: { '4': { maxPrice: 50, categories: { Dairy: { markupPercent: 50 } } } },
+      });
+
+      expect(new PriceRuleEngine(5, rules).apply(product(10), 'SKU').price).toBe(11);
+      expect(new PriceRuleEngine(5, rules).apply(product(10, 'Dairy'), 'SKU').price).toBe(12);
+      expect(new PriceRuleEngine(4, rules).apply(product(10, 'Dairy'), 'SKU').price).toBe(15);
+      expect(new PriceRuleEngine(4, rules).apply(product(100), 'SKU').price).toBe(50);
+    });
+
+    it('should populate discountedPrice only while a promotion is active', () => {
+      const rules: PriceRulesFile = priceRulesFileSchema.parse({
+        version: 1,
+        promotions: [{
+          name: 'spring',
+          startsAt: '2026-03-01T00:00:00Z',
+          endsAt: '2026-03-08T00:00:00Z',
+          skus: ['SKU'],
+          discountPercent: 20,
+        }],
+      });
+      const engine = new PriceRuleEngine(4, rules);
+
+      expect(engine.apply(product(10), 'SKU', Date.parse('2026-03-02T00:00:00Z'))).toEqual({
+        price: 10,
+        discountedPrice: 8,
+        promotion: 'spring',
+      });
+      expect(engine.apply(product(10), 'OTHER', Date.parse('2026-03-02T00:00:00Z'))).toEqual({ price: 10 });
+      expect(engine.apply(product(10), 'SKU', Date.parse('2026-03-08T00:00:00Z'))).toEqual({ price: 10 });
+    });
+  });
+});
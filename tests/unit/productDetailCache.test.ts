@@ -0,0 +1,90 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ProductDetailCache } from '../../src/core/productDetailCache';
+import { FinaProductDetail } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+const NOW = Date.parse('2026-03-01T10:00:00Z');
+const HOUR = 60 * 60 * 1000;
+
+const product = (id: number, price: number = 100): FinaProductDetail =>
+  ({ id, title: `Product ${id}`, price, add_fields: [{ field: 'usr_column_514', value: `SKU-${id}` }] });
+
+describe('ProductDetailCache', () => {
+  let tmpDir: string;
+  let prices: Map<number, number>;
+  const fetch = vi.fn(async (ids: number[]) => ({
+    products: ids.filter(id => prices.has(id)).map(id => product(id, prices.get(id))),
+    durationMs: 5,
+    apiCalls: 1
+  }));
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolt-product-cache-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+    prices = new Map([[1, 100], [2, 200], [3, 300]]);
+    fetch.mockClear();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should only re-fetch new, restocked and expired products', async () => {
+    const cache = new ProductDetailCache({ ttlMs: 2 * HOUR });
+    const stock = new Map([[1, 5], [2, 0], [3, 1]]);
+
+    const first = await cache.getDetails(1, [1, 2, 3], stock, fetch, { complete: true });
+    expect(first.cache).toMatchObject({ misses: 3, hits: 0 });
+    expect(first.products).toHaveLength(3);
+
+    vi.setSystemTime(NOW + HOUR);
+    stock.set(2, 4);
+    prices.set(2, 250);
+    const second = await new ProductDetailCache({ ttlMs: 2 * HOUR }).getDetails(1, [1, 2, 3], stock, fetch, { complete: true });
+    expect(fetch).toHaveBeenLastCalledWith([2]);
+    expect(second.cache).toMatchObject({ hits: 2, stockChanged: 1, contentChanged: 1, hitRate: 2 / 3 });
+    expect(second.products.find(p => p.id === 2)?.price).toBe(250);
+
+    vi.setSystemTime(NOW + 2.5 * HOUR);
+    const third = await cache.getDetails(1, [1, 2, 3], stock, fetch);
+    expect(fetch).toHaveBeenLastCalledWith([1, 3]);
+    expect(third.cache).toMatchObject({ hits: 1, expired: 2, contentChanged: 0 });
+  });
+
+  it('should re-fetch everything on refresh and drop products that left the inventory', async () => {
+    const cache = new ProductDetailCache({ ttlMs: HOUR });
+    const stock = new Map([[1, 5], [2, 0], [3, 1]]);
+    await cache.getDetails(1, [1, 2, 3], stock, fetch, { complete: true });
+
+    const refreshed = await cache.getDetails(1, [1, 2], stock, fetch, { refresh: true, complete: true });
+    expect(fetch).toHaveBeenLastCalledWith([1, 2]);
+    expect(refreshed.cache.hits).toBe(0);
+
+    const next = await cache.getDetails(1, [1, 2, 3], stock, fetch);
+    expect(fetch).toHaveBeenLastCalledWith([3]);
+    expect(next.cache).toMatchObject({ hits: 2, misses: 1 });
+    expect((await cache.getDetails(2, [1], stock, fetch)).cache.misses).toBe(1); // Per store
+  });
+
+  it('should pass straight through when the TTL is 0', async () => {
+    const cache = new ProductDetailCache({ ttlMs: 0 });
+    const stock = new Map([[1, 5]]);
+    await cache.getDetails(1, [1], stock, fetch);
+    const result = await cache.getDetails(1, [1], stock, fetch);
+
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(result.cache).toMatchObject({ hits: 0, misses: 1 });
+    expect(await fs.pathExists(path.join(tmpDir, 'state', 'product-cache'))).toBe(false);
+  });
+});
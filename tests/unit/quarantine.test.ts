@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { QuarantineEntry, QuarantineStore, RejectionLimitError, sendIsolatingRejects } from '../../src/core/quarantine';
+import { WoltBatchRejectedError, parseWoltItemErrors } from '../../src/adapters/woltErrors';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+const ok = (count: number) => ({ success: true, itemCount: count, rateLimitHit: false });
+const items = (...skus: string[]) => skus.map(sku => ({ sku }));
+
+describe('parseWoltItemErrors', () => {
+  it('should tie errors to SKUs of the batch across response shapes', () => {
+    expect(parseWoltItemErrors({ errors: [{ sku: 'A', message: 'Item not found' }, { sku: 'Z', message: 'x' }] }, ['A', 'B'], 400))
+      .toEqual([{ sku: 'A', kind: 'unknown_sku', reason: 'Item not found' }]);
+    expect(parseWoltItemErrors({ data: [{ sku: 'A' }, { sku: 'B', error: 'price must be positive' }] }, ['A', 'B'], 400))
+      .toEqual([{ sku: 'B', kind: 'validation', reason: 'price must be positive' }]);
+    expect(parseWoltItemErrors({ detail: [{ loc: ['body', 'data', 1, 'price'], msg: 'not a number' }] }, ['A', 'B'], 422))
+      .toEqual([{ sku: 'B', kind: 'validation', reason: 'not a number' }]);
+    expect(parseWoltItemErrors('<html>', ['A'], 400)).toEqual([]);
+  });
+});
+
+describe('sendIsolatingRejects', () => {
+  it('should drop the SKUs Wolt names and resend the rest', async () => {
+    const send = vi.fn()
+      .mockRejectedValueOnce(new WoltBatchRejectedError('rejected', 404, [{ sku: 'B', kind: 'unknown_sku', reason: 'Item not found' }]))
+      .mockResolvedValueOnce(ok(2));
+
+    const outcome = await sendIsolatingRejects(items('A', 'B', 'C'), send);
+
+    expect(send).toHaveBeenLastCalledWith(items('A', 'C'));
+    expect(outcome.accepted).toEqual(items('A', 'C'));
+    expect(outcome.rejected).toEqual([{ sku: 'B', kind: 'unknown_sku', reason: 'Item not found', httpStatus: 404 }]);
+  });
+
+  it('should bisect rejections that name no SKU down to the offending one', async () => {
+    const send = vi.fn(async (batch: Array<{ sku: string }>) => {
+      if (batch.some(item => item.sku === 'C')) {
+        throw new WoltBatchRejectedError('Validation failed', 422, []);
+      }
+      return ok(batch.length);
+    });
+
+    const outcome = await sendIsolatingRejects(items('A', 'B', 'C', 'D'), send);
+
+    expect(outcome.accepted.map(item => item.sku).sort()).toEqual(['A', 'B', 'D']);
+    expect(outcome.rejected).toEqual([{ sku: 'C', kind: 'validation', reason: 'Validation failed', httpStatus: 422 }]);
+    expect(outcome.results).toHaveLength(2);
+  });
+
+  it('should fail on a rejection that names no SKU without a 422 instead of bisecting it', async () => {
+    const send = vi.fn().mockRejectedValue(new WoltBatchRejectedError('rejected', 404, []));
+    await expect(sendIsolatingRejects(items('A', 'B', 'C', 'D'), send)).rejects.toBeInstanceOf(WoltBatchRejectedError);
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop isolating once more than the allowed share of the batch is rejected', async () => {
+    const send = vi.fn().mockRejectedValue(new WoltBatchRejectedError('Validation failed', 422, []));
+
+    const outcome = sendIsolatingRejects(items('A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'), send, { maxRejectedShare: 0.25 });
+
+    await expect(outcome).rejects.toBeInstanceOf(RejectionLimitError);
+    await expect(outcome).rejects.toMatchObject({ rejected: [{ sku: 'A' }, { sku: 'B' }, { sku: 'C' }] });
+    expect(send).toHaveBeenCalledTimes(7); // ABCDEFGH, ABCD, AB, A, B, CD, C - then aborted
+  });
+
+  it('should rethrow errors that are not batch rejections', async () => {
+    const send = vi.fn().mockRejectedValue(Object.assign(new Error('Service Unavailable'), { status: 503 }));
+    await expect(sendIsolatingRejects(items('A', 'B'), send)).rejects.toThrow('Service Unavailable');
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('QuarantineStore', () => {
+  let tmpDir: string;
+
+  const entry = (sku: string): QuarantineEntry => ({
+    sku,
+    kind: 'unknown_sku',
+    reason: 'Item not found',
+    endpoint: 'items',
+    httpStatus: 404,
+    quarantinedAt: '2026-03-01T10:00:00.000Z'
+  });
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolt-quarantine-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should persist quarantined SKUs per store and release them', async () => {
+    const store = new QuarantineStore();
+    expect(await store.list(1)).toEqual([]);
+
+    await store.add(1, [entry('B'), entry('A')]);
+    await store.add(2, [entry('C')]);
+
+    expect((await store.list(1)).map(e => e.sku)).toEqual(['A', 'B']);
+    expect(await store.skus(2)).toEqual(new Set(['C']));
+
+    expect(await store.release(1, ['A', 'MISSING'])).toEqual(['A']);
+    expect([...await new QuarantineStore().skus(1)]).toEqual(['B']);
+    expect(await store.release(1)).toEqual(['B']);
+    expect(await store.list(1)).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { buildHealDelta, countDrift, detectDrift, resolveReconcileConfig } from '../../src/core/reconciliation';
+import { SyncState } from '../../src/types';
+
+describe('reconciliation', () => {
+  const state: SyncState = {
+    'A': { quantity: 5, enabled: true, price: 100, lastSeen: 0 },
+    'B': { quantity: 0, enabled: false, price: 50, discountedPrice: 40, lastSeen: 0 },
+    'C': { quantity: 2, enabled: true, price: 10, lastSeen: 0 },
+    'D': { quantity: 1, enabled: true, price: 10, lastSeen: 0 }
+  };
+
+  afterEach(() => {
+    delete process.env.RECONCILE_MODE;
+    delete process.env.STORE_4_RECONCILE_MODE;
+  });
+
+  it('should classify drift between Wolt, state and Fina', () => {
+    const drift = detectDrift(state, [
+      { sku: 'A', enabled: true, price: 100, inventory: 7 },
+      { sku: 'B', enabled: true, price: 50 },
+      { sku: 'C', enabled: true },
+      { sku: 'NEW-1', enabled: true },
+      { sku: 'STRAY', enabled: false }
+    ], { 'NEW-1': { quantity: 1, enabled: true, lastSeen: 0 } });
+
+    expect(drift).toEqual([
+      { sku: 'A', kind: 'inventory', field: 'quantity', wolt: 7, state: 5, fina: undefined },
+      { sku: 'B', kind: 'availability', field: 'enabled', wolt: true, state: false, fina: undefined },
+      { sku: 'B', kind: 'price', field: 'discountedPrice', wolt: undefined, state: 40, fina: undefined },
+      { sku: 'D', kind: 'missing_on_wolt', state: true, fina: undefined },
+      { sku: 'STRAY', kind: 'unknown_on_wolt', wolt: false }
+    ]);
+    expect(countDrift(drift)).toEqual({ availability: 1, price: 1, inventory: 1, unknown_on_wolt: 1, missing_on_wolt: 1 });
+  });
+
+  it('should heal availability first and defer SKUs over the budget', () => {
+    const drift = detectDrift(state, [
+      { sku: 'A', enabled: true, price: 100, inventory: 7 },
+      { sku: 'B', enabled: true, price: 50, discountedPrice: 40 },
+      { sku: 'C', enabled: true, price: 12 },
+      { sku: 'D', enabled: true, price: 10 }
+    ]);
+
+    const { delta, healedSkus, deferredSkus } = buildHealDelta(state, drift, 2);
+    expect(healedSkus).toEqual(['B', 'C']);
+    expect(deferredSkus).toEqual(['A']);
+    expect(delta.itemUpdates).toEqual([
+      { sku: 'B', enabled: false, price: 50, discounted_price: 40 },
+      { sku: 'C', enabled: true, price: 10 }
+    ]);
+    expect(delta.inventoryUpdates).toEqual([]);
+    expect(drift.filter(entry => entry.healed).map(entry => entry.sku)).toEqual(['B', 'C']);
+  });
+
+  it('should heal towards Fina values and only change the healed fields in state', () => {
+    const drift = detectDrift(state, [{ sku: 'A', enabled: true, price: 100, inventory: 7 }]);
+    const fina: SyncState = { 'A': { quantity: 3, enabled: true, price: 120, lastSeen: 1 } };
+
+    const { delta } = buildHealDelta(state, drift.filter(entry => entry.sku === 'A'), 10, fina);
+    expect(delta.inventoryUpdates).toEqual([{ sku: 'A', inventory: 3 }]);
+    expect(delta.itemUpdates).toEqual([]);
+    expect(delta.newState['A']).toEqual({ ...state['A'], quantity: 3 }); // price change is left to the next sync
+  });
+
+  it('should read the mode per store', () => {
+    process.env.RECONCILE_MODE = 'report';
+    process.env.STORE_4_RECONCILE_MODE = 'heal';
+    expect(resolveReconcileConfig(1).mode).toBe('report');
+    expect(resolveReconcileConfig(4).mode).toBe('heal');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { resolveSkuCandidates, resolveDuplicatePolicy, SkuCandidate } from '../../src/core/skuConflicts';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('SKU conflict resolution', () => {
+  const candidates: SkuCandidate[] = [
+    { finaId: 1, title: 'Milk 1L', price: 3.5, quantity: 2, enabled: true },
+    { finaId: 2, title: 'Milk 1L (old)', price: 3.2, quantity: 7, enabled: true },
+    { finaId: 3, title: 'Milk 1L (promo)', price: 2.9, quantity: 1, enabled: true },
+  ];
+
+  afterEach(() => {
+    delete process.env.DUPLICATE_SKU_POLICY;
+    delete process.env.STORE_4_DUPLICATE_SKU_POLICY;
+  });
+
+  it('should pass single candidates through unchanged', () => {
+    expect(resolveSkuCandidates([candidates[0]], 'reject')).toEqual({ finaId: 1, quantity: 2, price: 3.5, enabled: true });
+  });
+
+  it('should sum quantities and keep the last price with "sum"', () => {
+    expect(resolveSkuCandidates(candidates, 'sum')).toEqual({ finaId: 3, quantity: 10, price: 2.9, enabled: true });
+  });
+
+  it('should pick the highest stock with "max"', () => {
+    expect(resolveSkuCandidates(candidates, 'max')).toEqual({ finaId: 2, quantity: 7, price: 3.2, enabled: true });
+  });
+
+  it('should pick the first product with "first"', () => {
+    expect(resolveSkuCandidates(candidates, 'first')).toEqual({ finaId: 1, quantity: 2, price: 3.5, enabled: true });
+  });
+
+  it('should reject conflicting SKUs with "reject"', () => {
+    expect(resolveSkuCandidates(candidates, 'reject')).toBeNull();
+  });
+
+  it('should resolve the policy per store and fall back to "sum"', () => {
+    process.env.DUPLICATE_SKU_POLICY = 'max';
+    process.env.STORE_4_DUPLICATE_SKU_POLICY = 'reject';
+
+    expect(resolveDuplicatePolicy(4)).toBe('reject');
+    expect(resolveDuplicatePolicy(5)).toBe('max');
+
+    process.env.DUPLICATE_SKU_POLICY = 'bogus';
+    expect(resolveDuplicatePolicy(5)).toBe('sum');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SkuControl, SkuControlSet, SkuControlStore, buildSkuControls } from '../../src/core/skuControls';
+import { parseFutureTimeSpec } from '../../src/utils/timeSpec';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+const NOW = Date.parse('2026-03-01T10:00:00Z');
+
+const control = (sku: string, action: SkuControl['action'], expiresAt?: string): SkuControl =>
+  ({ sku, action, reason: 'test', createdAt: '2026-03-01T09:00:00.000Z', ...(expiresAt ? { expiresAt } : {}) });
+
+describe('buildSkuControls', () => {
+  it('should validate operator input', () => {
+    expect(buildSkuControls([' A ', 'A', 'B'], 'ignore', ' broken photo ', NOW + 3600000, NOW)).toEqual([
+      { sku: 'A', action: 'ignore', reason: 'broken photo', createdAt: '2026-03-01T10:00:00.000Z', expiresAt: '2026-03-01T11:00:00.000Z' },
+      { sku: 'B', action: 'ignore', reason: 'broken photo', createdAt: '2026-03-01T10:00:00.000Z', expiresAt: '2026-03-01T11:00:00.000Z' }
+    ]);
+    expect(() => buildSkuControls(['A'], 'delete', 'x')).toThrow(/Unknown SKU control/);
+    expect(() => buildSkuControls([], 'ignore', 'x')).toThrow(/SKU is required/);
+    expect(() => buildSkuControls(['A'], 'ignore', '  ')).toThrow(/reason is required/);
+    expect(() => buildSkuControls(['A'], 'ignore', 'x', NOW - 1, NOW)).toThrow(/future/);
+  });
+
+  it('should read relative expiry as time from now', () => {
+    expect(parseFutureTimeSpec('2d', NOW)).toBe(NOW + 2 * 24 * 60 * 60 * 1000);
+    expect(parseFutureTimeSpec('2026-04-01T00:00:00Z', NOW)).toBe(Date.parse('2026-04-01T00:00:00Z'));
+  });
+});
+
+describe('SkuControlSet', () => {
+  const controls = new SkuControlSet([control('OFF', 'force-disable'), control('ON', 'force-enable'), control('SKIP', 'ignore')]);
+
+  it('should force availability but never enable an item without a valid price', () => {
+    expect(controls.apply('OFF', { quantity: 8, enabled: true, price: 100 })).toEqual({ quantity: 0, enabled: false, price: 100 });
+    expect(controls.apply('ON', { quantity: 0, enabled: false, price: 100 })).toEqual({ quantity: 0, enabled: true, price: 100 });
+    expect(controls.apply('ON', { quantity: 0, enabled: false, price: -1 })).toEqual({ quantity: 0, enabled: false, price: -1 });
+    expect(controls.apply('OTHER', { quantity: 3, enabled: true, price: 100 })).toEqual({ quantity: 3, enabled: true, price: 100 });
+  });
+
+  it('should enforce controls on a precomputed delta', () => {
+    const previousState = {
+      OFF: { quantity: 0, enabled: false, price: 100, lastSeen: 1 },
+      SKIP: { quantity: 1, enabled: true, price: 50, lastSeen: 1 }
+    };
+    const delta = controls.enforce({
+      itemUpdates: [{ sku: 'OFF', enabled: true, price: 100 }, { sku: 'SKIP', enabled: false }, { sku: 'X', enabled: true }],
+      inventoryUpdates: [{ sku: 'OFF', inventory: 5 }, { sku: 'SKIP', inventory: 0 }],
+      newState: {
+        OFF: { quantity: 5, enabled: true, price: 100, lastSeen: 2 },
+        SKIP: { quantity: 0, enabled: false, price: 50, lastSeen: 2 },
+        X: { quantity: 2, enabled: true, price: 10, lastSeen: 2 }
+      }
+    }, previousState);
+
+    expect(delta.itemUpdates).toEqual([{ sku: 'OFF', enabled: false, price: 100 }, { sku: 'X', enabled: true }]);
+    expect(delta.inventoryUpdates).toEqual([{ sku: 'OFF', inventory: 0 }]);
+    expect(delta.newState.OFF).toMatchObject({ quantity: 0, enabled: false });
+    expect(delta.newState.SKIP).toEqual(previousState.SKIP);
+  });
+});
+
+describe('SkuControlStore', () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolt-sku-controls-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    vi.useFakeTimers({ now: NOW, toFake: ['Date'] });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await fs.remove(tmpDir);
+  });
+
+  it('should persist controls per store, skip expired ones and release them', async () => {
+    const store = new SkuControlStore();
+    await store.set(1, [control('B', 'ignore'), control('A', 'force-disable', '2026-03-02T00:00:00.000Z')]);
+    await store.set(1, [control('B', 'force-enable')]); // Replaces the earlier control for B
+
+    expect((await store.list(1, { now: NOW })).map(c => [c.sku, c.action])).toEqual([['A', 'force-disable'], ['B', 'force-enable']]);
+    expect((await store.list(1, { now: Date.parse('2026-03-03T00:00:00Z') })).map(c => c.sku)).toEqual(['B']);
+    expect((await store.list(1, { now: Date.parse('2026-03-03T00:00:00Z'), includeExpired: true }))).toHaveLength(2);
+    expect((await store.active(1, NOW)).forcedCount).toBe(2);
+    expect(await store.list(2)).toEqual([]);
+
+    expect(await store.release(1, ['B', 'MISSING'])).toEqual(['B']);
+    expect((await new SkuControlStore().list(1, { now: NOW })).map(c => c.sku)).toEqual(['A']);
+  });
+
+  it('should refuse to read a corrupt controls file instead of dropping every control', async () => {
+    await fs.outputFile(path.join(tmpDir, 'state', 'sku-controls', 'store-1.json'), '{"storeId":1,"entries":{"A":');
+
+    await expect(new SkuControlStore().list(1)).rejects.toThrow(/SKU controls for store 1 could not be read/);
+    await expect(new SkuControlStore().active(1)).rejects.toThrow(/could not be read/);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SkuMapper, parseStrategies, parseOverrides } from '../../src/core/skuMapper';
+import { FinaProductDetail } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('SkuMapper', () => {
+  const details: FinaProductDetail[] = [
+    { id: 101, title: 'P1', price: 100, barcode: '4860001', add_fields: [{ field: 'usr_column_514', value: 'WOLT-101' }] },
+    { id: 102, title: 'P2', price: 200, barcode: '4860002', add_fields: [{ field: 'usr_column_600', value: 'ALT-102' }] },
+    { id: 103, title: 'P3', price: 300, add_fields: [] },
+  ];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    delete process.env.SKU_STRATEGIES;
+    delete process.env.STORE_7_SKU_STRATEGIES;
+    delete process.env.STORE_7_SKU_PREFIX;
+    delete process.env.SKU_TRIM;
+  });
+
+  describe('parseStrategies', () => {
+    it('should default to the usr_column_514 add_field', () => {
+      expect(parseStrategies(undefined)).toEqual([{ type: 'add_field', field: 'usr_column_514' }]);
+    });
+
+    it('should parse an ordered strategy chain', () => {
+      expect(parseStrategies('add_field:usr_column_600, barcode,fina_id')).toEqual([
+        { type: 'add_field', field: 'usr_column_600' },
+        { type: 'barcode' },
+        { type: 'fina_id' },
+      ]);
+    });
+
+    it('should ignore unknown strategies', () => {
+      expect(parseStrategies('nope,barcode')).toEqual([{ type: 'barcode' }]);
+    });
+  });
+
+  describe('parseOverrides', () => {
+    it('should parse CSV with a header row', () => {
+      const overrides = parseOverrides('finaId,sku\n101,OVR-101\n\n102;OVR-102\n', 'csv');
+      expect(overrides.get(101)).toBe('OVR-101');
+      expect(overrides.get(102)).toBe('OVR-102');
+      expect(overrides.size).toBe(2);
+    });
+
+    it('should parse JSON objects and arrays', () => {
+      expect(parseOverrides('{"101":"OVR-101"}', 'json').get(101)).toBe('OVR-101');
+      expect(parseOverrides('[{"finaId":102,"sku":"OVR-102"}]', 'json').get(102)).toBe('OVR-102');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should fall back through strategies and report which one matched', () => {
+      const mapper = new SkuMapper({ strategies: parseStrategies('add_field:usr_column_514,barcode,fina_id') });
+
+      const result = mapper.resolve(details);
+
+      expect(result.skus.get(101)).toBe('WOLT-101');
+      expect(result.skus.get(102)).toBe('4860002');
+      expect(result.skus.get(103)).toBe('103');
+      expect(result.strategies.get(101)).toBe('add_field:usr_column_514');
+      expect(result.strategies.get(102)).toBe('barcode');
+      expect(result.strategyCounts).toEqual({ 'add_field:usr_column_514': 1, barcode: 1, fina_id: 1 });
+      expect(result.unmapped).toBe(0);
+    });
+
+    it('should apply prefix and suffix transforms', () => {
+      const mapper = new SkuMapper({ strategies: parseStrategies('fina_id'), prefix: 'VV-', suffix: '-G' });
+
+      expect(mapper.resolve(details).skus.get(101)).toBe('VV-101-G');
+    });
+
+    it('should count products no strategy could map', () => {
+      const mapper = new SkuMapper({ strategies: parseStrategies('add_field:usr_column_514') });
+
+      const result = mapper.resolve(details);
+
+      expect(result.skus.size).toBe(1);
+      expect(result.unmapped).toBe(2);
+    });
+
+    it('should map usr_column_514 exactly like the legacy mapToWoltSku by default', () => {
+      const legacy: FinaProductDetail[] = [
+        { id: 201, title: 'P', price: 1, add_fields: [{ field: 'usr_column_514', value: ' WOLT-201 ' }] },
+        { id: 202, title: 'P', price: 1, add_fields: [{ field: 'usr_column_514', value: 'WOLT-202\t' }] },
+        { id: 203, title: 'P', price: 1, add_fields: [{ field: 'usr_column_514', value: '' }] },
+        { id: 204, title: 'P', price: 1, add_fields: [{ field: 'usr_column_514', value: '   ' }] },
+        { id: 205, title: 'P', price: 1, add_fields: null as any },
+      ];
+
+      const result = SkuMapper.fromEnv(1).resolve(legacy);
+
+      expect([...result.skus.entries()]).toEqual([[201, ' WOLT-201 '], [202, 'WOLT-202\t'], [204, '   ']]);
+    });
+
+    it('should trim add_field SKUs only when SKU_TRIM is set', () => {
+      process.env.SKU_TRIM = 'true';
+      const padded: FinaProductDetail[] = [
+        { id: 201, title: 'P', price: 1, add_fields: [{ field: 'usr_column_514', value: ' WOLT-201 ' }] },
+        { id: 204, title: 'P', price: 1, add_fields: [{ field: 'usr_column_514', value: '   ' }] },
+      ];
+
+      const result = SkuMapper.fromEnv(1).resolve(padded);
+
+      expect([...result.skus.entries()]).toEqual([[201, 'WOLT-201']]);
+      expect(result.unmapped).toBe(1);
+    });
+
+    it('should prefer per-store settings over global ones', () => {
+      process.env.SKU_STRATEGIES = 'barcode';
+      process.env.STORE_7_SKU_STRATEGIES = 'fina_id';
+      process.env.STORE_7_SKU_PREFIX = 'S7-';
+
+      const result = SkuMapper.fromEnv(7).resolve(details);
+
+      expect(result.skus.get(101)).toBe('S7-101');
+      expect(result.strategies.get(101)).toBe('fina_id');
+    });
+  });
+});
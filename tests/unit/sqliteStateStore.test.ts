@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { SqliteStateStore } from '../../src/core/sqliteStateStore';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('SqliteStateStore', () => {
+  let tmpDir: string;
+  let store: SqliteStateStore;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'sqlite-state-'));
+    store = new SqliteStateStore(path.join(tmpDir, 'state.sqlite'));
+  });
+
+  afterEach(async () => {
+    store.close();
+    await fs.remove(tmpDir);
+  });
+
+  it('should return empty state for unknown stores', async () => {
+    expect(await store.loadState(4)).toEqual({});
+    expect(await store.stateExists(4)).toBe(false);
+  });
+
+  it('should replace state on save and keep stores separate', async () => {
+    await store.saveState(4, { A: { quantity: 1, enabled: true, lastSeen: 1 }, B: { quantity: 0, enabled: false, lastSeen: 1 } });
+    await store.saveState(5, { A: { quantity: 9, enabled: true, lastSeen: 1 } });
+    await store.saveState(4, { A: { quantity: 2, enabled: true, price: 3.5, lastSeen: 2 } });
+
+    expect(await store.loadState(4)).toEqual({ A: { quantity: 2, enabled: true, price: 3.5, lastSeen: 2 } });
+    expect((await store.loadState(5)).A.quantity).toBe(9);
+    expect(await store.listStoreIds()).toEqual([4, 5]);
+  });
+
+  it('should upsert only the given SKUs', async () => {
+    await store.saveState(4, { A: { quantity: 1, enabled: true, lastSeen: 1 }, B: { quantity: 1, enabled: true, lastSeen: 1 } });
+    await store.upsertEntries(4, { B: { quantity: 0, enabled: false, lastSeen: 2 }, C: { quantity: 5, enabled: true, lastSeen: 2 } });
+
+    const state = await store.loadState(4);
+    expect(Object.keys(state).sort()).toEqual(['A', 'B', 'C']);
+    expect(state.A.quantity).toBe(1);
+    expect(state.B.enabled).toBe(false);
+  });
+
+  it('should upgrade legacy rows without metadata on load', async () => {
+    store.close();
+    const Database = (await import('better-sqlite3')).default;
+    const db = new Database(path.join(tmpDir, 'state.sqlite'));
+    db.prepare('DELETE FROM state_meta').run();
+    db.prepare('INSERT INTO state_entries (store_id, sku, entry) VALUES (?, ?, ?)')
+      .run(4, 'A', JSON.stringify({ quantity: 1, enabled: true, syncedToWolt: true }));
+    db.close();
+    store = new SqliteStateStore(path.join(tmpDir, 'state.sqlite'));
+
+    const envelope = await store.loadEnvelope(4);
+
+    expect(envelope?.schemaVersion).toBe(2);
+    expect(envelope?.entries.A).toEqual({ quantity: 1, enabled: true, lastSeen: 0, syncedToWolt: true });
+    const createdAt = envelope?.createdAt;
+    expect((await store.loadEnvelope(4))?.createdAt).toBe(createdAt);
+  });
+
+  it('should delete a store', async () => {
+    await store.saveState(4, { A: { quantity: 1, enabled: true, lastSeen: 1 } });
+    await store.deleteState(4);
+    expect(await store.stateExists(4)).toBe(false);
+  });
+});
@@ -25,6 +25,11 @@ vi.mock('fs-extra', () => ({
   remove: vi.fn(),
 }));
 
+// Cross-process locking is covered in fileLock.test.ts
+vi.mock('../../src/utils/fileLock', () => ({
+  withFileLock: (_filePath: string, fn: () => Promise<unknown>) => fn(),
+}));
+
 describe('StateManager', () => {
   let stateManager: StateManager;
 
@@ -56,6 +61,25 @@ describe('StateManager', () => {
       expect(state).toEqual(mockState);
     });
 
+    it('should rewrite legacy state files as a versioned envelope', async () => {
+      const legacyState = {
+        'WOLT-001': { quantity: 10, enabled: true, lastSeen: 1, syncedToWolt: true },
+      };
+
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue(legacyState as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+      vi.mocked(fs.move).mockResolvedValue(undefined as never);
+
+      const state = await stateManager.loadState(1);
+
+      expect(state).toEqual(legacyState);
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining('.state-store-1.json.tmp'),
+        expect.objectContaining({ schemaVersion: 2, storeId: 1, entries: legacyState })
+      );
+    });
+
     it('should return empty state on read error', async () => {
       vi.mocked(fs.pathExists)
         .mockResolvedValueOnce(true as never)
@@ -117,6 +141,51 @@ describe('StateManager', () => {
     });
   });
 
+  describe('upsertEntries', () => {
+    it('should merge confirmed entries into the loaded state without re-reading the file', async () => {
+      const loaded = {
+        'WOLT-001': { quantity: 10, enabled: true, lastSeen: 1 },
+        'WOLT-002': { quantity: 0, enabled: false, lastSeen: 1 },
+      };
+      const confirmed = { 'WOLT-002': { quantity: 3, enabled: true, lastSeen: 2 } };
+
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockResolvedValue({ schemaVersion: 2, storeId: 1, createdAt: '2026-01-01T00:00:00.000Z', entries: loaded } as never);
+      vi.mocked(fs.writeJson).mockResolvedValue(undefined as never);
+      vi.mocked(fs.move).mockResolvedValue(undefined as never);
+
+      await stateManager.loadState(1);
+      await stateManager.upsertEntries(1, confirmed);
+
+      expect(fs.readJson).toHaveBeenCalledTimes(1);
+      expect(fs.writeJson).toHaveBeenCalledWith(
+        expect.stringContaining('.state-store-1.json.tmp'),
+        expect.objectContaining({ entries: { ...loaded, ...confirmed } })
+      );
+    });
+
+    it('should not replace a corrupt state file with a single batch', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(true as never);
+      vi.mocked(fs.readJson).mockRejectedValue(new Error('Unexpected end of JSON input') as never);
+
+      expect(await stateManager.loadState(1)).toEqual({});
+      await expect(stateManager.upsertEntries(1, { 'WOLT-001': { quantity: 1, enabled: true, lastSeen: 1 } }))
+        .rejects.toThrow('could not be read');
+
+      expect(fs.writeJson).not.toHaveBeenCalled();
+      expect(fs.move).not.toHaveBeenCalled();
+    });
+
+    it('should propagate write failures', async () => {
+      vi.mocked(fs.pathExists).mockResolvedValue(false as never);
+      vi.mocked(fs.writeJson).mockRejectedValue(new Error('ENOSPC') as never);
+
+      await stateManager.loadState(1);
+      await expect(stateManager.upsertEntries(1, { 'WOLT-001': { quantity: 1, enabled: true, lastSeen: 1 } }))
+        .rejects.toThrow('ENOSPC');
+    });
+  });
+
   describe('stateExists', () => {
     it('should return true when state file exists', async () => {
       vi.mocked(fs.pathExists).mockResolvedValue(true as never);
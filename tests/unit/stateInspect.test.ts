@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { diffAgainstWolt, filterState, summarizeState } from '../../src/core/stateInspect';
+
+describe('stateInspect', () => {
+  const state = {
+    'MILK-1': { quantity: 4, enabled: true, price: 120, lastSeen: 1, syncedToWolt: true },
+    'MILK-2': { quantity: 0, enabled: false, price: 150, lastSeen: 1 },
+    'BREAD-1': { quantity: 2, enabled: true, price: 80, discountedPrice: 70, lastSeen: 1 },
+    'BREAD-2': { quantity: 0, enabled: false, lastSeen: 1 }
+  };
+
+  it('should filter by SKU glob, flags and ranges', () => {
+    expect(filterState(state, { enabled: false, priceGt: 100 }).map(([sku]) => sku)).toEqual(['MILK-2']);
+    expect(filterState(state, { sku: 'BREAD-*' }).map(([sku]) => sku)).toEqual(['BREAD-1', 'BREAD-2']);
+    expect(filterState(state, { priceLt: 100 }).map(([sku]) => sku)).toEqual(['BREAD-1']); // no price never matches
+    expect(filterState(state, { syncedToWolt: false, quantityGt: 0 }).map(([sku]) => sku)).toEqual(['BREAD-1']);
+  });
+
+  it('should summarize the state', () => {
+    expect(summarizeState(state)).toEqual({
+      entries: 4,
+      enabled: 2,
+      disabled: 2,
+      syncedToWolt: 1,
+      withoutPrice: 1,
+      withPromotion: 1
+    });
+  });
+
+  it('should compare only the fields present in the Wolt catalog', () => {
+    const diff = diffAgainstWolt(state, [
+      { sku: 'MILK-1', enabled: true, price: 125 },
+      { sku: 'MILK-2', enabled: false, inventory: 0 },
+      { sku: 'BREAD-1', enabled: false, inventory: 2 },
+      { sku: 'EGGS-1', enabled: true }
+    ]);
+
+    expect(diff).toEqual([
+      { sku: 'BREAD-1', change: 'changed', fields: { enabled: { from: true, to: false } } },
+      { sku: 'BREAD-2', change: 'removed', fields: {} },
+      { sku: 'EGGS-1', change: 'added', fields: {} },
+      { sku: 'MILK-1', change: 'changed', fields: { price: { from: 120, to: 125 } } }
+    ]);
+  });
+});
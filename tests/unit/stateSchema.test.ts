@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  STATE_SCHEMA_VERSION,
+  StateSchemaError,
+  UnsupportedStateVersionError,
+  createEnvelope,
+  markConfirmed,
+  parseStateDocument
+} from '../../src/core/stateSchema';
+
+vi.mock('../../src/config/stores', () => ({
+  stores: [{ id: 1, woltVenueId: 'venue-1' }]
+}));
+
+describe('stateSchema', () => {
+  it('should migrate a legacy bare map to the current envelope', () => {
+    const legacy = {
+      'WOLT-001': { quantity: 3, enabled: true, price: 9.99, lastSeen: 100, syncedToWolt: true },
+      'WOLT-002': { quantity: 0, enabled: false }
+    };
+
+    const result = parseStateDocument(legacy, 1);
+
+    expect(result.migratedFrom).toBe(1);
+    expect(result.envelope.schemaVersion).toBe(STATE_SCHEMA_VERSION);
+    expect(result.envelope.storeId).toBe(1);
+    expect(result.envelope.venueId).toBe('venue-1');
+    expect(result.envelope.entries['WOLT-001']).toEqual({ quantity: 3, enabled: true, price: 9.99, lastSeen: 100, syncedToWolt: true });
+    expect(result.envelope.entries['WOLT-002'].lastSeen).toBe(0);
+  });
+
+  it('should accept a current envelope without migrating', () => {
+    const envelope = createEnvelope(1, { A: { quantity: 1, enabled: true, lastSeen: 1 } }, '2026-01-01T00:00:00.000Z');
+
+    const result = parseStateDocument(JSON.parse(JSON.stringify(envelope)), 1);
+
+    expect(result.migratedFrom).toBeUndefined();
+    expect(result.envelope.createdAt).toBe('2026-01-01T00:00:00.000Z');
+    expect(result.envelope.entries).toEqual(envelope.entries);
+  });
+
+  it('should reject invalid entries and envelopes for another store', () => {
+    expect(() => parseStateDocument({ A: { quantity: 'x', enabled: true, lastSeen: 1 } }, 1)).toThrow(StateSchemaError);
+    expect(() => parseStateDocument(createEnvelope(2, {}), 1)).toThrow(/store 2/);
+    expect(() => parseStateDocument([], 1)).toThrow(StateSchemaError);
+  });
+
+  it('should refuse state written by a newer schema version', () => {
+    const future = { ...createEnvelope(1, {}), schemaVersion: STATE_SCHEMA_VERSION + 1 };
+
+    expect(() => parseStateDocument(future, 1)).toThrow(UnsupportedStateVersionError);
+  });
+
+  it('should stamp confirmed entries', () => {
+    const entry = markConfirmed({ quantity: 1, enabled: true, lastSeen: 1 }, 10, 20);
+
+    expect(entry).toEqual({ quantity: 1, enabled: true, lastSeen: 1, syncedToWolt: true, lastSentAt: 10, lastConfirmedAt: 20 });
+  });
+});
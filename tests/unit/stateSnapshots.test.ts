@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { StateSnapshotStore, buildRestoreDelta, diffStates } from '../../src/core/stateSnapshots';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('StateSnapshotStore', () => {
+  let tmpDir: string;
+  let snapshots: StateSnapshotStore;
+  const state = { A: { quantity: 1, enabled: true, price: 10, lastSeen: 1 } };
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'snapshots-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    snapshots = new StateSnapshotStore();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    delete process.env.STATE_SNAPSHOT_KEEP_LAST;
+    await fs.remove(tmpDir);
+  });
+
+  it('should snapshot changed state and find it by time', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-03-01T10:00:00Z'), toFake: ['Date'] });
+    await snapshots.take(4, state, 'sync', 'run-1');
+    vi.setSystemTime(Date.parse('2026-03-01T11:00:00Z'));
+    expect(await snapshots.take(4, { A: { ...state.A, lastSeen: 2 } }, 'sync', 'run-2')).toBeNull(); // only lastSeen changed
+    await snapshots.take(4, { A: { ...state.A, price: 99, lastSeen: 3 } }, 'sync', 'run-3');
+
+    const list = await snapshots.list(4);
+    expect(list.map(info => info.runId)).toEqual(['run-1', 'run-3']);
+    expect((await snapshots.findAt(4, Date.parse('2026-03-01T10:30:00Z')))?.state.A.price).toBe(10);
+    expect((await snapshots.findAt(4, Date.now()))?.runId).toBe('run-3');
+    expect(await snapshots.findAt(4, Date.parse('2026-03-01T09:00:00Z'))).toBeNull();
+  });
+
+  it('should keep the newest snapshots plus the last one per day', async () => {
+    process.env.STATE_SNAPSHOT_KEEP_LAST = '2';
+    vi.useFakeTimers({ now: Date.parse('2026-03-01T10:00:00Z'), toFake: ['Date'] });
+    for (let i = 0; i < 5; i++) {
+      vi.setSystemTime(Date.parse('2026-03-01T10:00:00Z') + i * 12 * 60 * 60 * 1000);
+      await snapshots.take(4, { A: { ...state.A, quantity: i } }, 'sync', `run-${i}`);
+    }
+
+    // Days: 03-01 (run-0, run-1), 03-02 (run-2, run-3), 03-03 (run-4)
+    expect((await snapshots.list(4)).map(info => info.runId)).toEqual(['run-1', 'run-3', 'run-4']);
+  });
+});
+
+describe('state diff and restore delta', () => {
+  const before = {
+    A: { quantity: 1, enabled: true, price: 10, discountedPrice: 8, lastSeen: 1 },
+    B: { quantity: 0, enabled: false, price: 5, lastSeen: 1 }
+  };
+  const after = {
+    A: { quantity: 1, enabled: true, price: 12, lastSeen: 2 },
+    C: { quantity: 3, enabled: true, price: 7, lastSeen: 2 }
+  };
+
+  it('should report field changes, additions and removals', () => {
+    const diff = diffStates(before, after);
+
+    expect(diff.map(entry => [entry.sku, entry.change])).toEqual([['A', 'changed'], ['B', 'removed'], ['C', 'added']]);
+    expect(diff[0].fields).toEqual({ price: { from: 10, to: 12 }, discountedPrice: { from: 8, to: undefined } });
+  });
+
+  it('should build updates that put the snapshot values back', () => {
+    const delta = buildRestoreDelta(after, before);
+
+    expect(delta.itemUpdates).toEqual([
+      { sku: 'A', enabled: true, price: 10, discounted_price: 8 },
+      { sku: 'B', enabled: false, price: 5 }
+    ]);
+    expect(delta.inventoryUpdates).toEqual([{ sku: 'B', inventory: 0 }]);
+    expect(delta.newState).toEqual(before);
+  });
+});
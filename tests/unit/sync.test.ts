@@ -1,77 +1,228 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach, MockedObject } from 'vitest';
 import { SyncEngine } from '../../src/core/sync';
-import { StoreConfig } from '../../src/types';
+import { FinaAdapter, FinaDetailsResult } from '../../src/adapters/fina';
+import { WoltAdapter } from '../../src/adapters/wolt';
+import { StateManager } from '../../src/core/state';
+import { ReportStore } from '../../src/core/reportStore';
+import { PendingDeltaStore } from '../../src/core/anomalyGuard';
+import { AuditJournal } from '../../src/core/auditJournal';
+import { StateSnapshotStore } from '../../src/core/stateSnapshots';
+import { QuarantineStore } from '../../src/core/quarantine';
+import { FinaProductDetail, StoreConfig } from '../../src/types';
+import { PlanStaleError, hashState, writePlan } from '../../src/core/syncPlan';
+import { WoltBatchRejectedError } from '../../src/adapters/woltErrors';
+import { SkuControlSet, SkuControlStore } from '../../src/core/skuControls';
+import { ProductDetailCache } from '../../src/core/productDetailCache';
+import { metricsCollector } from '../../src/utils/metrics';
 
 // Mock timers to speed up tests
 vi.useFakeTimers();
 
 // Mock metrics collector
 vi.mock('../../src/utils/metrics', () => {
+  const collector = () => ({
+    startSync: vi.fn(),
+    endSync: vi.fn(),
+    recordFinaInventory: vi.fn(),
+    recordFinaDetails: vi.fn(),
+    recordFinaDetailsCache: vi.fn(),
+    recordFinaValidation: vi.fn(),
+    recordSkuMapping: vi.fn(),
+    recordSkuConflicts: vi.fn(),
+    recordFinaError: vi.fn(),
+    recordWoltItemsUpdate: vi.fn(),
+    recordWoltInventoryUpdate: vi.fn(),
+    recordWoltError: vi.fn(),
+    recordWoltRateLimit: vi.fn(),
+    recordChanges: vi.fn(),
+    recordDeltaHeld: vi.fn(),
+    recordQuarantined: vi.fn(),
+    recordReconciliation: vi.fn(),
+    getReconciliation: vi.fn()
+  });
   return {
-    metricsCollector: {
-      startSync: vi.fn(),
-      endSync: vi.fn(),
-      recordFinaInventory: vi.fn(),
-      recordFinaDetails: vi.fn(),
-      recordFinaError: vi.fn(),
-      recordWoltItemsUpdate: vi.fn(),
-      recordWoltInventoryUpdate: vi.fn(),
-      recordWoltError: vi.fn(),
-      recordWoltRateLimit: vi.fn(),
-      recordChanges: vi.fn()
-    }
+    metricsCollector: collector(),
+    MetricsCollector: vi.fn().mockImplementation(function () {
+      return collector();
+    })
   };
 });
 
 // Mock Adapters - updated to return new structure
-vi.mock('../../src/adapters/fina', () => {
+vi.mock('../../src/adapters/fina', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/adapters/fina')>();
   return {
-    FinaAdapter: vi.fn().mockImplementation(() => ({
-      getInventory: vi.fn().mockResolvedValue({
-        items: [
-          { id: 101, rest: 5, store_id: 1 },
-          { id: 102, rest: 0, store_id: 1 }
-        ],
-        durationMs: 100
-      }),
-      getProductDetails: vi.fn().mockResolvedValue({
-        products: [
-          { id: 101, price: 100, add_fields: [{ field: 'usr_column_514', value: 'WOLT-101' }] },
-          { id: 102, price: 200, add_fields: [{ field: 'usr_column_514', value: 'WOLT-102' }] }
-        ],
-        durationMs: 500,
-        apiCalls: 1
-      }),
-      mapToWoltSku: vi.fn().mockReturnValue(new Map([
-        [101, 'WOLT-101'],
-        [102, 'WOLT-102']
-      ]))
-    }))
+    ...actual,
+    FinaAdapter: vi.fn().mockImplementation(function () {
+      return {
+        getInventory: vi.fn().mockResolvedValue({
+          items: [
+            { id: 101, rest: 5, store_id: 1 },
+            { id: 102, rest: 0, store_id: 1 }
+          ],
+          durationMs: 100
+        }),
+        getProductDetails: vi.fn().mockResolvedValue({
+          products: [
+            { id: 101, title: 'Milk', price: 100, add_fields: [{ field: 'usr_column_514', value: 'WOLT-101' }] },
+            { id: 102, title: 'Bread', price: 200, add_fields: [{ field: 'usr_column_514', value: 'WOLT-102' }] }
+          ],
+          durationMs: 500,
+          apiCalls: 1
+        }),
+        mapToWoltSku: vi.fn().mockReturnValue(new Map([
+          [101, 'WOLT-101'],
+          [102, 'WOLT-102']
+        ]))
+      };
+    })
   };
 });
 
 vi.mock('../../src/adapters/wolt', () => {
   return {
-    WoltAdapter: vi.fn().mockImplementation(() => ({
-      updateInventory: vi.fn().mockResolvedValue({ success: true, itemCount: 2, rateLimitHit: false }),
-      updateItems: vi.fn().mockResolvedValue({ success: true, itemCount: 2, rateLimitHit: false })
-    }))
+    WoltAdapter: vi.fn().mockImplementation(function () {
+      return {
+        updateInventory: vi.fn().mockResolvedValue({ success: true, itemCount: 2, rateLimitHit: false }),
+        updateItems: vi.fn().mockResolvedValue({ success: true, itemCount: 2, rateLimitHit: false }),
+        createItems: vi.fn().mockResolvedValue({ success: true, itemCount: 1, rateLimitHit: false })
+      };
+    })
   };
 });
 
+vi.mock('../../src/adapters/woltCatalog', () => {
+  const read = vi.fn().mockResolvedValue({
+    storeId: 1,
+    venueId: 'test-venue',
+    fetchedAt: '2026-01-01T00:00:00.000Z',
+    pages: 1,
+    invalidItems: 0,
+    items: [
+      { sku: 'WOLT-101', enabled: false, price: 100, inventory: 10 },
+      { sku: 'STRAY-1', enabled: true }
+    ]
+  });
+  return { WoltCatalogReader: { fromEnv: vi.fn().mockReturnValue({ read, invalidate: vi.fn() }) } };
+});
+
 vi.mock('../../src/core/state', () => {
   return {
-    StateManager: vi.fn().mockImplementation(() => ({
-      loadState: vi.fn().mockResolvedValue({
-        'WOLT-101': { quantity: 10, lastSeen: 0 } // Was 10, now 5 -> Change!
-      }),
-      saveState: vi.fn().mockResolvedValue(undefined)
-    }))
+    StateManager: vi.fn().mockImplementation(function () {
+      return {
+        loadState: vi.fn().mockResolvedValue({
+          'WOLT-101': { quantity: 10, lastSeen: 0 } // Was 10, now 5 -> Change!
+        }),
+        saveState: vi.fn().mockResolvedValue(undefined),
+        upsertEntries: vi.fn().mockResolvedValue(undefined)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/reportStore', () => {
+  return {
+    ReportStore: vi.fn().mockImplementation(function () {
+      return {
+        save: vi.fn().mockResolvedValue(undefined),
+        load: vi.fn().mockResolvedValue(null)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/anomalyGuard', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/anomalyGuard')>();
+  return {
+    ...actual,
+    PendingDeltaStore: vi.fn().mockImplementation(function () {
+      return {
+        save: vi.fn().mockResolvedValue(undefined),
+        load: vi.fn().mockResolvedValue(null),
+        discard: vi.fn().mockResolvedValue(false)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/auditJournal', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/auditJournal')>();
+  return {
+    ...actual,
+    AuditJournal: vi.fn().mockImplementation(function () {
+      return {
+        track: vi.fn((_context: unknown, _endpoint: string, _batch: unknown[], send: () => Promise<unknown>) => send())
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/stateSnapshots', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/stateSnapshots')>();
+  return {
+    ...actual,
+    StateSnapshotStore: vi.fn().mockImplementation(function () {
+      return {
+        take: vi.fn().mockResolvedValue(null)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/quarantine', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/quarantine')>();
+  return {
+    ...actual,
+    QuarantineStore: vi.fn().mockImplementation(function () {
+      return {
+        skus: vi.fn().mockResolvedValue(new Set()),
+        list: vi.fn().mockResolvedValue([]),
+        add: vi.fn().mockResolvedValue(undefined),
+        release: vi.fn(async (_storeId: number, skus: string[]) => skus)
+      };
+    })
+  };
+});
+
+vi.mock('../../src/core/skuControls', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/skuControls')>();
+  return {
+    ...actual,
+    SkuControlStore: vi.fn().mockImplementation(function () {
+      return { active: vi.fn().mockResolvedValue(new actual.SkuControlSet()) };
+    })
   };
 });
 
+// Product cache disabled: every run fetches from the mocked Fina adapter
+vi.mock('../../src/core/productDetailCache', () => {
+  return {
+    ProductDetailCache: {
+      fromEnv: vi.fn().mockReturnValue({
+        getDetails: vi.fn(async (_storeId: number, ids: number[], _stock: unknown, fetch: (ids: number[]) => Promise<object>) =>
+          ({ ...(await fetch(ids)), cache: { hits: 0 } }))
+      })
+    }
+  };
+});
+
+vi.mock('../../src/core/syncPlan', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../src/core/syncPlan')>();
+  return { ...actual, writePlan: vi.fn().mockResolvedValue(undefined) };
+});
+
 describe('SyncEngine', () => {
   let engine: SyncEngine;
+  // The engine's collaborators, as built by the mocked constructors above
+  let wolt: MockedObject<WoltAdapter>;
+  let fina: MockedObject<FinaAdapter>;
+  let stateManager: MockedObject<StateManager>;
+  let reportStore: MockedObject<ReportStore>;
+  let pendingDeltas: MockedObject<PendingDeltaStore>;
+  let auditJournal: MockedObject<AuditJournal>;
+  let snapshots: MockedObject<StateSnapshotStore>;
+  let quarantine: MockedObject<QuarantineStore>;
+  let skuControls: MockedObject<SkuControlStore>;
   const mockStore: StoreConfig = {
     id: 1,
     name: 'Test Store',
@@ -80,10 +231,21 @@ describe('SyncEngine', () => {
     woltPassword: 'pass',
     enabled: true
   };
+  const detailsOf = (products: FinaProductDetail[], missingIds: number[] = []): FinaDetailsResult =>
+    ({ products, durationMs: 10, apiCalls: 1, missingIds, failedChunks: 0, invalidRows: [] });
 
   beforeEach(() => {
     vi.clearAllMocks();
     engine = new SyncEngine();
+    wolt = vi.mocked(engine['wolt']);
+    fina = vi.mocked(engine['fina']);
+    stateManager = vi.mocked(engine['stateManager']);
+    reportStore = vi.mocked(engine['reportStore']);
+    pendingDeltas = vi.mocked(engine['pendingDeltas']);
+    auditJournal = vi.mocked(engine['auditJournal']);
+    snapshots = vi.mocked(engine['snapshots']);
+    quarantine = vi.mocked(engine['quarantine']);
+    skuControls = vi.mocked(engine['skuControls']);
   });
 
   afterEach(() => {
@@ -105,33 +267,365 @@ describe('SyncEngine', () => {
     await syncPromise;
 
     // Access the mocked instance
-    const woltAdapter = (engine as any).wolt;
-    expect(woltAdapter.updateInventory).toHaveBeenCalled();
+    expect(wolt.updateInventory).toHaveBeenCalled();
 
     // Check payload
-    const payload = woltAdapter.updateInventory.mock.calls[0][1];
+    const payload = wolt.updateInventory.mock.calls[0][1];
     expect(payload.data).toEqual(expect.arrayContaining([
       { sku: 'WOLT-101', inventory: 5 },
       { sku: 'WOLT-102', inventory: 0 } // New item? Or just changed? State didn't have it, so it's a change.
     ]));
+
+    // Confirmed batches are stamped in the persisted state
+    const savedState = stateManager.saveState.mock.calls[0][1];
+    expect(savedState['WOLT-101']).toMatchObject({ quantity: 5, syncedToWolt: true });
+    expect(savedState['WOLT-101'].lastConfirmedAt).toBeGreaterThanOrEqual(savedState['WOLT-101'].lastSentAt!);
   }, 30000); // Increase timeout to 30s
 
   it('should call updateItems for availability changes', async () => {
+    const syncPromise = engine.run(mockStore);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.updateItems).toHaveBeenCalled();
+
+    const [context, endpoint, batch] = auditJournal.track.mock.calls[0];
+    expect(endpoint).toBe('items');
+    expect(batch).toEqual(wolt.updateItems.mock.calls[0][1].data);
+    expect(context.source).toBe('sync');
+    expect(context.reasons?.get('WOLT-102')).toBe('new SKU');
+  }, 30000);
+
+  it('should send vat_percentage only when it changes', async () => {
+    process.env.VAT_DEFAULT_PERCENTAGE = '18';
+    stateManager.loadState.mockResolvedValueOnce({
+      'WOLT-101': { quantity: 5, enabled: true, price: 100, vatPercentage: 18, lastSeen: 0 },
+      'WOLT-102': { quantity: 0, enabled: false, price: 200, lastSeen: 0 }
+    });
+
+    const syncPromise = engine.run(mockStore);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    delete process.env.VAT_DEFAULT_PERCENTAGE;
+    const payload = wolt.updateItems.mock.calls[0][1];
+    expect(payload.data).toEqual([{ sku: 'WOLT-102', enabled: false, price: 200, vat_percentage: 18 }]);
+  }, 30000);
+
+  it('should hold a delta that would disable most of the catalog', async () => {
+    const previousState: Record<string, { quantity: number; enabled: boolean; price: number; lastSeen: number }> = {};
+    for (let i = 0; i < 30; i++) {
+      previousState[`OLD-${i}`] = { quantity: 3, enabled: true, price: 10, lastSeen: 0 };
+    }
+    stateManager.loadState.mockResolvedValueOnce(previousState);
+
+    const syncPromise = engine.run(mockStore);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.updateItems).not.toHaveBeenCalled();
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+    expect(stateManager.saveState).not.toHaveBeenCalled();
+    expect(pendingDeltas.save).toHaveBeenCalledTimes(1);
+    const held = pendingDeltas.save.mock.calls[0][0];
+    expect(held.check.disabledCount).toBe(30);
+    expect(held.itemUpdates).toEqual(expect.arrayContaining([{ sku: 'OLD-0', enabled: false }]));
+    expect(held.baseStateHash).toBe(hashState(previousState));
+  }, 30000);
+
+  it('should approve a held delta only against the state it was computed from', async () => {
+    const baseState = { 'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 } };
+    const held = {
+      storeId: 1,
+      createdAt: '2026-03-01T10:00:00.000Z',
+      baseStateHash: hashState(baseState),
+      check: { catalogSize: 1, disabledCount: 1, disabledPercent: 100, priceChangeCount: 0, priceChangePercent: 0, tripped: true, reasons: ['test'] },
+      itemUpdates: [{ sku: 'WOLT-101', enabled: false }],
+      inventoryUpdates: [{ sku: 'WOLT-101', inventory: 0 }],
+      newState: { 'WOLT-101': { quantity: 0, enabled: false, price: 100, lastSeen: 0 } }
+    };
+    pendingDeltas.load.mockResolvedValue(held);
+
+    // Another sync ran since the delta was held
+    stateManager.loadState.mockResolvedValue({ 'WOLT-101': { quantity: 4, enabled: true, price: 100, lastSeen: 1 } });
+    await expect(engine.approvePendingDelta(mockStore)).rejects.toBeInstanceOf(PlanStaleError);
+    expect(wolt.updateItems).not.toHaveBeenCalled();
+    expect(stateManager.saveState).not.toHaveBeenCalled();
+    expect(pendingDeltas.discard).not.toHaveBeenCalled();
+
+    stateManager.loadState.mockResolvedValue(baseState);
+    const approvePromise = engine.approvePendingDelta(mockStore);
+    await vi.runAllTimersAsync();
+    await approvePromise;
+    expect(wolt.updateItems.mock.calls[0][1].data).toEqual(held.itemUpdates);
+    expect(stateManager.saveState).toHaveBeenLastCalledWith(1, held.newState);
+    expect(pendingDeltas.discard).toHaveBeenCalledWith(1);
+  }, 30000);
+
+  it('should write a plan instead of sending and apply it only against the same state', async () => {
+    const baseState = { 'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 } };
+    stateManager.loadState.mockResolvedValue(baseState);
+
+    const syncPromise = engine.runWithOptions(mockStore, { planFile: '/tmp/plan.json' });
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+    expect(stateManager.saveState).not.toHaveBeenCalled();
+
+    const plan = vi.mocked(writePlan).mock.calls[0][1];
+    expect(plan.baseStateHash).toBe(hashState(baseState));
+    expect(plan.inventoryUpdates).toEqual(expect.arrayContaining([{ sku: 'WOLT-101', inventory: 5 }]));
+
+    const applyPromise = engine.applyPlan(mockStore, plan);
+    await vi.runAllTimersAsync();
+    await applyPromise;
+    expect(wolt.updateInventory.mock.calls[0][1].data).toEqual(plan.inventoryUpdates);
+    expect(stateManager.saveState).toHaveBeenLastCalledWith(1, plan.newState);
+
+    stateManager.loadState.mockResolvedValue({ ...baseState, 'WOLT-102': { quantity: 1, enabled: true, lastSeen: 0 } });
+    await expect(engine.applyPlan(mockStore, plan)).rejects.toBeInstanceOf(PlanStaleError);
+  }, 30000);
+
+  it('should restore a snapshot and push only the values that differ', async () => {
+    const snapshot = {
+      storeId: 1,
+      takenAt: '2026-01-01T00:00:00.000Z',
+      source: 'sync' as const,
+      contentHash: 'hash',
+      state: {
+        'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 },
+        'WOLT-102': { quantity: 0, enabled: false, price: 200, lastSeen: 0 }
+      }
+    };
+    stateManager.loadState.mockResolvedValue({
+      'WOLT-101': { quantity: 10, enabled: true, price: 1, lastSeen: 0 },
+      'WOLT-102': { quantity: 0, enabled: false, price: 200, lastSeen: 0 }
+    });
+
+    const restorePromise = engine.restoreSnapshot(mockStore, snapshot, { push: true });
+    await vi.runAllTimersAsync();
+    const delta = await restorePromise;
+    expect(delta.itemUpdates).toEqual([{ sku: 'WOLT-101', enabled: true, price: 100 }]);
+    expect(delta.inventoryUpdates).toEqual([]);
+    expect(wolt.updateItems.mock.calls[0][1].data).toEqual(delta.itemUpdates);
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+    expect(snapshots.take).toHaveBeenCalledWith(1, expect.any(Object), 'pre-restore');
+    expect(stateManager.saveState.mock.calls[0][1]['WOLT-101']).toMatchObject({ price: 100, syncedToWolt: true });
+  }, 30000);
+
+  it('should report drift and heal it within the budget', async () => {
+    stateManager.loadState.mockResolvedValue({
+      'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 },
+      'WOLT-102': { quantity: 3, enabled: true, price: 200, lastSeen: 0 }
+    });
+
+    const reconcilePromise = engine.reconcile(mockStore, { heal: true });
+    await vi.runAllTimersAsync();
+    const report = await reconcilePromise;
+
+    expect(report?.counts).toMatchObject({ availability: 1, unknown_on_wolt: 1, missing_on_wolt: 1, price: 0, inventory: 0 });
+    expect(report?.healed).toBe(1);
+    expect(wolt.updateItems.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-101', enabled: true, price: 100 }]);
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+    expect(reportStore.save).toHaveBeenCalledWith(1, 'drift', report);
+  }, 30000);
+
+  it('should preview the new state without recording a sync or writing anything', async () => {
+    const previewPromise = engine.previewState(mockStore);
+    await vi.runAllTimersAsync();
+    const state = await previewPromise;
+
+    expect(state?.['WOLT-101']).toMatchObject({ quantity: 5, enabled: true, price: 100 });
+    expect(state?.['WOLT-102']).toMatchObject({ quantity: 0, enabled: false });
+    expect(metricsCollector.startSync).not.toHaveBeenCalled();
+    expect(metricsCollector.endSync).not.toHaveBeenCalled();
+    expect(vi.mocked(ProductDetailCache.fromEnv).mock.results[0].value.getDetails)
+      .toHaveBeenCalledWith(1, [101, 102], expect.any(Map), expect.any(Function), expect.objectContaining({ readOnly: true }));
+    expect(stateManager.saveState).not.toHaveBeenCalled();
+    expect(stateManager.upsertEntries).not.toHaveBeenCalled();
+    expect(reportStore.save).not.toHaveBeenCalled();
+    expect(wolt.updateItems).not.toHaveBeenCalled();
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should create SKUs missing on Wolt before sending their updates', async () => {
+    const syncPromise = engine.runWithOptions(mockStore, { createMissing: true });
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.createItems).toHaveBeenCalledTimes(1);
+    expect(wolt.createItems.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-102', name: 'Bread', price: 200, enabled: false }]);
+    expect(wolt.createItems.mock.invocationCallOrder[0]).toBeLessThan(wolt.updateItems.mock.invocationCallOrder[0]);
+    expect(reportStore.save).toHaveBeenCalledWith(1, 'menu-push', expect.objectContaining({ dryRun: false, missingOnWolt: 1 }));
+  }, 30000);
+
+  it('should release created SKUs the quarantine held as unknown', async () => {
+    quarantine.skus.mockResolvedValue(new Set(['WOLT-102']));
+    quarantine.list.mockResolvedValue([
+      { sku: 'WOLT-102', kind: 'unknown_sku', reason: 'Item not found', endpoint: 'items', httpStatus: 404, quarantinedAt: '2026-03-01T10:00:00.000Z' }
+    ]);
+
+    const syncPromise = engine.runWithOptions(mockStore, { createMissing: true });
+    await vi.runAllTimersAsync();
+    await syncPromise;
+
+    expect(wolt.createItems.mock.calls[0][1].data.map(item => item.sku)).toEqual(['WOLT-102']);
+    expect(quarantine.release).toHaveBeenCalledWith(1, ['WOLT-102']);
+    expect(reportStore.save).toHaveBeenCalledWith(1, 'menu-push', expect.objectContaining({ released: ['WOLT-102'] }));
+  }, 30000);
+
+  it('should only report items to create in dry-run', async () => {
+    const syncPromise = engine.runWithOptions(mockStore, { createMissing: true, dryRun: true });
+    await vi.runAllTimersAsync();
+    await syncPromise;
+
+    expect(wolt.createItems).not.toHaveBeenCalled();
+    expect(reportStore.save).toHaveBeenCalledWith(1, 'menu-push', expect.objectContaining({
+      dryRun: true,
+      created: [expect.objectContaining({ sku: 'WOLT-102' })]
+    }));
+  }, 30000);
+
+  it('should quarantine SKUs Wolt rejects and keep syncing the rest', async () => {
+    wolt.updateItems.mockImplementation(async (_venue: string, payload: { data: Array<{ sku: string }> }) => {
+      if (payload.data.some(item => item.sku === 'WOLT-102')) {
+        throw new WoltBatchRejectedError('rejected', 422, []);
+      }
+      return { success: true, itemCount: payload.data.length, rateLimitHit: false };
+    });
+
     const syncPromise = engine.run(mockStore);
     await vi.runAllTimersAsync();
     await syncPromise;
 
-    const woltAdapter = (engine as any).wolt;
-    expect(woltAdapter.updateItems).toHaveBeenCalled();
+    // Bisected down to the bad SKU; stock is not sent for it either
+    expect(wolt.updateItems.mock.calls.map(call => call[1].data.map(item => item.sku)))
+      .toEqual([['WOLT-101', 'WOLT-102'], ['WOLT-101'], ['WOLT-102']]);
+    expect(wolt.updateInventory.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-101', inventory: 5 }]);
+    expect(quarantine.add).toHaveBeenCalledWith(1, [expect.objectContaining({ sku: 'WOLT-102', endpoint: 'items', httpStatus: 422 })]);
+    const savedState = stateManager.saveState.mock.calls[0][1];
+    expect(savedState['WOLT-102']).toBeUndefined(); // New SKU: sent again once released
+    expect(savedState['WOLT-101']).toMatchObject({ syncedToWolt: true });
+  }, 30000);
+
+  it('should leave quarantined SKUs out of the delta', async () => {
+    quarantine.skus.mockResolvedValue(new Set(['WOLT-102']));
+
+    const syncPromise = engine.run(mockStore);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.updateItems.mock.calls[0][1].data.map(item => item.sku)).toEqual(['WOLT-101']);
+    expect(wolt.updateInventory.mock.calls[0][1].data.map(item => item.sku)).toEqual(['WOLT-101']);
+  }, 30000);
+
+  it('should honor ignored and force-disabled SKUs', async () => {
+    skuControls.active.mockResolvedValue(new SkuControlSet([
+      { sku: 'WOLT-101', action: 'force-disable', reason: 'recalled', createdAt: '2026-03-01T00:00:00.000Z' },
+      { sku: 'WOLT-102', action: 'ignore', reason: 'managed in Wolt portal', createdAt: '2026-03-01T00:00:00.000Z' }
+    ]));
+
+    const syncPromise = engine.run(mockStore);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.updateItems.mock.calls[0][1].data).toEqual([expect.objectContaining({ sku: 'WOLT-101', enabled: false })]);
+    expect(wolt.updateInventory.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-101', inventory: 0 }]);
+
+    const savedState = stateManager.saveState.mock.calls[0][1];
+    expect(savedState['WOLT-101']).toMatchObject({ enabled: false, quantity: 0 });
+    expect(savedState['WOLT-102']).toBeUndefined();
+  }, 30000);
+
+  it('should sync only the products of a Fina webhook event', async () => {
+    stateManager.loadState.mockResolvedValueOnce({
+      'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 },
+      'WOLT-102': { quantity: 3, enabled: true, price: 200, lastSeen: 0 },
+      'WOLT-OTHER': { quantity: 7, enabled: true, price: 50, lastSeen: 0 }
+    });
+    fina.getProductDetails.mockResolvedValueOnce(detailsOf([{ id: 102, title: 'Bread', price: 200, add_fields: [{ field: 'usr_column_514', value: 'WOLT-102' }] }]));
+
+    const syncPromise = engine.syncProducts(mockStore, [102, 102]);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+
+    expect(fina.getProductDetails).toHaveBeenCalledWith([102]);
+    expect(wolt.updateItems.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-102', enabled: false, price: 200 }]);
+    expect(wolt.updateInventory.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-102', inventory: 0 }]);
+    expect(auditJournal.track.mock.calls[0][0].source).toBe('webhook');
+
+    // Products outside the event are neither disabled nor dropped from state
+    const savedState = stateManager.saveState.mock.calls[0][1];
+    expect(savedState['WOLT-101']).toMatchObject({ quantity: 10, enabled: true });
+    expect(savedState['WOLT-OTHER']).toMatchObject({ quantity: 7, enabled: true });
+    expect(reportStore.save).not.toHaveBeenCalledWith(1, 'sku-mapping', expect.anything());
+    expect(snapshots.take).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should never hold or discard the pending delta from a Fina webhook run', async () => {
+    process.env.ANOMALY_MIN_CATALOG_SIZE = '0';
+    const previousState = {
+      'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 },
+      'WOLT-102': { quantity: 3, enabled: true, price: 200, lastSeen: 0 },
+      'WOLT-OTHER': { quantity: 7, enabled: true, price: 50, lastSeen: 0 }
+    };
+    stateManager.loadState.mockResolvedValue(previousState);
+    fina.getProductDetails.mockResolvedValue(detailsOf([{ id: 102, title: 'Bread', price: 200, add_fields: [{ field: 'usr_column_514', value: 'WOLT-102' }] }]));
+    pendingDeltas.discard.mockResolvedValue(true);
+
+    // 1/3 SKUs disabled trips the guard: nothing is sent and the held full-sync delta is left alone
+    let syncPromise = engine.syncProducts(mockStore, [102]);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    expect(wolt.updateItems).not.toHaveBeenCalled();
+    expect(pendingDeltas.save).not.toHaveBeenCalled();
+
+    // Passing the guard does not supersede it either
+    process.env.ANOMALY_MAX_DISABLE_PERCENT = '50';
+    syncPromise = engine.syncProducts(mockStore, [102]);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+    delete process.env.ANOMALY_MIN_CATALOG_SIZE;
+    delete process.env.ANOMALY_MAX_DISABLE_PERCENT;
+
+    expect(wolt.updateItems).toHaveBeenCalledTimes(1);
+    expect(pendingDeltas.discard).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should abort on partial product details and name the missing Fina IDs', async () => {
+    fina.getProductDetails.mockResolvedValueOnce(detailsOf([{ id: 101, title: 'Milk', price: 100, add_fields: [{ field: 'usr_column_514', value: 'WOLT-101' }] }], [102]));
+
+    const syncPromise = engine.run(mockStore);
+    const assertion = expect(syncPromise).rejects.toMatchObject({ missingIds: [102] });
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+  }, 30000);
+
+  it('should keep the last values of SKUs behind quarantined Fina rows', async () => {
+    stateManager.loadState.mockResolvedValueOnce({
+      'WOLT-101': { quantity: 10, enabled: true, price: 100, lastSeen: 0 },
+      'WOLT-102': { quantity: 3, enabled: true, price: 200, lastSeen: 0 }
+    });
+    fina.getInventory.mockResolvedValueOnce({
+      items: [{ id: 101, rest: 5, store_id: 1 }],
+      durationMs: 10,
+      invalidRows: [{ id: 102, reasons: ['rest: Expected number, received null'] }]
+    });
+
+    const syncPromise = engine.run(mockStore);
+    await vi.runAllTimersAsync();
+    await syncPromise;
+
+    expect(fina.getProductDetails).toHaveBeenCalledWith([101, 102]);
+    expect(wolt.updateItems).not.toHaveBeenCalled();
+    expect(wolt.updateInventory.mock.calls[0][1].data).toEqual([{ sku: 'WOLT-101', inventory: 5 }]);
+    expect(stateManager.saveState.mock.calls[0][1]['WOLT-102']).toMatchObject({ quantity: 3, enabled: true });
+    expect(reportStore.save).toHaveBeenCalledWith(1, 'fina-invalid', expect.objectContaining({
+      inventory: [{ id: 102, reasons: ['rest: Expected number, received null'] }],
+      quarantinedSkus: ['WOLT-102']
+    }));
   }, 30000);
 
   it('should not sync if store is disabled', async () => {
     const disabledStore = { ...mockStore, enabled: false };
 
     await engine.run(disabledStore);
-
-    const woltAdapter = (engine as any).wolt;
-    expect(woltAdapter.updateInventory).not.toHaveBeenCalled();
-    expect(woltAdapter.updateItems).not.toHaveBeenCalled();
+    expect(wolt.updateInventory).not.toHaveBeenCalled();
+    expect(wolt.updateItems).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { hashFinaSnapshot, hashState, stableStringify } from '../../src/core/syncPlan';
+
+describe('syncPlan hashing', () => {
+  it('should stringify independent of key order and skip undefined values', () => {
+    expect(stableStringify({ b: 1, a: { d: [1, 2], c: undefined } })).toBe('{"a":{"d":[1,2]},"b":1}');
+    expect(stableStringify({ a: 1, b: 2 })).toBe(stableStringify({ b: 2, a: 1 }));
+  });
+
+  it('should detect any change in state', () => {
+    const state = { SKU: { quantity: 1, enabled: true, price: 10, lastSeen: 0 } };
+    expect(hashState(state)).toBe(hashState({ SKU: { lastSeen: 0, price: 10, enabled: true, quantity: 1 } }));
+    expect(hashState(state)).not.toBe(hashState({ SKU: { ...state.SKU, lastSeen: 1 } }));
+  });
+
+  it('should hash Fina snapshots independent of row order', () => {
+    const a = { id: 1, rest: 2 };
+    const b = { id: 2, rest: 3 };
+    const detail = { id: 1, price: 5, add_fields: [] };
+    expect(hashFinaSnapshot([a, b], [detail])).toBe(hashFinaSnapshot([b, a], [detail]));
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { VatResolver, parseCategoryRates } from '../../src/core/vatResolver';
+import { FinaProductDetail } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('VatResolver', () => {
+  const product = (fields: Record<string, string>): FinaProductDetail => ({
+    id: 1,
+    title: 'Product',
+    price: 10,
+    add_fields: Object.entries(fields).map(([field, value]) => ({ field, value })),
+  });
+
+  afterEach(() => {
+    delete process.env.FINA_CATEGORY_FIELD;
+    delete process.env.VAT_FIELD;
+    delete process.env.VAT_DEFAULT_PERCENTAGE;
+    delete process.env.STORE_4_VAT_DEFAULT_PERCENTAGE;
+  });
+
+  it('should parse category rates', () => {
+    expect(parseCategoryRates('Bakery:0, Alcohol:18,broken')).toEqual({ Bakery: 0, Alcohol: 18 });
+  });
+
+  it('should prefer the add_field, then category, then store default', () => {
+    process.env.FINA_CATEGORY_FIELD = 'usr_category';
+    const resolver = new VatResolver(4, {
+      field: 'usr_vat',
+      defaultPercentage: 18,
+      categoryRates: { Bakery: 0 },
+      allowedRates: [0, 18],
+    });
+
+    expect(resolver.resolve(product({ usr_vat: '18%', usr_category: 'Bakery' }))).toEqual({ vatPercentage: 18, source: 'add_field' });
+    expect(resolver.resolve(product({ usr_category: 'Bakery' }))).toEqual({ vatPercentage: 0, source: 'category', rejectedValue: undefined });
+    expect(resolver.resolve(product({}))).toEqual({ vatPercentage: 18, source: 'store', rejectedValue: undefined });
+  });
+
+  it('should reject rates outside the allowed list', () => {
+    const resolver = new VatResolver(4, { field: 'usr_vat', categoryRates: {}, allowedRates: [0, 18] });
+
+    expect(resolver.resolve(product({ usr_vat: '20' }))).toEqual({ rejectedValue: '20' });
+  });
+
+  it('should read per-store settings from env', () => {
+    process.env.VAT_DEFAULT_PERCENTAGE = '18';
+    process.env.STORE_4_VAT_DEFAULT_PERCENTAGE = '0';
+
+    expect(VatResolver.fromEnv(4).resolve(product({})).vatPercentage).toBe(0);
+    expect(VatResolver.fromEnv(5).resolve(product({})).vatPercentage).toBe(18);
+    expect(VatResolver.fromEnv(5).isConfigured()).toBe(true);
+  });
+});
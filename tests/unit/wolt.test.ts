@@ -1,4 +1,20 @@
 import { describe, it, expect, vi } from 'vitest';
+import axios from 'axios';
+import { WoltAdapter } from '../../src/adapters/wolt';
+import { WoltBatchRejectedError } from '../../src/adapters/woltErrors';
+import { sendIsolatingRejects } from '../../src/core/quarantine';
+
+vi.mock('axios', () => ({ default: { create: vi.fn() } }));
+
+vi.mock('../../src/utils/logger', () => ({
+  logger: { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() }
+}));
+
+vi.mock('../../src/utils/woltRateLimiter', () => ({
+  WoltRateLimiter: {
+    fromEnv: () => ({ waitForTurn: vi.fn().mockResolvedValue(undefined), onSuccess: vi.fn(), onRateLimited: vi.fn() })
+  }
+}));
 
 // Test utility functions used by WoltAdapter (without importing WoltAdapter to avoid queue/retry issues)
 
@@ -118,3 +134,55 @@ describe('Wolt Utilities', () => {
     });
   });
 });
+
+describe('WoltAdapter.probeCredentials', () => {
+  const probe = async (get: ReturnType<typeof vi.fn>, password: string = 'pass') => {
+    vi.mocked(axios.create).mockReturnValue({ get } as any);
+    return new WoltAdapter().probeCredentials('venue-1', 'user', password, 'https://wolt.test/venues');
+  };
+  const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+  it('should read one item and never write', async () => {
+    const get = vi.fn().mockResolvedValue({ status: 200, data: [] });
+    expect(await probe(get)).toEqual({ ok: true, status: 200, message: 'Credentials accepted' });
+    expect(get).toHaveBeenCalledWith('/items', { params: { limit: 1 } });
+  });
+
+  it('should distinguish rejected credentials from inconclusive checks', async () => {
+    expect((await probe(vi.fn().mockRejectedValue(httpError(401)))).ok).toBe(false);
+    expect((await probe(vi.fn().mockRejectedValue(httpError(403)))).ok).toBe(false);
+    expect((await probe(vi.fn().mockRejectedValue(httpError(404)))).ok).toBeNull();
+    expect((await probe(vi.fn().mockRejectedValue(new Error('socket hang up')))).ok).toBeNull();
+    expect(await probe(vi.fn(), '')).toEqual({ ok: false, message: 'Missing credentials for venue venue-1' });
+  });
+});
+
+describe('WoltAdapter rejections', () => {
+  const httpError = (status: number, data?: unknown) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status, data } });
+  const createAdapter = (patch: ReturnType<typeof vi.fn>): WoltAdapter => {
+    vi.mocked(axios.create).mockReturnValue({ patch } as any);
+    const wolt = new WoltAdapter();
+    (wolt as any).queuePromise = Promise.resolve({ add: (fn: () => Promise<unknown>) => fn() });
+    return wolt;
+  };
+  const batch = ['A', 'B', 'C', 'D'].map(sku => ({ sku, enabled: true }));
+
+  it('should fail the run when every call returns a 404 without a body instead of quarantining the batch', async () => {
+    const patch = vi.fn().mockRejectedValue(httpError(404));
+    const wolt = createAdapter(patch);
+
+    const outcome = sendIsolatingRejects(batch, items => wolt.updateItems('venue-1', { data: items }, 'user', 'pass', 'https://wolt.test/venues'));
+
+    await expect(outcome).rejects.toThrow('Request failed with status code 404');
+    await expect(outcome).rejects.not.toBeInstanceOf(WoltBatchRejectedError);
+    expect(patch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a 404 that names SKUs of the batch as a rejection', async () => {
+    const patch = vi.fn().mockRejectedValue(httpError(404, { errors: [{ sku: 'B', message: 'Item not found' }] }));
+    const wolt = createAdapter(patch);
+
+    await expect(wolt.updateItems('venue-1', { data: batch }, 'user', 'pass', 'https://wolt.test/venues'))
+      .rejects.toMatchObject({ status: 404, itemErrors: [{ sku: 'B', kind: 'unknown_sku' }] });
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { WoltCatalogError, WoltCatalogReader, parseCatalogPage } from '../../src/adapters/woltCatalog';
+import { StoreConfig } from '../../src/types';
+
+// Mock logger
+vi.mock('../../src/utils/logger', () => {
+  const log = { info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() };
+  return { logger: log, createStoreLogger: () => log };
+});
+
+const store = { id: 3, woltVenueId: 'venue-3', woltUsername: 'u', woltPassword: 'p' } as StoreConfig;
+
+describe('parseCatalogPage', () => {
+  it('should map rows to typed items and skip invalid ones', () => {
+    const page = parseCatalogPage({
+      items: [
+        { sku: 'A', name: [{ lang: 'en', value: 'Milk' }], enabled: false, price: 120, discounted_price: 99, inventory: 4, vat_percentage: 9 },
+        { sku: 'B', price: null },
+        { sku: '', enabled: true },
+        { enabled: true, price: 'free' }
+      ],
+      next_page_token: 'p2'
+    });
+
+    expect(page.items).toEqual([
+      { sku: 'A', name: 'Milk', enabled: false, price: 120, discountedPrice: 99, inventory: 4, vatPercentage: 9 },
+      { sku: 'B', enabled: true }
+    ]);
+    expect(page.invalidItems).toBe(2);
+    expect(page.nextPageToken).toBe('p2');
+  });
+
+  it('should accept an unpaginated array and reject unknown shapes', () => {
+    expect(parseCatalogPage([{ sku: 'A', enabled: true }]).nextPageToken).toBeUndefined();
+    expect(() => parseCatalogPage({ results: [] })).toThrow(WoltCatalogError);
+    expect(() => parseCatalogPage('<html>')).toThrow(WoltCatalogError);
+  });
+});
+
+describe('WoltCatalogReader', () => {
+  let tmpDir: string;
+  let getItemsPage: ReturnType<typeof vi.fn>;
+  let reader: WoltCatalogReader;
+
+  beforeEach(async () => {
+    tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'wolt-catalog-'));
+    vi.spyOn(process, 'cwd').mockReturnValue(tmpDir);
+    getItemsPage = vi.fn();
+    reader = new WoltCatalogReader({ getItemsPage } as any, { cacheTtlMs: 60000, pageSize: 2, maxPages: 10 });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    delete process.env.ENABLE_WOLT_INTROSPECTION;
+    await fs.remove(tmpDir);
+  });
+
+  it('should follow page tokens and serve repeat reads from the cache until the TTL expires', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-03-01T10:00:00Z'), toFake: ['Date'] });
+    getItemsPage
+      .mockResolvedValueOnce({ items: [{ sku: 'A', enabled: true }, { sku: 'B', enabled: true }], next_page_token: 'p2' })
+      .mockResolvedValueOnce({ items: [{ sku: 'C', enabled: false }], next_page_token: null });
+
+    const catalog = await reader.read(store);
+    expect(catalog?.items.map(item => item.sku)).toEqual(['A', 'B', 'C']);
+    expect(catalog?.pages).toBe(2);
+    expect(getItemsPage).toHaveBeenNthCalledWith(2, 'venue-3', { pageToken: 'p2', limit: 2 }, 'u', 'p', undefined);
+
+    vi.setSystemTime(Date.parse('2026-03-01T10:00:30Z'));
+    expect((await reader.read(store))?.items).toHaveLength(3);
+    expect(getItemsPage).toHaveBeenCalledTimes(2);
+
+    vi.setSystemTime(Date.parse('2026-03-01T10:02:00Z'));
+    getItemsPage.mockResolvedValueOnce([{ sku: 'A', enabled: false }]);
+    expect((await reader.read(store))?.items).toEqual([{ sku: 'A', enabled: false }]);
+    expect(getItemsPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop on a repeated page token', async () => {
+    getItemsPage.mockResolvedValue({ items: [{ sku: 'A', enabled: true }], next_page_token: 'loop' });
+    await expect(reader.read(store)).rejects.toThrow(/repeated page token/);
+    expect(getItemsPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return null when the endpoint is unsupported or introspection is disabled', async () => {
+    getItemsPage.mockResolvedValue(null);
+    expect(await reader.read(store)).toBeNull();
+
+    process.env.ENABLE_WOLT_INTROSPECTION = 'false';
+    expect(await reader.read(store, { refresh: true })).toBeNull();
+    expect(getItemsPage).toHaveBeenCalledTimes(1);
+  });
+});